@@ -1,18 +1,49 @@
 import { test as baseTest, Page, TestInfo } from '@playwright/test';
-import AuthStorageManager from '../src/utils/auth/storage/authStorageManager';
+import type winston from 'winston';
 import { EnvironmentResolver } from '../src/config/environment/resolver/environmentResolver';
 import { FetchCIEnvironmentVariables } from '../src/config/environment/resolver/fetch/fetchCIEnvironmentVariables';
 import { FetchLocalEnvironmentVariables } from '../src/config/environment/resolver/fetch/fetchLocalEnvironmentVariables';
-import FileSystemManager from '../src/utils/fileSystem/fileSystemManager';
 import AuthenticationFilter from '../src/utils/auth/authenticationFilter';
 import { BrowserSessionManager } from '../src/utils/auth/state/browserSessionManager';
-import logger from '../src/utils/logging/loggerManager';
+import { AuthSessionManager } from '../src/utils/auth/state/authSessionManager';
+import logger, { LoggerManager } from '../src/utils/logging/loggerManager';
+import WinstonLoggerFactory from '../src/utils/logging/loggerFactory';
+import FileSystemManager from '../src/utils/fileSystem/fileSystemManager';
+import { ApiClient } from '../src/utils/api/apiClient';
+import { NetworkInterceptor } from '../src/networkInterceptors/networkInterceptor';
+import { DatabaseClient } from '../src/utils/database/databaseClient';
+import { DatabaseTransaction } from '../src/utils/database/databaseTransaction';
+import ENV from '../src/config/environment/variables/variables';
+import { ConfiguratorApiService } from '../src/utils/api/configuratorApiService';
+import { TestDataCleanupRegistry } from '../src/testData/cleanup/testDataCleanupRegistry';
+import { ConfiguratorTestDataBuilder } from '../src/testData/builder/configuratorTestDataBuilder';
+import { ConfiguratorEntityCreator } from '../src/config/types/data/test-data-builder.types';
+import { PersistentTestDataStore } from '../src/testData/store/persistentTestDataStore';
+import { SharedDataStore } from '../src/utils/dataStore/sharedDataStore';
+import SecretDetectionReport from '../src/utils/sanitization/secretDetectionReport';
+import ScreenshotMask from '../src/utils/sanitization/screenshotMask';
+import ErrorHandler from '../src/utils/errors/errorHandler';
+import ErrorClassifier from '../src/utils/errors/errorClassifier';
+import FlakinessAnalyzer from '../src/utils/flakiness/flakinessAnalyzer';
+import { FlakyTestHistory } from '../src/utils/flakiness/flakyTestHistory';
+import QuarantineList from '../src/utils/flakiness/quarantineList';
+import { FlakyTestHistoryFile } from '../src/config/types/reporting/flaky-test.types';
+import { DEFAULT_USER_ROLE } from '../src/utils/auth/roles/userRole.config';
+import { UserRole } from '../src/config/types/auth/user-role.types';
+import { AuthMode } from '../src/config/types/auth/auth-mode.types';
+import { ConfiguratorDataGenerator } from '../src/testData/testDataGenerator';
+import TestDataRandom from '../src/testData/random/testDataRandom';
+import { TestDataRandomConstants } from '../src/testData/random/testDataRandom.constants';
 
 import { LoginPage } from '../src/ui/pages/loginPage';
 import { ExamplePage } from '../src/ui/pages/examplePage';
 
 type ConfiguratorTestFixtures = {
   shouldSaveAuthState: boolean;
+  role: UserRole;
+  authMode: AuthMode;
+  authStatePath: string | undefined;
+  apiAuthStatePath: string | undefined;
   browserSessionManager: BrowserSessionManager;
   environmentResolver: EnvironmentResolver;
   fetchCIEnvironmentVariables: FetchCIEnvironmentVariables;
@@ -20,13 +51,58 @@ type ConfiguratorTestFixtures = {
   testInfo: TestInfo;
   loginPage: LoginPage;
   examplePage: ExamplePage;
+  apiClient: ApiClient;
+  networkInterceptor: NetworkInterceptor;
+  databaseTransaction: DatabaseTransaction;
+  configuratorApiService: ConfiguratorApiService;
+  testDataCleanup: TestDataCleanupRegistry;
+  given: (creator?: ConfiguratorEntityCreator) => ConfiguratorTestDataBuilder;
+  testLogger: winston.Logger;
+  testDataSeed: number;
+  errorClassification: void;
+  flakyTestQuarantine: void;
+  testDataStore: PersistentTestDataStore;
+  sharedDataStore: SharedDataStore;
 };
 
-const configuratorTests = baseTest.extend<ConfiguratorTestFixtures>({
+type ConfiguratorWorkerFixtures = {
+  maskSensitiveScreenshots: boolean;
+  authSessionManager: AuthSessionManager;
+  databaseClient: DatabaseClient;
+  workerTestDataCleanup: TestDataCleanupRegistry;
+  secretDetectionReport: void;
+  flakyTestHistory: FlakyTestHistoryFile;
+};
+
+const configuratorTests = baseTest.extend<ConfiguratorTestFixtures, ConfiguratorWorkerFixtures>({
   shouldSaveAuthState: [true, { option: true }],
+  maskSensitiveScreenshots: [false, { option: true, scope: 'worker' }],
+  // The built-in screenshot cannot mask fields, so the context fixture attaches masked ones
+  screenshot: [
+    async ({ screenshot, maskSensitiveScreenshots }, use) => {
+      await use(maskSensitiveScreenshots ? 'off' : screenshot);
+    },
+    { scope: 'worker' },
+  ],
+  role: [DEFAULT_USER_ROLE, { option: true }],
+
+  authMode: async ({ role, shouldSaveAuthState }, use, testInfo) => {
+    // Fails the test before it starts when an auth tag is unknown or conflicting
+    const resolvedAuthMode = AuthenticationFilter.resolveAuthMode(testInfo, role);
+    const authMode: AuthMode =
+      shouldSaveAuthState || resolvedAuthMode.type !== 'storageState'
+        ? resolvedAuthMode
+        : { ...resolvedAuthMode, type: 'noAuth', source: 'option' };
 
-  browserSessionManager: async ({ page, environmentResolver, loginPage }, use) => {
-    await use(new BrowserSessionManager(page, environmentResolver, loginPage));
+    testInfo.annotations.push({
+      type: 'auth-mode',
+      description: AuthenticationFilter.describeAuthMode(authMode),
+    });
+    await use(authMode);
+  },
+
+  browserSessionManager: async ({ page, environmentResolver, loginPage, authMode }, use) => {
+    await use(new BrowserSessionManager(page, environmentResolver, loginPage, authMode.role));
   },
 
   fetchCIEnvironmentVariables: async ({}, use) => {
@@ -45,41 +121,271 @@ const configuratorTests = baseTest.extend<ConfiguratorTestFixtures>({
     await use(baseTest.info());
   },
 
-  loginPage: async ({ page }, use) => {
-    await use(new LoginPage(page));
+  authSessionManager: [
+    async ({ browser }, use) => {
+      await use(
+        new AuthSessionManager(
+          browser,
+          new EnvironmentResolver(
+            new FetchCIEnvironmentVariables(),
+            new FetchLocalEnvironmentVariables(),
+          ),
+        ),
+      );
+    },
+    { scope: 'worker' },
+  ],
+  authStatePath: async ({ authSessionManager, authMode }, use, testInfo) => {
+    if (authMode.type === 'noAuth') {
+      logger.info(`Skipping auth state for test: ${testInfo.title}`);
+      await use(undefined);
+      return;
+    }
+
+    if (authMode.type === 'freshSession') {
+      await use(
+        await authSessionManager.createFreshSession(
+          authMode.role,
+          testInfo.outputPath(`${authMode.role}-session.json`),
+        ),
+      );
+      return;
+    }
+
+    // Signs in again when the saved session has expired
+    const storagePath = await authSessionManager.ensureFreshSession(authMode.role);
+    logger.info(`Using '${authMode.role}' auth state from: ${storagePath}`);
+    await use(storagePath);
   },
-  examplePage: async ({ page }, use) => {
-    await use(new ExamplePage(page));
+
+  // API and DB-only tests launch no browser, so they use the role's saved session as is;
+  // fresh-session tests share it too, as only their browser context needs its own
+  apiAuthStatePath: async ({ authMode }, use) => {
+    if (authMode.type === 'noAuth') {
+      await use(undefined);
+      return;
+    }
+    await use(await AuthSessionManager.getSavedSession(authMode.role));
+  },
+
+  apiClient: async ({ environmentResolver, apiAuthStatePath }, use) => {
+    const apiClient = new ApiClient(environmentResolver);
+    if (apiAuthStatePath) {
+      await apiClient.useStorageStateAuth(apiAuthStatePath);
+    }
+    await use(apiClient);
+  },
+
+  networkInterceptor: async ({ page }, use, testInfo) => {
+    const networkInterceptor = new NetworkInterceptor(page, testInfo.testId);
+    await use(networkInterceptor);
+    await networkInterceptor.dispose();
+  },
+
+  databaseClient: [
+    async ({}, use) => {
+      const databaseClient = new DatabaseClient(
+        new EnvironmentResolver(
+          new FetchCIEnvironmentVariables(),
+          new FetchLocalEnvironmentVariables(),
+        ),
+        { trustServerCertificate: ENV.DB_TRUST_SERVER_CERTIFICATE },
+      );
+      await use(databaseClient);
+      await databaseClient.close();
+    },
+    { scope: 'worker' },
+  ],
+  databaseTransaction: async ({ databaseClient }, use) => {
+    const transaction = await databaseClient.beginTransaction();
+    await use(transaction);
+    // Leave no test data behind unless the test explicitly committed
+    await databaseClient.rollbackOpenTransactions();
+  },
+
+  configuratorApiService: async ({ apiClient }, use) => {
+    await use(new ConfiguratorApiService(apiClient));
+  },
+  testDataCleanup: async ({ configuratorApiService }, use, testInfo) => {
+    const registry = new TestDataCleanupRegistry('test', testInfo.testId, configuratorApiService);
+    await use(registry);
+    await registry.runCleanup();
+  },
+  // given() creates through the API; pass a UI implementation to create through the screens
+  given: async ({ configuratorApiService, testDataCleanup }, use) => {
+    await use(
+      (creator = configuratorApiService) =>
+        new ConfiguratorTestDataBuilder(creator, testDataCleanup),
+    );
   },
+  workerTestDataCleanup: [
+    async ({}, use, workerInfo) => {
+      const apiClient = new ApiClient(
+        new EnvironmentResolver(
+          new FetchCIEnvironmentVariables(),
+          new FetchLocalEnvironmentVariables(),
+        ),
+      );
+      await apiClient.useStorageStateAuth();
+
+      const registry = new TestDataCleanupRegistry(
+        'worker',
+        `worker-${workerInfo.workerIndex}`,
+        new ConfiguratorApiService(apiClient),
+      );
+      await use(registry);
+      await registry.runCleanup();
+    },
+    { scope: 'worker' },
+  ],
+
+  secretDetectionReport: [
+    async ({}, use, workerInfo) => {
+      await use();
+      await SecretDetectionReport.publish(`worker-${workerInfo.workerIndex}`);
+    },
+    { scope: 'worker', auto: true },
+  ],
 
-  context: async ({ browser, shouldSaveAuthState }, use, testInfo) => {
-    let storageState: string | undefined;
+  flakyTestHistory: [
+    async ({}, use) => {
+      await use(await new FlakyTestHistory().read());
+    },
+    { scope: 'worker' },
+  ],
 
-    const shouldSkipAuth = AuthenticationFilter.shouldSkipAuthSetup(testInfo, [
-      'invalid credentials',
-      'non-existing user',
-    ]);
+  testLogger: [
+    async ({}, use, testInfo) => {
+      const shard = testInfo.config.shard;
+      const testLogger = LoggerManager.startTestLogging({
+        testId: testInfo.testId,
+        title: testInfo.titlePath.slice(1).join(' > '),
+        project: testInfo.project.name,
+        workerIndex: testInfo.workerIndex,
+        retry: testInfo.retry,
+        shard: shard ? `${shard.current}/${shard.total}` : undefined,
+      });
 
-    if (shouldSaveAuthState && !shouldSkipAuth) {
-      const storagePath = await AuthStorageManager.resolveAuthStateFilePath();
-      const fileExists = await FileSystemManager.doesFileExist(storagePath);
+      await use(testLogger);
 
-      if (fileExists) {
-        storageState = storagePath;
-        logger.info(`Using auth state from: ${storagePath}`);
-      } else {
-        logger.warn(
-          `Auth state file not found at: ${storagePath}. Please run the authentication setup first.`,
+      const lines = await LoggerManager.stopTestLogging();
+      if (lines.length > 0) {
+        const isJson = WinstonLoggerFactory.getLogFormat() === 'json';
+        const logPath = testInfo.outputPath(isJson ? 'test-log.jsonl' : 'test-log.log');
+        try {
+          await FileSystemManager.writeFile(logPath, `${lines.join('\n')}\n`, 'testLog');
+          await testInfo.attach('test-log', {
+            path: logPath,
+            contentType: isJson ? 'application/jsonl' : 'text/plain',
+          });
+        } catch (err) {
+          logger.warn(`Failed to attach test log: ${err}`);
+        }
+      }
+    },
+    { auto: true },
+  ],
+
+  errorClassification: [
+    async ({}, use, testInfo) => {
+      ErrorHandler.resetCapturedErrors();
+
+      await use();
+
+      const capturedErrors = ErrorHandler.getCapturedErrors();
+      if (testInfo.status !== testInfo.expectedStatus && capturedErrors.length > 0) {
+        await testInfo.attach(ErrorClassifier.ATTACHMENT_NAME, {
+          body: JSON.stringify(capturedErrors, null, 2),
+          contentType: 'application/json',
+        });
+      }
+    },
+    { auto: true },
+  ],
+
+  flakyTestQuarantine: [
+    async ({ flakyTestHistory }, use, testInfo) => {
+      const title = FlakinessAnalyzer.getTitle(testInfo.titlePath);
+      const quarantined = QuarantineList.find(title);
+      if (quarantined) {
+        testInfo.annotations.push({ type: 'quarantined', description: quarantined.reason });
+        // Reported as fixme everywhere except the project of playwright.quarantine.config.ts
+        testInfo.fixme(
+          testInfo.project.name !== QuarantineList.PROJECT_NAME,
+          `Quarantined: ${quarantined.reason}`,
         );
-        storageState = undefined;
       }
-    } else {
-      logger.info(`Skipping auth state for test: ${testInfo.title}`);
-      storageState = undefined;
+
+      const history =
+        flakyTestHistory.tests[FlakinessAnalyzer.getTestKey(testInfo.project.name, title)];
+      if (history?.isFlaky) {
+        testInfo.annotations.push({
+          type: 'flaky',
+          description: `Flakiness score ${history.flakinessScore} over the last ${history.runs.length} runs`,
+        });
+      }
+
+      await use();
+    },
+    { auto: true },
+  ],
+
+  testDataSeed: [
+    async ({}, use, testInfo) => {
+      // Same run seed and test id give the same data, whichever worker runs the test
+      const seed = TestDataRandom.seedFor(testInfo.testId);
+      ConfiguratorDataGenerator.getInstance().resetCounter();
+
+      await use(seed);
+
+      if (testInfo.status !== testInfo.expectedStatus) {
+        const runSeed = TestDataRandom.getRunSeed();
+        testInfo.annotations.push({
+          type: TestDataRandomConstants.SEED_ANNOTATION,
+          description: `TEST_DATA_SEED=${runSeed} (test seed ${seed})`,
+        });
+        logger.info(`Replay the test data of '${testInfo.title}' with TEST_DATA_SEED=${runSeed}`);
+      }
+    },
+    { auto: true },
+  ],
+
+  testDataStore: async ({}, use, testInfo) => {
+    await use(
+      new PersistentTestDataStore({
+        workerId: `worker-${testInfo.workerIndex}`,
+        testId: testInfo.testId,
+      }),
+    );
+  },
+
+  sharedDataStore: async ({}, use, testInfo) => {
+    const store = new SharedDataStore('shared', { workerId: `worker-${testInfo.workerIndex}` });
+
+    await use(store);
+
+    if (testInfo.status !== testInfo.expectedStatus) {
+      try {
+        await testInfo.attach('shared-data-store', {
+          body: JSON.stringify(await store.dump(testInfo.testId), null, 2),
+          contentType: 'application/json',
+        });
+      } catch (err) {
+        logger.warn(`Failed to attach shared data store: ${err}`);
+      }
     }
+  },
 
+  loginPage: async ({ page }, use) => {
+    await use(new LoginPage(page));
+  },
+  examplePage: async ({ page }, use) => {
+    await use(new ExamplePage(page));
+  },
+
+  context: async ({ browser, authStatePath, maskSensitiveScreenshots }, use, testInfo) => {
     const context = await browser.newContext({
-      storageState,
+      storageState: authStatePath,
       recordVideo: {
         dir: 'test-results/',
         size: { width: 1920, height: 1080 },
@@ -91,6 +397,19 @@ const configuratorTests = baseTest.extend<ConfiguratorTestFixtures>({
 
     await use(context);
 
+    if (maskSensitiveScreenshots) {
+      for (const page of pages.filter((openPage) => !openPage.isClosed())) {
+        try {
+          await testInfo.attach('screenshot', {
+            body: await page.screenshot({ mask: ScreenshotMask.getLocators(page) }),
+            contentType: 'image/png',
+          });
+        } catch (err) {
+          logger.warn(`Failed to attach masked screenshot: ${err}`);
+        }
+      }
+    }
+
     await context.close();
 
     for (const page of pages) {
@@ -4,12 +4,16 @@ import { CryptoService } from '../src/cryptography/service/cryptoService';
 import { EncryptionManager } from '../src/cryptography/manager/encryptionManager';
 import { EnvironmentFileParser } from '../src/cryptography/manager/environmentFileParser';
 import { CryptoOrchestrator } from '../src/cryptography/service/cryptoOrchestrator';
+import { CryptoMetadataManager } from '../src/cryptography/manager/cryptoMetadataManager';
+import { KeyRotationManager } from '../src/cryptography/manager/keyRotationManager';
 
 type customFixtures = {
   environmentSecretFileManager: EnvironmentSecretFileManager;
   cryptoService: CryptoService;
   encryptionManager: EncryptionManager;
   environmentFileParser: EnvironmentFileParser;
+  cryptoMetadataManager: CryptoMetadataManager;
+  keyRotationManager: KeyRotationManager;
   cryptoOrchestrator: CryptoOrchestrator;
 };
 
@@ -26,8 +30,28 @@ export const cryptoFixtures = baseTest.extend<customFixtures>({
   environmentFileParser: async ({}, use) => {
     await use(new EnvironmentFileParser());
   },
-  cryptoOrchestrator: async ({ encryptionManager, environmentSecretFileManager }, use) => {
-    await use(new CryptoOrchestrator(encryptionManager, environmentSecretFileManager));
+  cryptoMetadataManager: async ({}, use) => {
+    await use(new CryptoMetadataManager());
+  },
+  keyRotationManager: async (
+    { environmentFileParser, environmentSecretFileManager, cryptoMetadataManager },
+    use,
+  ) => {
+    await use(
+      new KeyRotationManager(
+        environmentFileParser,
+        environmentSecretFileManager,
+        cryptoMetadataManager,
+      ),
+    );
+  },
+  cryptoOrchestrator: async (
+    { encryptionManager, environmentSecretFileManager, keyRotationManager },
+    use,
+  ) => {
+    await use(
+      new CryptoOrchestrator(encryptionManager, environmentSecretFileManager, keyRotationManager),
+    );
   },
 });
 
@@ -0,0 +1,62 @@
+import { test, expect } from './configurator.fixture';
+import {
+  NegativeTestChannel,
+  NegativeTestMatrixDefinition,
+} from '../src/config/types/data/negative-test.types';
+import NegativeTestMatrix from '../src/testData/negative/negativeTestMatrix';
+import BasePage from '../src/ui/base/basePage';
+
+/**
+ * Declares one test per invalid field and rule of a matrix. API tests assert the response
+ * status, UI tests fill the form, submit it and assert the validation message.
+ * @param matrix - The invalid fields of an entity, e.g. BRANCH_NEGATIVE_MATRIX
+ * @param channel - Submit through the API, or through the UI form of the entity
+ */
+export function describeNegativeMatrix<T>(
+  matrix: NegativeTestMatrixDefinition<T>,
+  channel: NegativeTestChannel<T>,
+): void {
+  test.describe(`${matrix.entityType} validation (${channel.via}) @negative`, () => {
+    for (const testCase of NegativeTestMatrix.expand(matrix)) {
+      if (channel.via === 'api') {
+        test(testCase.title, async ({ configuratorApiService, testDataCleanup }) => {
+          const response = await configuratorApiService.submitInvalidEntity(
+            testCase.entityType,
+            testCase.payload,
+            testCase.expectedStatusCodes,
+          );
+
+          // Accepted entities still have to be removed before the assertion fails the test
+          if (response.data?.id) {
+            await testDataCleanup.register(testCase.entityType, response.data.id);
+          }
+          expect(
+            testCase.expectedStatusCodes,
+            `${testCase.entityType} with ${testCase.rule} ${testCase.field} answered ${response.status}`,
+          ).toContain(response.status);
+        });
+        continue;
+      }
+
+      test(testCase.title, async ({ page }) => {
+        const basePage = new BasePage(page);
+
+        await channel.openForm(page);
+        await basePage.fillForm(
+          NegativeTestMatrix.getFormPayload(testCase, channel.fields),
+          channel.fields,
+          `${testCase.entityType} form`,
+        );
+        await basePage.clickElement(
+          page.locator(channel.submitSelector ?? 'button[type="submit"]'),
+          'Submit',
+        );
+        await basePage.verifyElementState(
+          page.getByText(testCase.expectedMessage).first(),
+          'visible',
+          `'${testCase.expectedMessage}' message`,
+        );
+      });
+    }
+  });
+}
@@ -4,6 +4,7 @@ import EnvironmentDetector from './src/config/environment/detector/detector';
 import { TIMEOUTS } from './src/config/timeouts/timeout.config';
 import BrowserInitFlag from './src/config/browserInitFlag';
 import { AuthStorageConstants } from './src/utils/auth/constants/authStorage.constants';
+import UserRoleRegistry from './src/utils/auth/roles/userRoleRegistry';
 import * as os from 'os';
 import * as path from 'path';
 
@@ -33,9 +34,7 @@ const workerCount =
       ? Math.max(1, os.cpus().length - 1)
       : Math.max(1, Math.floor(os.cpus().length / 2));
 
-const authFileName = EnvironmentDetector.isCI()
-  ? AuthStorageConstants.CI_AUTH_FILE
-  : AuthStorageConstants.LOCAL_AUTH_FILE;
+const authFileName = UserRoleRegistry.getStorageStateFileName();
 const storageStatePath = path.join(AuthStorageConstants.DIRECTORY, authFileName);
 
 const reportConfig: OrtoniReportConfig = {
@@ -77,11 +76,13 @@ export default defineConfig({
   },
   testDir: './tests',
   globalSetup: './src/config/environment/global/globalEnvironmentSetup.ts',
+  globalTeardown: './src/config/environment/global/globalEnvironmentTeardown.ts',
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
   forbidOnly: !!isCI,
   /* Retry on CI only */
+  retries: isCI ? 2 : 0,
   shard: isShardingEnabled
     ? {
         current: shardIndex,
@@ -93,6 +94,10 @@ export default defineConfig({
 
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
   reporter: [
+    // Must come first: masks secrets in traces and attachments before the others publish them
+    ['./src/reporters/artifactSanitizerReporter.ts'],
+    ['./src/reporters/errorClassificationReporter.ts', { outputDir: 'error-report' }],
+    ['./src/reporters/flakyTestReporter.ts'],
     ['html', { open: 'never' }],
     ['junit', { outputFile: 'results.xml' }],
     ['ortoni-report', reportConfig],
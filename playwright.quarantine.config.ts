@@ -0,0 +1,23 @@
+import { defineConfig } from '@playwright/test';
+import baseConfig from './playwright.config';
+import QuarantineList from './src/utils/flakiness/quarantineList';
+
+/**
+ * Runs only the tests listed in src/config/quarantine/flakyQuarantine.json, which the main
+ * config marks as fixme. Kept out of playwright.config.ts so a plain `npx playwright test`
+ * never runs them; run it as a separate, non-blocking CI step:
+ * `npx playwright test -c playwright.quarantine.config.ts --pass-with-no-tests`
+ */
+const chromium = baseConfig.projects!.find((project) => project.name === 'chromium')!;
+
+export default defineConfig({
+  ...baseConfig,
+  projects: [
+    ...baseConfig.projects!.filter((project) => project.name === 'setup'),
+    {
+      ...chromium,
+      name: QuarantineList.PROJECT_NAME,
+      grep: QuarantineList.getTitlePatterns(),
+    },
+  ],
+});
@@ -1,6 +1,10 @@
 import EnvironmentConfigLoader from '../../../utils/environment/environmentConfigManager';
 import { EnvironmentSecretFileManager } from '../../../cryptography/manager/environmentSecretFileManager';
 import AuthStorageManager from '../../../utils/auth/storage/authStorageManager';
+import UserRoleRegistry from '../../../utils/auth/roles/userRoleRegistry';
+import TestDataRandom from '../../../testData/random/testDataRandom';
+import { PersistentTestDataStore } from '../../../testData/store/persistentTestDataStore';
+import { SharedDataStore } from '../../../utils/dataStore/sharedDataStore';
 import ErrorHandler from '../../../utils/errors/errorHandler';
 import logger from '../../../utils/logging/loggerManager';
 
@@ -39,18 +43,45 @@ async function initializeEnvironment(): Promise<void> {
 
 async function clearAuthState(): Promise<void> {
   try {
-    await AuthStorageManager.initializeEmptyAuthStateFile();
+    for (const role of UserRoleRegistry.getSetupRoles()) {
+      await AuthStorageManager.initializeEmptyAuthStateFile(role);
+    }
   } catch (error) {
     ErrorHandler.captureError(error, 'clearAuthState', 'Failed to clear auth state');
     throw error;
   }
 }
 
+function shareTestDataSeed(): void {
+  // Workers inherit the variable, so every worker derives test seeds from the same run seed
+  process.env.TEST_DATA_SEED = String(TestDataRandom.getRunSeed());
+  logger.info(`Test data seed: ${process.env.TEST_DATA_SEED}`);
+}
+
+async function prepareTestDataStore(): Promise<void> {
+  try {
+    await PersistentTestDataStore.prune();
+    await SharedDataStore.prune();
+    // Workers inherit the variable, so every worker writes to the same run namespace
+    process.env.TEST_RUN_ID = PersistentTestDataStore.getRunId();
+    logger.info(`Test run id: ${process.env.TEST_RUN_ID}`);
+  } catch (error) {
+    ErrorHandler.captureError(
+      error,
+      'prepareTestDataStore',
+      'Failed to prepare the test data store',
+    );
+    throw error;
+  }
+}
+
 async function globalSetup(): Promise<void> {
   try {
     await validateEnvironmentVariables();
     await initializeEnvironment();
     await clearAuthState();
+    shareTestDataSeed();
+    await prepareTestDataStore();
   } catch (error) {
     ErrorHandler.captureError(error, 'globalSetup', 'Global setup failed');
     throw error;
@@ -0,0 +1,48 @@
+import { EnvironmentResolver } from '../resolver/environmentResolver';
+import { FetchCIEnvironmentVariables } from '../resolver/fetch/fetchCIEnvironmentVariables';
+import { FetchLocalEnvironmentVariables } from '../resolver/fetch/fetchLocalEnvironmentVariables';
+import { ApiClient } from '../../../utils/api/apiClient';
+import { ConfiguratorApiService } from '../../../utils/api/configuratorApiService';
+import { TestDataCleanupRegistry } from '../../../testData/cleanup/testDataCleanupRegistry';
+import ErrorHandler from '../../../utils/errors/errorHandler';
+import SecretDetectionReport from '../../../utils/sanitization/secretDetectionReport';
+import logger from '../../../utils/logging/loggerManager';
+
+async function sweepLeftoverTestData(): Promise<void> {
+  try {
+    const result = await TestDataCleanupRegistry.sweep(async () => {
+      const apiClient = new ApiClient(
+        new EnvironmentResolver(
+          new FetchCIEnvironmentVariables(),
+          new FetchLocalEnvironmentVariables(),
+        ),
+      );
+      await apiClient.useStorageStateAuth();
+      return new ConfiguratorApiService(apiClient);
+    });
+
+    if (result.failed.length > 0) {
+      logger.warn(
+        `${result.failed.length} test data entities could not be swept and will be retried on the next run`,
+      );
+    }
+  } catch (error) {
+    // A failed sweep must not fail an otherwise successful run
+    ErrorHandler.captureError(error, 'sweepLeftoverTestData', 'Test data sweep failed');
+  }
+}
+
+async function reportSecretDetections(): Promise<void> {
+  try {
+    await SecretDetectionReport.logSummary();
+  } catch (error) {
+    ErrorHandler.captureError(error, 'reportSecretDetections', 'Secret detection report failed');
+  }
+}
+
+async function globalTeardown(): Promise<void> {
+  await sweepLeftoverTestData();
+  await reportSecretDetections();
+}
+
+export default globalTeardown;
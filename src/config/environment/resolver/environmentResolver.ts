@@ -1,18 +1,40 @@
 import { FetchCIEnvironmentVariables } from './fetch/fetchCIEnvironmentVariables';
 import { FetchLocalEnvironmentVariables } from './fetch/fetchLocalEnvironmentVariables';
 import { EnvironmentUtils } from './environmentUtils';
+import { SecretProviderChain } from '../secrets/secretProviderChain';
 import { Credentials } from '../../types/auth/credentials.types';
+import { UserRole } from '../../types/auth/user-role.types';
+import UserRoleRegistry from '../../../utils/auth/roles/userRoleRegistry';
+import ErrorHandler from '../../../utils/errors/errorHandler';
 
 export class EnvironmentResolver {
   private fetchCIEnvironmentVariables: FetchCIEnvironmentVariables;
   private FetchLocalEnvironmentVariables: FetchLocalEnvironmentVariables;
+  private secretProviderChain: SecretProviderChain;
 
   constructor(
     fetchCIEnvironmentVariables: FetchCIEnvironmentVariables,
     fetchLocalEnvironmentVariables: FetchLocalEnvironmentVariables,
+    secretProviderChain: SecretProviderChain = SecretProviderChain.getDefault(),
   ) {
     this.fetchCIEnvironmentVariables = fetchCIEnvironmentVariables;
     this.FetchLocalEnvironmentVariables = fetchLocalEnvironmentVariables;
+    this.secretProviderChain = secretProviderChain;
+  }
+
+  // Secrets
+
+  /**
+   * Resolves a secret through the secret provider chain (env file -> process env -> vault)
+   * @param variableName - The environment variable name, e.g. `PORTAL_PASSWORD`
+   */
+  public async getSecret(variableName: string): Promise<string> {
+    try {
+      return await this.secretProviderChain.getSecret(variableName);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'getSecret', `Failed to resolve secret ${variableName}`);
+      throw error;
+    }
   }
 
   // Urls
@@ -36,12 +58,20 @@ export class EnvironmentResolver {
   }
 
   public async getPortalCredentials(): Promise<Credentials> {
-    return EnvironmentUtils.getEnvironmentValue(
-      () => this.fetchCIEnvironmentVariables.getPortalCredentials(),
-      () => this.FetchLocalEnvironmentVariables.getAdminCredentials(),
-      'getPortalCredentials',
-      'Failed to get portal credentials',
-    );
+    return this.getCredentials('PORTAL_USERNAME', 'PORTAL_PASSWORD', 'getPortalCredentials');
+  }
+
+  /**
+   * Resolves the credentials of a registered role (see USER_ROLES)
+   * @param role - The role to sign in as, e.g. `admin`
+   */
+  public async getRoleCredentials(role: UserRole): Promise<Credentials> {
+    const { usernameVariable, passwordVariable } = UserRoleRegistry.getRole(role);
+    return this.getCredentials(usernameVariable, passwordVariable, 'getRoleCredentials');
+  }
+
+  public async getDatabaseCredentials(): Promise<Credentials> {
+    return this.getCredentials('DB_USERNAME', 'DB_PASSWORD', 'getDatabaseCredentials');
   }
 
   public async getDatabaseServer(): Promise<string> {
@@ -70,4 +100,27 @@ export class EnvironmentResolver {
       'Failed to get database port',
     );
   }
+
+  private async getCredentials(
+    usernameVariable: string,
+    passwordVariable: string,
+    methodName: string,
+  ): Promise<Credentials> {
+    try {
+      // Resolved one after the other; decrypting runs a memory-hungry Argon2 derivation
+      const credentials = {
+        username: await this.secretProviderChain.getSecret(usernameVariable),
+        password: await this.secretProviderChain.getSecret(passwordVariable),
+      };
+      EnvironmentUtils.verifyCredentials(credentials);
+      return credentials;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        methodName,
+        `Failed to get credentials from ${usernameVariable}/${passwordVariable}`,
+      );
+      throw error;
+    }
+  }
 }
@@ -4,7 +4,7 @@ import { Credentials } from '../../types/auth/credentials.types';
 import { EnvironmentSecretKeys } from '../dotenv/constants';
 import { EnvironmentStage } from '../dotenv/types';
 import ErrorHandler from '../../../utils/errors/errorHandler';
-import { SECURITY_CONSTANTS } from '../../../cryptography/constants/security.constant';
+import { CryptoManager } from '../../../cryptography/manager/cryptoManager';
 
 export class EnvironmentUtils {
   /**
@@ -132,7 +132,7 @@ export class EnvironmentUtils {
     value: string,
     secretKeyVariable: string,
   ): Promise<string> {
-    if (value.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) {
+    if (CryptoManager.getFormatVersion(value)) {
       return CryptoService.decrypt(value, secretKeyVariable);
     }
 
@@ -0,0 +1,62 @@
+import { EnvironmentFileParser } from '../../../../cryptography/manager/environmentFileParser';
+import { CryptoManager } from '../../../../cryptography/manager/cryptoManager';
+import { CryptoService } from '../../../../cryptography/service/cryptoService';
+import FileSystemManager from '../../../../utils/fileSystem/fileSystemManager';
+import { EnvironmentConstants } from '../../dotenv/constants';
+import { EnvironmentFilePaths, SecretKeyPaths } from '../../dotenv/mapping';
+import { EnvironmentStage } from '../../dotenv/types';
+import { SecretProvider } from '../../../types/config/secret-provider.types';
+
+/**
+ * Reads secrets from the env file of a stage, decrypting ENC2/ENC3 values with the stage key.
+ * A missing env file (e.g. in CI) means the provider holds no secrets.
+ */
+export class EnvFileSecretProvider implements SecretProvider {
+  public readonly name = 'envFile' as const;
+  private readonly stage: EnvironmentStage;
+  private readonly environmentFileParser: EnvironmentFileParser;
+  private variablesPromise?: Promise<Record<string, string>>;
+
+  constructor(stage: EnvironmentStage, environmentFileParser: EnvironmentFileParser) {
+    this.stage = stage;
+    this.environmentFileParser = environmentFileParser;
+  }
+
+  public async getSecret(variableName: string): Promise<string | undefined> {
+    const variables = await this.loadVariables();
+    const value = variables[variableName]?.trim();
+
+    if (!value) {
+      return undefined;
+    }
+
+    return CryptoManager.getFormatVersion(value)
+      ? CryptoService.decrypt(value, SecretKeyPaths[this.stage])
+      : value;
+  }
+
+  private loadVariables(): Promise<Record<string, string>> {
+    if (!this.variablesPromise) {
+      this.variablesPromise = this.readVariables().catch((error) => {
+        this.variablesPromise = undefined;
+        throw error;
+      });
+    }
+    return this.variablesPromise;
+  }
+
+  private async readVariables(): Promise<Record<string, string>> {
+    const fileName = EnvironmentFilePaths[this.stage];
+    const filePath = FileSystemManager.resolveFilePath(EnvironmentConstants.ENV_DIR, fileName);
+
+    if (!(await FileSystemManager.doesFileExist(filePath))) {
+      return {};
+    }
+
+    const lines = await this.environmentFileParser.readEnvironmentFileAsLines(
+      EnvironmentConstants.ENV_DIR,
+      fileName,
+    );
+    return this.environmentFileParser.extractEnvironmentVariables(lines);
+  }
+}
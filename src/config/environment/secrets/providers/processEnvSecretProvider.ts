@@ -0,0 +1,41 @@
+import { CryptoManager } from '../../../../cryptography/manager/cryptoManager';
+import { CryptoService } from '../../../../cryptography/service/cryptoService';
+import { SecretKeyPaths } from '../../dotenv/mapping';
+import { EnvironmentStage } from '../../dotenv/types';
+import {
+  ProcessEnvSecretProviderOptions,
+  SecretProvider,
+} from '../../../types/config/secret-provider.types';
+
+/**
+ * Reads secrets from process variables. With the default prefixes `PORTAL_PASSWORD` is
+ * resolved from `CI_PORTAL_PASSWORD` first and `PORTAL_PASSWORD` second; aliases cover
+ * variables whose CI name differs (e.g. `DB_USERNAME` -> `CI_DATABASE_USERNAME`).
+ */
+export class ProcessEnvSecretProvider implements SecretProvider {
+  public readonly name = 'processEnv' as const;
+  private readonly stage: EnvironmentStage;
+  private readonly prefixes: string[];
+  private readonly aliases: Partial<Record<string, string[]>>;
+
+  constructor(stage: EnvironmentStage, options: ProcessEnvSecretProviderOptions = {}) {
+    this.stage = stage;
+    this.prefixes = options.prefixes ?? ['CI_', ''];
+    this.aliases = options.aliases ?? {};
+  }
+
+  public async getSecret(variableName: string): Promise<string | undefined> {
+    const candidates =
+      this.aliases[variableName] ?? this.prefixes.map((prefix) => `${prefix}${variableName}`);
+
+    const value = candidates.map((name) => process.env[name]?.trim()).find(Boolean);
+
+    if (!value) {
+      return undefined;
+    }
+
+    return CryptoManager.getFormatVersion(value)
+      ? CryptoService.decrypt(value, SecretKeyPaths[this.stage])
+      : value;
+  }
+}
@@ -0,0 +1,63 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { CustomError } from '../../../../utils/errors/customError';
+import { ErrorCategory } from '../../../types/enums/error-category.enum';
+import { API_TIMEOUTS } from '../../../timeouts/timeout.config';
+import {
+  SecretProvider,
+  VaultSecretProviderOptions,
+} from '../../../types/config/secret-provider.types';
+
+/**
+ * Reads secrets from an Azure Key Vault compatible REST endpoint:
+ * `GET {vaultUrl}/secrets/{name}?api-version=7.4` returning `{ "value": "..." }`.
+ *
+ * Key Vault secret names cannot contain underscores, so `PORTAL_PASSWORD` is looked up
+ * as `PORTAL-PASSWORD`. Any server speaking the same protocol (e.g. a local stand-in)
+ * can be used by pointing `vaultUrl` at it.
+ */
+export class VaultSecretProvider implements SecretProvider {
+  public readonly name = 'vault' as const;
+  private readonly options: VaultSecretProviderOptions;
+  private readonly httpClient: AxiosInstance;
+
+  constructor(options: VaultSecretProviderOptions) {
+    this.options = options;
+    this.httpClient = axios.create({
+      baseURL: options.vaultUrl.replace(/\/+$/, ''),
+      timeout: API_TIMEOUTS.standard,
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 404,
+    });
+  }
+
+  public async getSecret(variableName: string): Promise<string | undefined> {
+    const secretName = variableName.replace(/_/g, '-');
+    const token = await this.options.getAccessToken?.();
+
+    let response: AxiosResponse<{ value?: string }>;
+    try {
+      response = await this.httpClient.get<{ value?: string }>(
+        `/secrets/${encodeURIComponent(secretName)}`,
+        {
+          params: { 'api-version': this.options.apiVersion ?? '7.4' },
+          headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+        },
+      );
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      // Axios errors carry the request and socket; keep only what identifies the failure
+      throw new CustomError(
+        ErrorCategory.SERVICE,
+        { secretName, status: error.response?.status },
+        `Vault request for secret '${secretName}' failed: ${error.message}`,
+      );
+    }
+
+    if (response.status === 404) {
+      return undefined;
+    }
+
+    return response.data?.value || undefined;
+  }
+}
@@ -0,0 +1,29 @@
+import {
+  ProcessEnvSecretProviderOptions,
+  SecretProviderChainConfig,
+} from '../../types/config/secret-provider.types';
+
+/**
+ * Order in which providers are asked for a secret. Providers that are not configured
+ * (e.g. the vault without SECRET_VAULT_URL) are skipped.
+ */
+export const SECRET_PROVIDER_CONFIG: SecretProviderChainConfig = {
+  defaultOrder: ['envFile', 'processEnv', 'vault'],
+  variables: {
+    // Per-variable overrides, e.g. always read the database password from the vault:
+    // DB_PASSWORD: ['vault'],
+  },
+};
+
+/**
+ * Process variable names used for secrets whose CI variable is not simply `CI_<NAME>`
+ */
+export const PROCESS_ENV_SECRET_OPTIONS: ProcessEnvSecretProviderOptions = {
+  prefixes: ['CI_', ''],
+  aliases: {
+    DB_USERNAME: ['CI_DATABASE_USERNAME', 'DB_USERNAME'],
+    DB_PASSWORD: ['CI_DATABASE_PASSWORD', 'DB_PASSWORD'],
+  },
+};
+
+export const AZURE_KEY_VAULT_SCOPE = 'https://vault.azure.net/.default';
@@ -0,0 +1,150 @@
+import { DefaultAzureCredential } from '@azure/identity';
+import { EnvironmentFileParser } from '../../../cryptography/manager/environmentFileParser';
+import { CustomError } from '../../../utils/errors/customError';
+import ErrorHandler from '../../../utils/errors/errorHandler';
+import logger from '../../../utils/logging/loggerManager';
+import EnvironmentDetector from '../detector/detector';
+import ENV from '../variables/variables';
+import { ErrorCategory } from '../../types/enums/error-category.enum';
+import {
+  ResolvedSecret,
+  SecretProvider,
+  SecretProviderChainConfig,
+  SecretProviderName,
+} from '../../types/config/secret-provider.types';
+import { EnvFileSecretProvider } from './providers/envFileSecretProvider';
+import { ProcessEnvSecretProvider } from './providers/processEnvSecretProvider';
+import { VaultSecretProvider } from './providers/vaultSecretProvider';
+import {
+  AZURE_KEY_VAULT_SCOPE,
+  PROCESS_ENV_SECRET_OPTIONS,
+  SECRET_PROVIDER_CONFIG,
+} from './secretProvider.config';
+
+/**
+ * Resolves secrets by asking providers in the configured order until one holds the value.
+ *
+ * A provider that does not hold the secret is skipped; a provider that fails stops the
+ * resolution with an error naming that provider. Resolved values are cached per chain.
+ */
+export class SecretProviderChain {
+  private static defaultChain?: SecretProviderChain;
+
+  private readonly providers: Map<SecretProviderName, SecretProvider>;
+  private readonly config: SecretProviderChainConfig;
+  private readonly cache = new Map<string, Promise<ResolvedSecret>>();
+
+  constructor(
+    providers: SecretProvider[],
+    config: SecretProviderChainConfig = SECRET_PROVIDER_CONFIG,
+  ) {
+    this.providers = new Map(providers.map((provider) => [provider.name, provider]));
+    this.config = config;
+  }
+
+  /**
+   * Returns the process-wide chain built from SECRET_PROVIDER_CONFIG. The vault provider is
+   * only registered when SECRET_VAULT_URL is set.
+   */
+  public static getDefault(): SecretProviderChain {
+    if (!this.defaultChain) {
+      const stage = EnvironmentDetector.getCurrentStage();
+      const providers: SecretProvider[] = [
+        new EnvFileSecretProvider(stage, new EnvironmentFileParser()),
+        new ProcessEnvSecretProvider(stage, PROCESS_ENV_SECRET_OPTIONS),
+      ];
+
+      if (ENV.SECRET_VAULT_URL) {
+        providers.push(
+          new VaultSecretProvider({
+            vaultUrl: ENV.SECRET_VAULT_URL,
+            getAccessToken: ENV.SECRET_VAULT_AUTH === 'none' ? undefined : this.azureTokenSource(),
+          }),
+        );
+      }
+
+      this.defaultChain = new SecretProviderChain(providers);
+    }
+    return this.defaultChain;
+  }
+
+  /**
+   * Resolves the plaintext value of a secret
+   * @param variableName - The environment variable name, e.g. `PORTAL_PASSWORD`
+   */
+  public async getSecret(variableName: string): Promise<string> {
+    return (await this.resolve(variableName)).value;
+  }
+
+  /**
+   * Resolves a secret together with the provider that supplied it
+   * @param variableName - The environment variable name, e.g. `PORTAL_PASSWORD`
+   */
+  public async resolve(variableName: string): Promise<ResolvedSecret> {
+    let resolved = this.cache.get(variableName);
+
+    if (!resolved) {
+      resolved = this.resolveUncached(variableName);
+      this.cache.set(variableName, resolved);
+      resolved.catch(() => this.cache.delete(variableName));
+    }
+    return resolved;
+  }
+
+  public clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async resolveUncached(variableName: string): Promise<ResolvedSecret> {
+    const providers = this.getProviders(variableName);
+
+    for (const provider of providers) {
+      let value: string | undefined;
+
+      try {
+        value = await provider.getSecret(variableName);
+      } catch (error) {
+        const cause = ErrorHandler.getErrorMessage(error);
+        ErrorHandler.captureError(
+          error,
+          'resolveSecret',
+          `Secret provider '${provider.name}' failed to resolve ${variableName}`,
+        );
+        throw new CustomError(
+          ErrorCategory.ENVIRONMENT,
+          { variableName, provider: provider.name, cause },
+          `Secret provider '${provider.name}' failed to resolve ${variableName}: ${cause}`,
+        );
+      }
+
+      if (value !== undefined) {
+        logger.debug(`Resolved ${variableName} from secret provider '${provider.name}'`);
+        return { value, provider: provider.name };
+      }
+    }
+
+    throw new CustomError(
+      ErrorCategory.CONFIGURATION,
+      { variableName, providers: providers.map((provider) => provider.name) },
+      `${variableName} was not found by any secret provider (tried: ${providers.map((provider) => provider.name).join(', ') || 'none'})`,
+    );
+  }
+
+  private getProviders(variableName: string): SecretProvider[] {
+    const order = this.config.variables[variableName] ?? this.config.defaultOrder;
+
+    return order
+      .map((name) => this.providers.get(name))
+      .filter((provider): provider is SecretProvider => provider !== undefined);
+  }
+
+  private static azureTokenSource(): () => Promise<string | undefined> {
+    let credential: DefaultAzureCredential | undefined;
+
+    return async () => {
+      credential ??= new DefaultAzureCredential();
+      const accessToken = await credential.getToken(AZURE_KEY_VAULT_SCOPE);
+      return accessToken?.token;
+    };
+  }
+}
@@ -16,6 +16,12 @@ export default class EnvironmentVariables {
   public static readonly ADMIN_PASSWORD = process.env.ADMIN_PASSWORD!;
   public static readonly PORTAL_USERNAME = process.env.PORTAL_USERNAME!;
   public static readonly PORTAL_PASSWORD = process.env.PORTAL_PASSWORD!;
+  public static readonly READ_ONLY_USERNAME = process.env.READ_ONLY_USERNAME;
+  public static readonly READ_ONLY_PASSWORD = process.env.READ_ONLY_PASSWORD;
+  public static readonly APPROVER_USERNAME = process.env.APPROVER_USERNAME;
+  public static readonly APPROVER_PASSWORD = process.env.APPROVER_PASSWORD;
+  public static readonly AUTH_ROLES = process.env.AUTH_ROLES; // Roles signed in by the setup project
+  public static readonly AUTH_PROBE_URL = process.env.AUTH_PROBE_URL; // Page that requires a valid session
 
   // Database
   public static readonly DB_SERVER = process.env.DB_SERVER!;
@@ -24,6 +30,17 @@ export default class EnvironmentVariables {
   public static readonly DB_PASSWORD = process.env.DB_PASSWORD!;
   public static readonly DB_PORT = process.env.DB_PORT!;
   public static readonly AZURE_DB_ENDPOINT = process.env.AZURE_DB_ENDPOINT!;
+  public static readonly DB_TRUST_SERVER_CERTIFICATE =
+    process.env.DB_TRUST_SERVER_CERTIFICATE?.toLowerCase() === 'true';
+
+  // Secret vault (optional)
+  public static readonly SECRET_VAULT_URL = process.env.SECRET_VAULT_URL;
+  public static readonly SECRET_VAULT_AUTH =
+    process.env.SECRET_VAULT_AUTH?.toLowerCase() ?? 'azure';
+
+  // Test data
+  public static readonly TEST_DATA_SEED = process.env.TEST_DATA_SEED; // Replays the test data of an earlier run
+  public static readonly TEST_RUN_ID = process.env.TEST_RUN_ID; // Namespace of the persistent test data store
 
   // Environment detection
   public static readonly ENV = EnvironmentDetector.getCurrentStage();
@@ -49,6 +49,19 @@ export const TIMEOUTS = {
     keepAlive: timeout(30_000), // Keep-alive
   },
 
+  // Authentication session timeouts
+  auth: {
+    lockAcquisition: timeout(120_000), // Waiting for another worker to finish signing in
+    staleLock: timeout(60_000), // Lock not refreshed by its holder, e.g. after a crash; below lockAcquisition
+    probe: timeout(10_000), // Session probe request
+  },
+
+  // Persistent test data store timeouts
+  testData: {
+    lockAcquisition: timeout(30_000), // Waiting for another writer of the same store file
+    staleLock: timeout(15_000), // Lock not refreshed by its holder, e.g. after a crash; below lockAcquisition
+  },
+
   // Cache timeouts
   cache: {
     get: timeout(1_000), // Cache retrieval
@@ -64,6 +77,8 @@ export const API_TIMEOUTS = TIMEOUTS.api;
 export const DB_TIMEOUTS = TIMEOUTS.db;
 export const NETWORK_TIMEOUTS = TIMEOUTS.network;
 export const CACHE_TIMEOUTS = TIMEOUTS.cache;
+export const AUTH_TIMEOUTS = TIMEOUTS.auth;
+export const TEST_DATA_TIMEOUTS = TIMEOUTS.testData;
 
 // Type definitions for better IDE support
 export type TimeoutCategory = keyof typeof TIMEOUTS;
@@ -0,0 +1,43 @@
+import { APITimeoutType } from '../../timeouts/timeout.config';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Authentication applied to every request sent by the ApiClient
+ */
+export type ApiAuthConfig =
+  | { type: 'none' }
+  | { type: 'bearer'; token: string }
+  | { type: 'cookie'; cookies: Record<string, string> };
+
+export interface ApiClientOptions {
+  baseUrl?: string; // Overrides EnvironmentResolver.getApiBaseUrl
+  defaultHeaders?: Record<string, string>;
+  auth?: ApiAuthConfig;
+}
+
+export interface ApiRequestOptions {
+  headers?: Record<string, string>;
+  params?: Record<string, string | number | boolean | undefined>;
+  timeoutCategory?: APITimeoutType; // Defaults to 'standard'
+  contextKey?: string; // Context used by ApiTestExpectation and ApiErrorHandler
+  skipAuth?: boolean;
+}
+
+export interface ApiResponse<T> {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: T;
+  durationMs: number;
+}
+
+/**
+ * Subset of the Playwright storage state file used to derive cookie auth
+ */
+export interface StorageStateCookie {
+  name: string;
+  value: string;
+  domain: string;
+  expires: number;
+}
@@ -0,0 +1,15 @@
+import { UserRole } from './user-role.types';
+
+/**
+ * How a test is signed in
+ * - storageState: reuses the saved session of its role (default)
+ * - freshSession: signs in for this test only, without touching the shared session file
+ * - noAuth: starts signed out
+ */
+export type AuthModeType = 'storageState' | 'freshSession' | 'noAuth';
+
+export interface AuthMode {
+  type: AuthModeType;
+  role: UserRole;
+  source: 'tag' | 'annotation' | 'option' | 'default'; // Where the mode or role came from
+}
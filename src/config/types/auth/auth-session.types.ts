@@ -0,0 +1,14 @@
+import { FileLockOptions } from '../fileSystem/File-system-operations.types';
+
+export interface AuthSessionConfig {
+  expiryMarginSeconds: number; // Treat cookies expiring within this margin as expired
+  sessionCookieNames: string[]; // Cookies that carry the session; empty checks every cookie with an expiry
+  probeUrl?: string; // Absolute, or relative to the portal base URL; must answer 2xx for a valid session
+  probeIntervalMs: number; // How long a worker trusts a successful probe
+  lock: FileLockOptions;
+}
+
+export interface AuthStateFreshness {
+  isFresh: boolean;
+  reason?: string; // Why the saved session cannot be reused
+}
@@ -0,0 +1,17 @@
+/**
+ * Users a test can run as
+ * - portal: the default portal user
+ * - admin: administrator of the application under test
+ * - readOnly: user without write permissions
+ * - approver: user allowed to approve submitted work
+ */
+export type UserRole = 'portal' | 'admin' | 'readOnly' | 'approver';
+
+export interface UserRoleDefinition {
+  description: string;
+  usernameVariable: string; // Resolved through the secret provider chain, e.g. CI_ADMIN_USERNAME in CI
+  passwordVariable: string;
+  storageStateName: string; // Saved as .auth/<ci|local>-<storageStateName>.json
+}
+
+export type UserRoleRegistryConfig = Record<UserRole, UserRoleDefinition>;
@@ -0,0 +1,41 @@
+import type { EnvironmentStage } from '../../environment/dotenv/types';
+
+/**
+ * Lifecycle information of a secret key. The key itself is never stored in metadata.json.
+ */
+export interface KeyMetadataRecord {
+  keyId: string; // Fingerprint of the key, safe to log
+  createdAt: string | null; // ISO format; null when the key predates metadata tracking
+  rotatedAt?: string; // ISO format; set once the key has been replaced
+  archiveFile?: string; // Archive holding the key and the environment file it encrypted
+}
+
+export interface StageKeyMetadata {
+  secretKeyVariable: string;
+  environmentFile: string;
+  currentKey: KeyMetadataRecord;
+  previousKeys: KeyMetadataRecord[]; // Most recently rotated first
+}
+
+export type CryptoMetadataFile = Partial<Record<EnvironmentStage, StageKeyMetadata>>;
+
+/**
+ * Snapshot written before a rotation so it can be rolled back
+ */
+export interface KeyArchiveEntry {
+  stage: EnvironmentStage;
+  keyId: string;
+  secretKeyVariable: string;
+  secretKey: string;
+  environmentFile: string;
+  environmentFileContent: string;
+  archivedAt: string; // ISO format
+}
+
+export interface KeyRotationResult {
+  stage: EnvironmentStage;
+  previousKeyId: string;
+  newKeyId: string;
+  reEncryptedVariables: string[];
+  archiveFile: string;
+}
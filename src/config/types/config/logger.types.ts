@@ -1,3 +1,6 @@
+/** Line format of the log files: plain text, or JSON Lines for log aggregation */
+export type LogFormat = 'text' | 'json';
+
 interface LoggerConfig {
   /** Maximum log file size in bytes (default: 10MB) */
   LOG_FILE_LIMIT: number;
@@ -20,6 +23,9 @@ interface LoggerConfig {
   LOG_FILE_ERROR: string;
   LOG_FILE_WARN: string;
   LOG_FILE_DEBUG: string;
+
+  /** Log file format used when LOG_FORMAT is not set */
+  LOG_FORMAT: LogFormat;
 }
 
 export const DEFAULT_LOGGER_CONFIG: LoggerConfig = {
@@ -42,6 +48,9 @@ export const DEFAULT_LOGGER_CONFIG: LoggerConfig = {
   LOG_FILE_ERROR: 'log_error.log',
   LOG_FILE_WARN: 'log_warn.log',
   LOG_FILE_DEBUG: 'log_debug.log',
+
+  // Log format
+  LOG_FORMAT: 'text',
 };
 
 export interface LoggerMetadata {
@@ -52,3 +61,28 @@ export interface LoggerMetadata {
   correlationId?: string;
   [key: string]: string | number | boolean | undefined;
 }
+
+/**
+ * Metadata keys set from the TestLogContext. Text lines show only the correlation id.
+ */
+export const TEST_LOG_CONTEXT_KEYS: readonly string[] = [
+  'correlationId',
+  'sessionId',
+  'testTitle',
+  'project',
+  'workerIndex',
+  'retry',
+  'shard',
+];
+
+/**
+ * Identifies the test a log line belongs to. Set on every line logged while the test runs.
+ */
+export interface TestLogContext {
+  testId: string;
+  title: string;
+  project: string;
+  workerIndex: number;
+  retry: number;
+  shard?: string;
+}
@@ -23,3 +23,19 @@ export interface SanitizationReport {
   patternsFound: string[];
   circularReferences: number;
 }
+
+export interface SanitizationResult<T> {
+  data: T;
+  report: SanitizationReport;
+}
+
+/**
+ * A secret to find in free text. A named group `keep` is left in place, e.g. the `Bearer `
+ * prefix, and the rest of the match is masked.
+ */
+export interface SecretPattern {
+  name: string;
+  pattern: RegExp;
+  /** Rejects false positives, e.g. digit runs that fail the Luhn check */
+  validate?: (match: string) => boolean;
+}
@@ -0,0 +1,39 @@
+/**
+ * Sources a secret can be resolved from
+ * - envFile: the (optionally encrypted) env file of the current stage
+ * - processEnv: process variables, e.g. the CI_* variables set by the pipeline
+ * - vault: a Key Vault style HTTP secret store
+ */
+export type SecretProviderName = 'envFile' | 'processEnv' | 'vault';
+
+export interface SecretProvider {
+  readonly name: SecretProviderName;
+
+  /**
+   * Resolves a secret by its environment variable name
+   * @returns The plaintext value, or undefined when this provider does not hold the secret.
+   * Throws when the provider itself fails (unreachable, unauthorized, undecryptable value).
+   */
+  getSecret(variableName: string): Promise<string | undefined>;
+}
+
+export interface SecretProviderChainConfig {
+  defaultOrder: SecretProviderName[];
+  variables: Partial<Record<string, SecretProviderName[]>>; // Per-variable provider order
+}
+
+export interface ResolvedSecret {
+  value: string;
+  provider: SecretProviderName;
+}
+
+export interface ProcessEnvSecretProviderOptions {
+  prefixes?: string[]; // Tried in order; '' reads the variable name as is
+  aliases?: Partial<Record<string, string[]>>; // Replaces the prefixed names for a variable
+}
+
+export interface VaultSecretProviderOptions {
+  vaultUrl: string;
+  apiVersion?: string;
+  getAccessToken?: () => Promise<string | undefined>; // No Authorization header when omitted
+}
@@ -25,3 +25,44 @@ export interface SecurityConfig {
   BYTE_LENGTHS: CryptoByteLengths;
   ARGON2_PARAMETERS: Argon2Config;
 }
+
+export type EncryptedPayloadVersion = 2 | 3;
+
+/**
+ * Header embedded in ENC3 values so they stay decryptable when the Argon2 configuration changes
+ */
+export interface EncryptedPayloadHeader {
+  keyId: string;
+  memoryCost: number;
+  timeCost: number;
+  parallelism: number;
+}
+
+export interface ParsedEncryptedPayload {
+  version: EncryptedPayloadVersion;
+  header?: EncryptedPayloadHeader; // ENC3 only
+  rawHeader?: string; // ENC3 only, base64 header as stored; covered by the HMAC
+  salt: string;
+  iv: string;
+  cipherText: string;
+  receivedHmac: string;
+}
+
+export interface EncryptionMigrationResult {
+  migratedVariables: string[];
+  alreadyMigratedVariables: string[];
+}
+
+/**
+ * Encryption status of an environment variable as reported by the env crypto CLI
+ * - invalid: carries an encryption prefix but is malformed
+ */
+export type EnvironmentVariableStatus = 'ENC3' | 'ENC2' | 'plain' | 'invalid';
+
+/**
+ * Comparison of one variable across two stage files; values are never included
+ */
+export interface EnvironmentVariableDiff {
+  key: string;
+  result: 'same' | 'different' | 'onlyInFirst' | 'onlyInSecond' | 'undecryptable';
+}
@@ -1,3 +1,5 @@
+import { FileLockOptions } from '../fileSystem/File-system-operations.types';
+
 export type StorableValue =
   | string
   | number
@@ -9,3 +11,23 @@ export type StorableValue =
 export interface StorableObject {
   [key: string]: StorableValue;
 }
+
+export interface SharedDataEntry {
+  value: StorableValue;
+  updatedAt: string; // ISO format
+  expiresAt?: string; // ISO format; the entry is ignored and purged after this
+  workerId: string;
+}
+
+/**
+ * Contents of a shared data store file: entries per scope (a test id or a shared key
+ * such as 'setup'), then per key
+ */
+export type SharedDataFile = Record<string, Record<string, SharedDataEntry>>;
+
+export interface SharedDataStoreConfig {
+  directory: string; // One subdirectory per run, one file per store name
+  defaultTtlMs?: number; // Applied when set() gets no ttlMs; unset means no expiry
+  lock: FileLockOptions;
+  retentionMs: number; // Runs older than this are pruned by the global setup
+}
@@ -0,0 +1,52 @@
+import { Page } from '@playwright/test';
+import { ConfiguratorEntityType } from './test-data-cleanup.types';
+import { FormFieldMap } from '../ui/form.types';
+
+/**
+ * How a field is made invalid
+ * - empty: '' (or [] for list fields)
+ * - tooLong: one character more than the field's maxLength
+ * - badFormat: a value in the wrong format, e.g. 'invalid-email'
+ */
+export type InvalidValueRule = 'empty' | 'tooLong' | 'badFormat';
+
+export interface NegativeFieldRules {
+  rules: InvalidValueRule[];
+  maxLength?: number; // Required for the tooLong rule
+  badFormatValue?: string; // Required for the badFormat rule
+  messages?: Partial<Record<InvalidValueRule, string>>; // Overrides the validationMessages in configurator.json
+}
+
+/**
+ * The invalid fields of one configurator entity. Each field and rule becomes a test.
+ */
+export interface NegativeTestMatrixDefinition<T> {
+  entityType: ConfiguratorEntityType;
+  generateValid: () => T; // e.g. () => ConfiguratorDataGenerator.getInstance().generateBranch()
+  fields: { [K in keyof T]?: NegativeFieldRules };
+  expectedStatusCodes?: number[]; // Statuses the API must answer with; defaults to 400 and 422
+}
+
+export interface NegativeTestCase<T> {
+  title: string;
+  entityType: ConfiguratorEntityType;
+  field: keyof T & string;
+  rule: InvalidValueRule;
+  payload: Partial<T>;
+  expectedMessage: string;
+  expectedStatusCodes: number[];
+}
+
+/**
+ * Where the invalid payload is submitted
+ * - api: posted to the entity endpoint, the response status is asserted
+ * - ui: entered into the form, the validation message is asserted
+ */
+export type NegativeTestChannel<T> =
+  | { via: 'api' }
+  | {
+      via: 'ui';
+      openForm: (page: Page) => Promise<void>;
+      fields: FormFieldMap<T>; // e.g. BRANCH_FORM_FIELDS
+      submitSelector?: string; // Defaults to button[type="submit"]
+    };
@@ -0,0 +1,53 @@
+import { StorableValue } from './data-store.types';
+import { FileLockOptions } from '../fileSystem/File-system-operations.types';
+
+/**
+ * Sections of the persistent store and the type of value each one holds
+ */
+export type TestDataSections<S> = { [K in keyof S]: StorableValue };
+
+/**
+ * Default sections: names or ids of created configurator entities
+ */
+export interface ConfiguratorTestDataSections {
+  superBusinessUnits: string;
+  businessUnits: string;
+  branches: string;
+  roles: string;
+  users: string;
+  vendorCodes: string;
+}
+
+/**
+ * Where a store writes: one file per run and worker
+ */
+export interface TestDataStoreNamespace {
+  runId: string;
+  workerId: string; // e.g. worker-0
+  testId?: string; // Recorded with every value saved through this store
+}
+
+export interface StoredTestDataRecord<V> {
+  section: string;
+  value: V;
+  runId: string;
+  workerId: string;
+  testId?: string;
+  createdAt: string; // ISO format
+}
+
+/**
+ * Filters for reading values back; records match when all given filters match
+ */
+export interface TestDataQuery {
+  runId?: string;
+  workerId?: string;
+  testId?: string;
+  maxAgeMs?: number; // Only values saved within this many milliseconds
+}
+
+export interface TestDataStoreConfig {
+  directory: string;
+  lock: FileLockOptions;
+  retentionMs: number; // Runs older than this are pruned by the global setup
+}
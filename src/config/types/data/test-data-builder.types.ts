@@ -0,0 +1,55 @@
+import { ConfiguratorEntityType } from './test-data-cleanup.types';
+import {
+  Branch,
+  BusinessUnit,
+  Role,
+  SuperBusinessUnit,
+  User,
+} from '../../../models/ui/configurator.interface';
+
+/**
+ * Creates configurator entities for the test data builder. ConfiguratorApiService creates
+ * them through the API; a UI implementation can drive the configurator screens instead.
+ */
+export interface ConfiguratorEntityCreator {
+  createEntity<T extends { id?: string }>(
+    entityType: ConfiguratorEntityType,
+    payload: T,
+  ): Promise<T & { id: string }>;
+  deleteEntity?(entityType: ConfiguratorEntityType, id: string): Promise<void>; // Used for cleanup when given
+}
+
+export type CreatedEntity<T> = T & { id: string };
+
+export interface TestDataUserOptions {
+  role?: Partial<Role>; // Creates a role for the users; pass {} for a generated one
+  roleId?: string; // Links an existing role instead
+  overrides?: Partial<User>;
+}
+
+/**
+ * What the builder creates. Branches and users are created under every business unit.
+ */
+export interface TestDataGraphPlan {
+  superBusinessUnit?: Partial<SuperBusinessUnit>;
+  businessUnitCount: number;
+  businessUnit?: Partial<BusinessUnit>;
+  branchesPerBusinessUnit: number;
+  branch?: Partial<Branch>;
+  users: TestDataUserOptions[];
+}
+
+export interface CreatedBusinessUnitNode {
+  businessUnit: CreatedEntity<BusinessUnit>;
+  branches: CreatedEntity<Branch>[];
+  users: CreatedEntity<User>[];
+}
+
+/**
+ * Every entity the builder created, in the shape of the hierarchy
+ */
+export interface CreatedTestDataGraph {
+  superBusinessUnit: CreatedEntity<SuperBusinessUnit>;
+  businessUnits: CreatedBusinessUnitNode[];
+  roles: CreatedEntity<Role>[];
+}
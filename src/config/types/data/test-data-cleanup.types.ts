@@ -0,0 +1,34 @@
+/**
+ * Configurator entities that tests create and must clean up
+ */
+export type ConfiguratorEntityType =
+  | 'superBusinessUnit'
+  | 'businessUnit'
+  | 'branch'
+  | 'user'
+  | 'role'
+  | 'vendorCode';
+
+/**
+ * Lifetime of a cleanup registration
+ * - test: cleaned up in the teardown of the test that created the entity
+ * - worker: cleaned up when the worker shuts down (shared entities)
+ */
+export type CleanupScope = 'test' | 'worker';
+
+export type CleanupCallback = () => Promise<void>;
+
+export interface CleanupEntry {
+  key: string; // Unique per registration, used to remove the entry once cleaned up
+  entityType: ConfiguratorEntityType;
+  id: string;
+  name?: string;
+  scope: CleanupScope;
+  ownerId: string; // Test id or worker index that registered the entity
+  registeredAt: string; // ISO format
+}
+
+export interface CleanupResult {
+  cleaned: number;
+  failed: Array<{ entry: CleanupEntry; error: string }>;
+}
@@ -0,0 +1,9 @@
+/**
+ * A South African street address
+ */
+export interface Address {
+  streetAddress: string;
+  city: string;
+  province: string;
+  postalCode: string;
+}
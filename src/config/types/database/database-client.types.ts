@@ -0,0 +1,27 @@
+import { ISqlType, ISqlTypeFactory } from 'mssql';
+
+export type SqlValue = string | number | boolean | Date | Buffer | null;
+
+/**
+ * Query parameter value; pass `{ type, value }` to override the type inferred by mssql
+ */
+export type SqlParameter = SqlValue | { type: ISqlTypeFactory | ISqlType; value: SqlValue };
+
+/**
+ * Named query parameters, referenced in SQL as `@name`
+ */
+export type QueryParameters = Record<string, SqlParameter>;
+
+export type DatabaseRow = Record<string, unknown>;
+
+/**
+ * Maps a raw database row to a typed model
+ */
+export type RowMapper<TRow> = (row: DatabaseRow) => TRow;
+
+export interface DatabaseClientOptions {
+  poolMin?: number;
+  poolMax?: number;
+  encrypt?: boolean;
+  trustServerCertificate?: boolean;
+}
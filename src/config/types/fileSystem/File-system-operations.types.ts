@@ -15,3 +15,20 @@ export interface FileOperationOptions {
   overwrite?: boolean;
   createParentDirs?: boolean;
 }
+
+/**
+ * Options for acquiring an exclusive lock file
+ */
+export interface FileLockOptions {
+  timeoutMs: number; // Give up waiting after this long
+  staleMs: number; // Break locks older than this (left behind by a crashed process)
+  retryIntervalMs?: number;
+}
+
+/**
+ * A file inside a zip archive
+ */
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
@@ -0,0 +1,24 @@
+import { HttpMethod } from '../api/api-client.types';
+
+/**
+ * Where a captured value is read from
+ * - responseBody: JSON path into the parsed response body, e.g. `applicants[0].applicantId`
+ * - responseHeader / requestHeader: header name (case-insensitive)
+ */
+export type CaptureSource = 'responseBody' | 'responseHeader' | 'requestHeader';
+
+export interface CaptureTarget {
+  source: CaptureSource;
+  path: string;
+  storeAs: string; // Key in the test data store
+}
+
+export interface CaptureRule {
+  name: string;
+  url: string | RegExp; // Glob (`**/api/users/*`) or regular expression
+  method?: HttpMethod | HttpMethod[];
+  status?: number | number[]; // Defaults to any 2xx status
+  captures: CaptureTarget[];
+}
+
+export type CapturedValues = Record<string, string | number | null>;
@@ -0,0 +1,52 @@
+import { EnhancedSanitizationParams } from '../config/sanitization.types';
+
+export interface ArtifactSanitizerConfig {
+  /** Parameters applied to headers, bodies and action parameters */
+  sanitizationParams: EnhancedSanitizationParams;
+  /** Typed values are masked when the target selector or input contains one of these words */
+  sensitiveSelectorHints: string[];
+  /** Actions whose typed value is recorded in the trace */
+  typingActions: string[];
+}
+
+/**
+ * Header, cookie, query or form parameter as stored in HAR files and traces
+ */
+export interface NameValuePair {
+  name: string;
+  value: string;
+}
+
+export interface HarBody {
+  mimeType?: string;
+  text?: string;
+  encoding?: string;
+  params?: NameValuePair[];
+  /** Name of the trace resource holding the body (older traces) */
+  _sha1?: string;
+  /** Path of the trace resource holding the body */
+  _file?: string;
+}
+
+/**
+ * The parts of a HAR entry (and of a trace network event) that can carry secrets
+ */
+export interface HarEntry {
+  request?: {
+    url?: string;
+    headers?: NameValuePair[];
+    cookies?: NameValuePair[];
+    queryString?: NameValuePair[];
+    postData?: HarBody;
+  };
+  response?: {
+    headers?: NameValuePair[];
+    cookies?: NameValuePair[];
+    content?: HarBody;
+  };
+}
+
+export interface ArtifactSanitizationSummary {
+  sanitized: string[];
+  failed: string[];
+}
@@ -0,0 +1,44 @@
+import { ErrorCategory } from '../enums/error-category.enum';
+import { ErrorDetails } from '../errors/error-handler.types';
+
+export interface ErrorClassificationReporterOptions {
+  /** Folder the JSON and HTML summaries are written to */
+  outputDir?: string;
+}
+
+/**
+ * The classification of one failed test
+ */
+export interface ClassifiedFailure {
+  testId: string;
+  title: string;
+  file: string;
+  project: string;
+  status: string;
+  retry: number;
+  category: ErrorCategory;
+  /** Page object, API path or method the failure is grouped under */
+  target: string;
+  source: string;
+  context?: string;
+  message: string;
+  /** Every error captured by ErrorHandler during the test, oldest first */
+  capturedErrors: ErrorDetails[];
+}
+
+export interface ErrorClassificationGroup {
+  category: ErrorCategory;
+  /** The enum key, e.g. LOCATOR */
+  categoryName: string;
+  target: string;
+  count: number;
+  tests: string[];
+  sampleMessage: string;
+}
+
+export interface ErrorClassificationReport {
+  generatedAt: string;
+  totalFailures: number;
+  groups: ErrorClassificationGroup[];
+  failures: ClassifiedFailure[];
+}
@@ -0,0 +1,80 @@
+import { FileLockOptions } from '../fileSystem/File-system-operations.types';
+
+/**
+ * Final outcome of a test in one run. `flaky` means it failed and then passed on retry.
+ */
+export type TestRunOutcome = 'passed' | 'failed' | 'flaky';
+
+/**
+ * How quarantined tests are handled:
+ * - `fixme`: they are marked `test.fixme` and do not run
+ * - `project`: they only run in the non-blocking `quarantine` project
+ */
+export interface FlakyTestConfig {
+  /** Outcome history kept across runs; not committed */
+  historyPath: string;
+  /** Summary of the last run, next to the history */
+  summaryPath: string;
+  /** Tests quarantined by hand, committed with the tests */
+  quarantinePath: string;
+  /** Runs kept per test */
+  maxHistory: number;
+  /** Runs needed before a test can be called flaky */
+  minRuns: number;
+  /** Share of runs that passed on retry or flipped outcome from the run before */
+  flakyThreshold: number;
+  /** A flaky test is stable again after this many runs that passed first time */
+  stableRuns: number;
+  lock: FileLockOptions;
+}
+
+export interface TestRunRecord {
+  runId: string;
+  timestamp: string;
+  outcome: TestRunOutcome;
+  /** Attempts after the first one */
+  retries: number;
+}
+
+export interface TestHistory {
+  title: string;
+  file: string;
+  project: string;
+  runs: TestRunRecord[];
+  flakinessScore: number;
+  isFlaky: boolean;
+}
+
+export interface FlakyTestHistoryFile {
+  updatedAt: string;
+  /** Keyed by project and title, see FlakinessAnalyzer.getTestKey */
+  tests: Record<string, TestHistory>;
+}
+
+export interface TestRunInput {
+  title: string;
+  file: string;
+  project: string;
+  outcome: TestRunOutcome;
+  retries: number;
+}
+
+export interface QuarantineEntry {
+  /** The test title as listed in the flaky test summary, e.g. `ui/Login.spec.ts › Login › logs in` */
+  title: string;
+  reason: string;
+  addedAt?: string;
+}
+
+export interface FlakyTestSummaryEntry {
+  title: string;
+  project: string;
+  flakinessScore: number;
+}
+
+export interface FlakyTestSummary {
+  runId: string;
+  flaky: FlakyTestSummaryEntry[];
+  newlyFlaky: FlakyTestSummaryEntry[];
+  newlyStable: FlakyTestSummaryEntry[];
+}
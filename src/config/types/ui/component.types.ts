@@ -0,0 +1,59 @@
+/**
+ * States a component root can be verified against (see BasePage.verifyElementState)
+ */
+export type ComponentState = 'enabled' | 'disabled' | 'visible' | 'hidden';
+
+/**
+ * Selectors resolved inside a DataTable root. Defaults cover plain HTML tables and
+ * ARIA grids such as Angular Material's mat-table.
+ */
+export interface DataTableSelectors {
+  headerCell: string;
+  row: string;
+  cell: string;
+  emptyState?: string; // Shown instead of rows when the table has no data
+  loadingIndicator?: string; // Visible while the table is fetching data
+}
+
+export interface ModalSelectors {
+  title: string;
+  closeButton: string;
+}
+
+export interface FormFieldSelectors {
+  input: string; // Resolved inside the field root; the root itself is used when it is the input
+  label: string;
+  error: string;
+}
+
+export interface PaginatorSelectors {
+  nextButton: string;
+  previousButton: string;
+  pageButton: (pageNumber: number) => string;
+  currentPage: string;
+}
+
+/**
+ * How a model property is read from a table column
+ */
+export interface TableColumnDefinition<V> {
+  header: string; // Header text, matched case-insensitively
+  parse?: (cellText: string) => V; // Defaults to the trimmed cell text
+}
+
+export type TableColumn<V> = string | TableColumnDefinition<V>;
+
+type RequiredKeys<T> = {
+  [K in keyof T]-?: object extends Pick<T, K> ? never : K;
+}[keyof T];
+
+/**
+ * Maps the properties of a row model to table columns. Required properties must be mapped,
+ * so every row read with the map is a complete `T`; use `Pick<Model, ...>` as `T` when the
+ * table shows only some of a model's properties.
+ */
+export type TableColumnMap<T> = { [K in RequiredKeys<T>]: TableColumn<T[K]> } & {
+  [K in Exclude<keyof T, RequiredKeys<T>>]?: TableColumn<T[K]>;
+};
+
+export type SortDirection = 'ascending' | 'descending';
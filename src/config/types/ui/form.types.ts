@@ -0,0 +1,32 @@
+/**
+ * How a form control is filled and read
+ * - text: inputs and textareas
+ * - select: a native `<select>` or a custom dropdown such as `mat-select`, set by option text
+ * - checkbox: a single checkbox, set from a boolean
+ * - checkboxGroup: checkboxes inside a container, set from a list of checkbox labels
+ * - date: a date input; Date values are entered as `YYYY-MM-DD` unless `formatDate` is given
+ * - autocomplete: types the value and picks the matching suggestion; lists pick several
+ */
+export type FormControlType =
+  | 'text'
+  | 'select'
+  | 'checkbox'
+  | 'checkboxGroup'
+  | 'date'
+  | 'autocomplete';
+
+export interface FormFieldDefinition {
+  selector: string; // Resolved on the page, or inside the form root when one is given
+  type: FormControlType;
+  label?: string; // Name used in the logs; defaults to the model key
+  sensitive?: boolean; // Always mask the value in the logs, even if the label is not a sensitive key
+  formatDate?: (date: Date) => string;
+}
+
+/**
+ * Maps model properties to the controls of a form. Properties without a field are ignored
+ * by fillForm and readForm.
+ */
+export type FormFieldMap<T> = { [K in keyof T]?: FormFieldDefinition };
+
+export type FormFieldValue = string | number | boolean | Date | string[];
@@ -0,0 +1,386 @@
+import readline from 'readline';
+import { Writable } from 'stream';
+import { parseArgs } from 'util';
+import winston from 'winston';
+import { CryptoOrchestrator } from '../service/cryptoOrchestrator';
+import { CryptoService } from '../service/cryptoService';
+import { CryptoManager } from '../manager/cryptoManager';
+import { CryptoMetadataManager } from '../manager/cryptoMetadataManager';
+import { EncryptionManager } from '../manager/encryptionManager';
+import { EnvironmentFileParser } from '../manager/environmentFileParser';
+import { EnvironmentSecretFileManager } from '../manager/environmentSecretFileManager';
+import { KeyRotationManager } from '../manager/keyRotationManager';
+import { EnvironmentConstants } from '../../config/environment/dotenv/constants';
+import { EnvironmentFilePaths, SecretKeyPaths } from '../../config/environment/dotenv/mapping';
+import {
+  ENVIRONMENT_STAGES,
+  EnvironmentStage,
+  isValidEnvironmentStage,
+} from '../../config/environment/dotenv/types';
+import {
+  EnvironmentVariableDiff,
+  EnvironmentVariableStatus,
+} from '../../config/types/config/security.types';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
+
+const USAGE = `Usage: npm run env:crypto -- <command> [arguments] [options]
+
+Commands:
+  list <stage>                List variables and their encryption status
+  show <stage> <KEY>          Print the decrypted value of one variable
+  set <stage> <KEY>           Encrypt and store a value read from stdin, or typed at a prompt
+  diff <stage> <stage>        Compare two stage files by key without printing values
+  migrate <stage>             Upgrade ENC2 values to ENC3
+  rotate <stage>              Rotate the secret key of a stage
+  rollback <stage>            Undo the last key rotation of a stage
+
+Stages: ${ENVIRONMENT_STAGES.join(', ')}
+
+Options:
+  --verbose                   Print framework logs to the console
+  -h, --help                  Show this help
+`;
+
+class UsageError extends Error {}
+
+/**
+ * Command line access to the encrypted environment files, for troubleshooting and
+ * for maintaining values outside a Playwright run.
+ *
+ * @example
+ * npm run env:crypto -- list uat
+ * npm run env:crypto -- show uat PORTAL_USERNAME
+ * npm run env:crypto -- set uat PORTAL_PASSWORD
+ * npm run env:crypto -- diff dev uat
+ */
+export class EnvironmentCryptoCli {
+  private cryptoOrchestrator: CryptoOrchestrator;
+  private environmentFileParser: EnvironmentFileParser;
+  private output: NodeJS.WritableStream;
+  private input: NodeJS.ReadableStream & { isTTY?: boolean };
+
+  constructor(
+    cryptoOrchestrator: CryptoOrchestrator,
+    environmentFileParser: EnvironmentFileParser,
+    output: NodeJS.WritableStream = process.stdout,
+    input: NodeJS.ReadableStream & { isTTY?: boolean } = process.stdin,
+  ) {
+    this.cryptoOrchestrator = cryptoOrchestrator;
+    this.environmentFileParser = environmentFileParser;
+    this.output = output;
+    this.input = input;
+  }
+
+  /**
+   * Runs a command
+   * @param args - The command line arguments without the node and script paths
+   * @returns The process exit code: 0 on success, 1 on failure, 2 on invalid usage
+   */
+  public async run(args: string[]): Promise<number> {
+    try {
+      const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+          help: { type: 'boolean', short: 'h' },
+          verbose: { type: 'boolean' },
+        },
+      });
+
+      if (values.help || positionals.length === 0) {
+        this.write(USAGE);
+        return values.help ? 0 : 2;
+      }
+
+      if (!values.verbose) {
+        this.silenceConsoleLogging();
+      }
+
+      const [command, ...commandArgs] = positionals;
+      await this.runCommand(command, commandArgs);
+      return 0;
+    } catch (error) {
+      process.stderr.write(`Error: ${ErrorHandler.getErrorMessage(error)}\n`);
+
+      if (
+        error instanceof UsageError ||
+        (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS')
+      ) {
+        process.stderr.write(`\n${USAGE}`);
+        return 2;
+      }
+      return 1;
+    }
+  }
+
+  private async runCommand(command: string, args: string[]): Promise<void> {
+    switch (command) {
+      case 'list':
+        return this.list(this.parseStage(args[0]));
+      case 'show':
+        return this.show(this.parseStage(args[0]), this.requireArgument(args[1], 'KEY'));
+      case 'set':
+        if (args.length > 2) {
+          // Values on the command line end up in the shell history and the process list
+          throw new UsageError('Pass the value on stdin or at the prompt, not as an argument');
+        }
+        return this.set(this.parseStage(args[0]), this.requireArgument(args[1], 'KEY'));
+      case 'diff':
+        return this.diff(this.parseStage(args[0]), this.parseStage(args[1]));
+      case 'migrate':
+        return this.migrate(this.parseStage(args[0]));
+      case 'rotate':
+        return this.rotate(this.parseStage(args[0]));
+      case 'rollback':
+        return this.rollback(this.parseStage(args[0]));
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  }
+
+  private async list(stage: EnvironmentStage): Promise<void> {
+    const variables = await this.readVariables(stage);
+    const rows = Object.entries(variables).map(([key, value]) => [
+      key,
+      ...this.describeStatus(value),
+    ]);
+
+    this.writeTable(rows);
+  }
+
+  private async show(stage: EnvironmentStage, key: string): Promise<void> {
+    const variables = await this.readVariables(stage);
+
+    if (!Object.prototype.hasOwnProperty.call(variables, key)) {
+      throw new Error(`Variable '${key}' not found in ${EnvironmentFilePaths[stage]}`);
+    }
+
+    this.write(`${await this.resolveValue(stage, variables[key])}\n`);
+  }
+
+  private async set(stage: EnvironmentStage, key: string): Promise<void> {
+    const plainValue = this.input.isTTY
+      ? await this.promptHidden(`Value for ${key}: `)
+      : await this.readInput();
+
+    if (!plainValue) {
+      throw new UsageError('No value provided on stdin or at the prompt');
+    }
+
+    await this.cryptoOrchestrator.setEncryptedEnvironmentVariable(stage, key, plainValue);
+    this.write(`Encrypted '${key}' in ${EnvironmentFilePaths[stage]}\n`);
+  }
+
+  private async diff(firstStage: EnvironmentStage, secondStage: EnvironmentStage): Promise<void> {
+    const [first, second] = await Promise.all([
+      this.readVariables(firstStage),
+      this.readVariables(secondStage),
+    ]);
+    const keys = [...new Set([...Object.keys(first), ...Object.keys(second)])].sort();
+    const differences: EnvironmentVariableDiff[] = [];
+
+    for (const key of keys) {
+      if (!(key in second)) {
+        differences.push({ key, result: 'onlyInFirst' });
+      } else if (!(key in first)) {
+        differences.push({ key, result: 'onlyInSecond' });
+      } else {
+        differences.push({
+          key,
+          result: await this.compareValues(firstStage, first[key], secondStage, second[key]),
+        });
+      }
+    }
+
+    const labels: Record<EnvironmentVariableDiff['result'], string> = {
+      same: 'same',
+      different: 'different',
+      onlyInFirst: `only in ${firstStage}`,
+      onlyInSecond: `only in ${secondStage}`,
+      undecryptable: 'cannot decrypt',
+    };
+    this.writeTable(differences.map(({ key, result }) => [key, labels[result]]));
+  }
+
+  private async migrate(stage: EnvironmentStage): Promise<void> {
+    const result = await this.cryptoOrchestrator.migrateEncryptedEnvironmentFile(stage);
+    this.write(
+      `Migrated ${result.migratedVariables.length} variables to ENC3 in ${EnvironmentFilePaths[stage]}` +
+        `${result.migratedVariables.length ? `: ${result.migratedVariables.join(', ')}` : ''}\n`,
+    );
+  }
+
+  private async rotate(stage: EnvironmentStage): Promise<void> {
+    const result = await this.cryptoOrchestrator.rotateSecretKey(stage);
+    this.write(
+      `Rotated ${SecretKeyPaths[stage]} from key ${result.previousKeyId} to ${result.newKeyId}; ` +
+        `re-encrypted ${result.reEncryptedVariables.length} variables\n`,
+    );
+  }
+
+  private async rollback(stage: EnvironmentStage): Promise<void> {
+    const keyId = await this.cryptoOrchestrator.rollbackSecretKeyRotation(stage);
+    this.write(`Restored ${SecretKeyPaths[stage]} to key ${keyId}\n`);
+  }
+
+  private async compareValues(
+    firstStage: EnvironmentStage,
+    firstValue: string,
+    secondStage: EnvironmentStage,
+    secondValue: string,
+  ): Promise<EnvironmentVariableDiff['result']> {
+    try {
+      const [first, second] = await Promise.all([
+        this.resolveValue(firstStage, firstValue),
+        this.resolveValue(secondStage, secondValue),
+      ]);
+      return first === second ? 'same' : 'different';
+    } catch {
+      return 'undecryptable';
+    }
+  }
+
+  private async resolveValue(stage: EnvironmentStage, value: string): Promise<string> {
+    if (!CryptoManager.getFormatVersion(value)) {
+      return value;
+    }
+    return CryptoService.decrypt(value, SecretKeyPaths[stage]);
+  }
+
+  /**
+   * Returns the status of a value and, for ENC3, the id of its key. A malformed ENC3 header
+   * is reported as invalid rather than failing the whole listing.
+   */
+  private describeStatus(value: string): [EnvironmentVariableStatus, string] {
+    const status = this.getStatus(value);
+    if (status !== 'ENC3') {
+      return [status, ''];
+    }
+
+    try {
+      return [status, `key ${CryptoManager.parseEncryptedData(value).header?.keyId}`];
+    } catch (error) {
+      return ['invalid', ErrorHandler.getErrorMessage(error)];
+    }
+  }
+
+  private getStatus(value: string): EnvironmentVariableStatus {
+    const version = CryptoManager.getFormatVersion(value);
+
+    if (!version) {
+      return 'plain';
+    }
+    if (!CryptoManager.isEncrypted(value)) {
+      return 'invalid';
+    }
+    return version === 3 ? 'ENC3' : 'ENC2';
+  }
+
+  private async readVariables(stage: EnvironmentStage): Promise<Record<string, string>> {
+    const lines = await this.environmentFileParser.readEnvironmentFileAsLines(
+      EnvironmentConstants.ENV_DIR,
+      EnvironmentFilePaths[stage],
+    );
+    return this.environmentFileParser.extractEnvironmentVariables(lines);
+  }
+
+  private parseStage(value: string | undefined): EnvironmentStage {
+    const stage = this.requireArgument(value, 'stage');
+
+    if (!isValidEnvironmentStage(stage)) {
+      throw new UsageError(
+        `Invalid stage '${stage}'. Expected one of: ${ENVIRONMENT_STAGES.join(', ')}`,
+      );
+    }
+    return stage;
+  }
+
+  private requireArgument(value: string | undefined, name: string): string {
+    if (!value) {
+      throw new UsageError(`Missing argument: ${name}`);
+    }
+    return value;
+  }
+
+  private async readInput(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.input) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks)
+      .toString('utf8')
+      .replace(/\r?\n$/, '');
+  }
+
+  /**
+   * Reads a line from the terminal without echoing it. The prompt goes to stderr so that
+   * stdout only carries command output.
+   */
+  private promptHidden(question: string): Promise<string> {
+    const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+    const prompt = readline.createInterface({ input: this.input, output: muted, terminal: true });
+    process.stderr.write(question);
+
+    return new Promise((resolve) => {
+      prompt.question('', (answer) => {
+        prompt.close();
+        process.stderr.write('\n');
+        resolve(answer);
+      });
+    });
+  }
+
+  private writeTable(rows: string[][]): void {
+    const widths = rows.reduce<number[]>(
+      (max, row) => row.map((cell, index) => Math.max(max[index] ?? 0, cell.length)),
+      [],
+    );
+
+    for (const row of rows) {
+      this.write(
+        `${row
+          .map((cell, index) => cell.padEnd(widths[index]))
+          .join('  ')
+          .trimEnd()}\n`,
+      );
+    }
+  }
+
+  private write(text: string): void {
+    this.output.write(text);
+  }
+
+  /**
+   * Keeps framework logs in the log files only, so command output stays readable
+   */
+  private silenceConsoleLogging(): void {
+    for (const transport of logger.transports) {
+      if (transport instanceof winston.transports.Console) {
+        transport.silent = true;
+      }
+    }
+  }
+}
+
+if (require.main === module) {
+  const environmentFileParser = new EnvironmentFileParser();
+  const environmentSecretFileManager = new EnvironmentSecretFileManager();
+
+  const cli = new EnvironmentCryptoCli(
+    new CryptoOrchestrator(
+      new EncryptionManager(environmentFileParser),
+      environmentSecretFileManager,
+      new KeyRotationManager(
+        environmentFileParser,
+        environmentSecretFileManager,
+        new CryptoMetadataManager(),
+      ),
+    ),
+    environmentFileParser,
+  );
+
+  cli.run(process.argv.slice(2)).then((exitCode) => {
+    process.exitCode = exitCode;
+  });
+}
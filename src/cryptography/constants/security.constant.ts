@@ -19,7 +19,7 @@ export const SECURITY_CONFIG: SecurityConfig = {
 // Encryption constants
 export const SECURITY_CONSTANTS = {
   /**
-   * Format constants for encrypted values
+   * Format constants for legacy encrypted values: ENC2:salt:iv:cipherText:hmac
    */
   FORMAT: {
     PREFIX: 'ENC2:',
@@ -28,6 +28,27 @@ export const SECURITY_CONSTANTS = {
     PREFIX_LENGTH: 4,
   },
 
+  /**
+   * Format constants for versioned encrypted values: ENC3:header:salt:iv:cipherText:hmac
+   * The header is base64 encoded JSON holding the key id and the Argon2 parameters used.
+   */
+  FORMAT_V3: {
+    PREFIX: 'ENC3:',
+    SEPARATOR: ':',
+    EXPECTED_PARTS: 5,
+    PREFIX_LENGTH: 4,
+  },
+
+  /**
+   * Accepted range of the Argon2 parameters in an ENC3 header. The header is authenticated
+   * by the HMAC, but its key is derived with these parameters, so they are bounded before use.
+   */
+  ARGON2_BOUNDS: {
+    MEMORY_COST: { MIN: 1024, MAX: 1048576 }, // 1 MB to 1 GB
+    TIME_COST: { MIN: 1, MAX: 10 },
+    PARALLELISM: { MIN: 1, MAX: 16 },
+  },
+
   /**
    * Cryptographic algorithm constants
    */
@@ -45,5 +66,6 @@ export const SECURITY_CONSTANTS = {
 } as const;
 
 export type EncryptionFormat = typeof SECURITY_CONSTANTS.FORMAT;
+export type EncryptionFormatV3 = typeof SECURITY_CONSTANTS.FORMAT_V3;
 export type EncryptionCrypto = typeof SECURITY_CONSTANTS.CRYPTO;
 export type EncryptionValidation = typeof SECURITY_CONSTANTS.VALIDATION;
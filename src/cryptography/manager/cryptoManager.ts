@@ -4,24 +4,57 @@ import SecureKeyGenerator from '../key/secureKeyGenerator';
 import { EnvironmentSecretFileManager } from './environmentSecretFileManager';
 import { SECURITY_CONFIG } from '../constants/security.constant';
 import { FileEncoding } from '../../config/types/enums/file-encoding.enum';
+import {
+  Argon2Config,
+  EncryptedPayloadHeader,
+  EncryptedPayloadVersion,
+  ParsedEncryptedPayload,
+} from '../../config/types/config/security.types';
 import { SECURITY_CONSTANTS } from '../constants/security.constant';
 import ErrorHandler from '../../utils/errors/errorHandler';
 
 export class CryptoManager {
+  /**
+   * Checks if a value is a well-formed ENC2 or ENC3 encrypted value
+   */
   public static isEncrypted(value: string): boolean {
-    if (!value || typeof value !== 'string') return false;
-
-    if (!value.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) return false;
+    const version = this.getFormatVersion(value);
+    if (!version) return false;
 
-    const encryptedPart = value.substring(SECURITY_CONSTANTS.FORMAT.PREFIX.length);
-    const parts = encryptedPart.split(SECURITY_CONSTANTS.FORMAT.SEPARATOR);
+    const format = this.getFormat(version);
+    const encryptedPart = value.substring(format.PREFIX.length);
+    const parts = encryptedPart.split(format.SEPARATOR);
 
     return (
-      parts.length === SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS &&
+      parts.length === format.EXPECTED_PARTS &&
       parts.every((part) => part && this.isValidBase64(part))
     );
   }
 
+  /**
+   * Returns the encrypted payload version from the value prefix, or undefined if the value
+   * does not carry an encryption prefix
+   */
+  public static getFormatVersion(value: string): EncryptedPayloadVersion | undefined {
+    if (!value || typeof value !== 'string') return undefined;
+
+    if (value.startsWith(SECURITY_CONSTANTS.FORMAT_V3.PREFIX)) return 3;
+    if (value.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) return 2;
+
+    return undefined;
+  }
+
+  /**
+   * Returns a short fingerprint identifying a secret key without exposing it
+   */
+  public static getKeyId(secretKey: string): string {
+    return crypto.createHash('sha256').update(secretKey).digest('hex').substring(0, 16);
+  }
+
+  private static getFormat(version: EncryptedPayloadVersion) {
+    return version === 3 ? SECURITY_CONSTANTS.FORMAT_V3 : SECURITY_CONSTANTS.FORMAT;
+  }
+
   public static async getSecretKeyFromEnvironment(secretKeyVariable: string): Promise<string> {
     try {
       // Create instance of SecretKeyManager
@@ -145,6 +178,7 @@ export class CryptoManager {
   public static async deriveKeysWithArgon2(
     secretKey: string,
     salt: string,
+    argon2Parameters: Argon2Config = SECURITY_CONFIG.ARGON2_PARAMETERS,
   ): Promise<{ encryptionKey: CryptoKey; hmacKey: CryptoKey }> {
     try {
       this.validateBase64String(salt, 'salt');
@@ -156,9 +190,9 @@ export class CryptoManager {
         hashLength:
           SECURITY_CONFIG.BYTE_LENGTHS.SECRET_KEY + SECURITY_CONFIG.BYTE_LENGTHS.HMAC_KEY_LENGTH,
         salt: saltBuffer,
-        memoryCost: SECURITY_CONFIG.ARGON2_PARAMETERS.MEMORY_COST,
-        timeCost: SECURITY_CONFIG.ARGON2_PARAMETERS.TIME_COST,
-        parallelism: SECURITY_CONFIG.ARGON2_PARAMETERS.PARALLELISM,
+        memoryCost: argon2Parameters.MEMORY_COST,
+        timeCost: argon2Parameters.TIME_COST,
+        parallelism: argon2Parameters.PARALLELISM,
       };
 
       const derivedKeyBuffer = await this.argon2Hashing(secretKey, options);
@@ -305,17 +339,34 @@ export class CryptoManager {
     };
   }
 
+  /**
+   * Builds the ENC3 header for a key, recording the Argon2 parameters currently configured
+   */
+  public static createPayloadHeader(secretKey: string): EncryptedPayloadHeader {
+    return {
+      keyId: CryptoManager.getKeyId(secretKey),
+      memoryCost: SECURITY_CONFIG.ARGON2_PARAMETERS.MEMORY_COST,
+      timeCost: SECURITY_CONFIG.ARGON2_PARAMETERS.TIME_COST,
+      parallelism: SECURITY_CONFIG.ARGON2_PARAMETERS.PARALLELISM,
+    };
+  }
+
+  public static encodePayloadHeader(header: EncryptedPayloadHeader): string {
+    return Buffer.from(JSON.stringify(header), FileEncoding.UTF8).toString(FileEncoding.BASE64);
+  }
+
   private static formatEncryptedPayload(
+    rawHeader: string,
     salt: string,
     iv: string,
     cipherText: string,
     hmacBase64: string,
   ): string {
-    return `${SECURITY_CONSTANTS.FORMAT.PREFIX}${salt}:${iv}:${cipherText}:${hmacBase64}`;
+    return `${SECURITY_CONSTANTS.FORMAT_V3.PREFIX}${rawHeader}:${salt}:${iv}:${cipherText}:${hmacBase64}`;
   }
 
   /**
-   * Helper to create the encrypted payload with HMAC
+   * Helper to create the ENC3 encrypted payload with HMAC
    */
   public static async createEncryptedPayload(
     value: string,
@@ -323,59 +374,145 @@ export class CryptoManager {
     webCryptoIv: Uint8Array,
     encryptionKey: CryptoKey,
     hmacKey: CryptoKey,
+    header: EncryptedPayloadHeader,
   ): Promise<string> {
     // Encrypt the value
     const encryptedBuffer = await CryptoManager.encryptBuffer(webCryptoIv, encryptionKey, value);
     const cipherText = Buffer.from(encryptedBuffer).toString(FileEncoding.BASE64);
     const iv = Buffer.from(webCryptoIv).toString(FileEncoding.BASE64);
+    const rawHeader = CryptoManager.encodePayloadHeader(header);
 
-    // Compute HMAC (salt + iv + cipherText)
-    const dataToHmac = Buffer.concat([
-      Buffer.from(salt, FileEncoding.BASE64),
-      Buffer.from(iv, FileEncoding.BASE64),
-      Buffer.from(cipherText, FileEncoding.BASE64),
-    ]);
+    // Compute HMAC (header + salt + iv + cipherText)
+    const dataToHmac = CryptoManager.prepareHMACData(salt, iv, cipherText, rawHeader);
     const hmacBase64 = await CryptoManager.computeHMAC(hmacKey, dataToHmac);
 
-    return CryptoManager.formatEncryptedPayload(salt, iv, cipherText, hmacBase64);
+    return CryptoManager.formatEncryptedPayload(rawHeader, salt, iv, cipherText, hmacBase64);
   }
 
   // Decrypt
 
-  // Helper method 1: Parse and validate encrypted data format
-  public static parseEncryptedData(encryptedData: string): {
-    salt: string;
-    iv: string;
-    cipherText: string;
-    receivedHmac: string;
-  } {
-    CryptoManager.validateEncryptedFormat(encryptedData);
+  // Helper method 1: Parse and validate encrypted data format (ENC2 or ENC3)
+  public static parseEncryptedData(encryptedData: string): ParsedEncryptedPayload {
+    const version = CryptoManager.validateEncryptedFormat(encryptedData);
+    const format = CryptoManager.getFormat(version);
+
+    const encryptedPart = encryptedData.substring(format.PREFIX.length);
+    const parts = encryptedPart.split(format.SEPARATOR);
+
+    CryptoManager.validatePartCount(parts, format.EXPECTED_PARTS);
+
+    if (version === 2) {
+      const [salt, iv, cipherText, receivedHmac] = parts;
 
-    const encryptedPart = encryptedData.substring(SECURITY_CONSTANTS.FORMAT.PREFIX.length);
-    const parts = encryptedPart.split(SECURITY_CONSTANTS.FORMAT.SEPARATOR);
+      CryptoManager.validateRequiredParts(salt, iv, cipherText, receivedHmac);
+      CryptoManager.validateBase64Components(salt, iv, cipherText, receivedHmac);
 
-    CryptoManager.validatePartCount(parts);
+      return { version, salt, iv, cipherText, receivedHmac };
+    }
 
-    const [salt, iv, cipherText, receivedHmac] = parts;
+    const [rawHeader, salt, iv, cipherText, receivedHmac] = parts;
 
     CryptoManager.validateRequiredParts(salt, iv, cipherText, receivedHmac);
     CryptoManager.validateBase64Components(salt, iv, cipherText, receivedHmac);
+    const header = CryptoManager.parsePayloadHeader(rawHeader);
 
-    return { salt, iv, cipherText, receivedHmac };
+    return { version, header, rawHeader, salt, iv, cipherText, receivedHmac };
   }
 
   // Helper method 2: Validate encrypted data format
-  private static validateEncryptedFormat(encryptedData: string): void {
-    if (!encryptedData.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) {
+  private static validateEncryptedFormat(encryptedData: string): EncryptedPayloadVersion {
+    const version = CryptoManager.getFormatVersion(encryptedData);
+    if (!version) {
       ErrorHandler.logAndThrow('Invalid encrypted format: Missing prefix');
     }
+    return version;
+  }
+
+  // Decode and validate the ENC3 header
+  private static parsePayloadHeader(rawHeader: string): EncryptedPayloadHeader {
+    if (!rawHeader || !CryptoManager.isValidBase64(rawHeader)) {
+      ErrorHandler.logAndThrow('Invalid header format');
+    }
+
+    let header: Partial<EncryptedPayloadHeader>;
+    try {
+      header = JSON.parse(Buffer.from(rawHeader, FileEncoding.BASE64).toString(FileEncoding.UTF8));
+    } catch {
+      ErrorHandler.logAndThrow('Invalid header format: header is not valid JSON');
+    }
+
+    const { keyId, memoryCost, timeCost, parallelism } = header;
+    if (
+      typeof keyId !== 'string' ||
+      ![memoryCost, timeCost, parallelism].every((value) => Number.isInteger(value))
+    ) {
+      ErrorHandler.logAndThrow('Invalid header: missing key id or Argon2 parameters');
+    }
+
+    CryptoManager.validateArgon2Bounds(header as EncryptedPayloadHeader);
+    return header as EncryptedPayloadHeader;
+  }
+
+  // Reject Argon2 parameters that would make key derivation exhaust memory or time
+  private static validateArgon2Bounds(header: EncryptedPayloadHeader): void {
+    const bounds = SECURITY_CONSTANTS.ARGON2_BOUNDS;
+    const parameters = [
+      ['memoryCost', header.memoryCost, bounds.MEMORY_COST],
+      ['timeCost', header.timeCost, bounds.TIME_COST],
+      ['parallelism', header.parallelism, bounds.PARALLELISM],
+    ] as const;
+
+    const outOfBounds = parameters
+      .filter(([, value, { MIN, MAX }]) => value < MIN || value > MAX)
+      .map(([name, value, { MIN, MAX }]) => `${name} ${value} (expected ${MIN}-${MAX})`);
+
+    if (outOfBounds.length > 0) {
+      ErrorHandler.logAndThrow(
+        `Invalid header: Argon2 parameters out of bounds - ${outOfBounds.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Returns the Argon2 parameters a payload was encrypted with. ENC2 values carry none,
+   * so the currently configured parameters are used for them.
+   */
+  public static getArgon2Parameters(payload: ParsedEncryptedPayload): Argon2Config {
+    if (!payload.header) {
+      return SECURITY_CONFIG.ARGON2_PARAMETERS;
+    }
+
+    return {
+      MEMORY_COST: payload.header.memoryCost,
+      TIME_COST: payload.header.timeCost,
+      PARALLELISM: payload.header.parallelism,
+    };
+  }
+
+  /**
+   * Fails fast when an ENC3 value was encrypted with a different key than the one provided
+   */
+  public static validateKeyId(payload: ParsedEncryptedPayload, secretKey: string): void {
+    if (!payload.header) {
+      return;
+    }
+
+    const keyId = CryptoManager.getKeyId(secretKey);
+    if (payload.header.keyId !== keyId) {
+      ErrorHandler.logAndThrow(
+        `Key mismatch: value was encrypted with key ${payload.header.keyId}, but key ${keyId} was provided`,
+      );
+    }
   }
 
   // Validate part count
-  public static validatePartCount(parts: string[]): void {
-    if (parts.length !== SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS) {
+  public static validatePartCount(
+    parts: string[],
+    expectedParts: number = SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS,
+  ): void {
+    if (parts.length !== expectedParts) {
       ErrorHandler.logAndThrow(
-        `Invalid format. Expected ${SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS} parts, got ${parts.length}`,
+        `Invalid format. Expected ${expectedParts} parts, got ${parts.length}`,
       );
     }
   }
@@ -428,8 +565,9 @@ export class CryptoManager {
     cipherText: string,
     receivedHmac: string,
     hmacKey: CryptoKey,
+    rawHeader?: string,
   ): Promise<void> {
-    const dataToHmac = CryptoManager.prepareHMACData(salt, iv, cipherText);
+    const dataToHmac = CryptoManager.prepareHMACData(salt, iv, cipherText, rawHeader);
     const computedHmac = await CryptoManager.computeHMAC(hmacKey, dataToHmac);
 
     if (!CryptoManager.constantTimeCompare(computedHmac, receivedHmac)) {
@@ -439,9 +577,15 @@ export class CryptoManager {
     }
   }
 
-  // Prepare data for HMAC computation
-  public static prepareHMACData(salt: string, iv: string, cipherText: string): Buffer {
+  // Prepare data for HMAC computation; ENC3 values also authenticate their header
+  public static prepareHMACData(
+    salt: string,
+    iv: string,
+    cipherText: string,
+    rawHeader?: string,
+  ): Buffer {
     return Buffer.concat([
+      Buffer.from(rawHeader ?? '', FileEncoding.BASE64),
       Buffer.from(salt, FileEncoding.BASE64),
       Buffer.from(iv, FileEncoding.BASE64),
       Buffer.from(cipherText, FileEncoding.BASE64),
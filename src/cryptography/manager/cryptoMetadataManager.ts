@@ -0,0 +1,120 @@
+import path from 'path';
+import FileSystemManager from '../../utils/fileSystem/fileSystemManager';
+import { CryptoMetadata } from '../../config/environment/dotenv/constants';
+import type { EnvironmentStage } from '../../config/environment/dotenv/types';
+import {
+  CryptoMetadataFile,
+  KeyArchiveEntry,
+  StageKeyMetadata,
+} from '../../config/types/config/crypto-metadata.types';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
+
+/**
+ * Maintains the key lifecycle metadata (`.keyMetadata/metadata.json`) and the archive
+ * of replaced keys (`.keyMetadata/archive`) used to roll back a key rotation.
+ */
+export class CryptoMetadataManager {
+  private readonly DIRECTORY = CryptoMetadata.DIRECTORY;
+  private readonly ARCHIVE_DIRECTORY = path.join(
+    CryptoMetadata.DIRECTORY,
+    CryptoMetadata.ARCHIVE_DIRECTORY,
+  );
+
+  /**
+   * Gets the key metadata recorded for an environment stage
+   */
+  public async getStageMetadata(stage: EnvironmentStage): Promise<StageKeyMetadata | undefined> {
+    const metadata = await this.readMetadata();
+    return metadata[stage];
+  }
+
+  /**
+   * Replaces the key metadata recorded for an environment stage
+   */
+  public async saveStageMetadata(
+    stage: EnvironmentStage,
+    stageMetadata: StageKeyMetadata,
+  ): Promise<void> {
+    try {
+      const metadata = await this.readMetadata();
+      metadata[stage] = stageMetadata;
+
+      await FileSystemManager.writeFileAtomic(
+        this.getMetadataFilePath(),
+        JSON.stringify(metadata, null, 2),
+        CryptoMetadata.FILE_NAME,
+      );
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'saveStageMetadata',
+        `Failed to save key metadata for stage '${stage}'`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Archives a key together with the environment file content it encrypted
+   * @returns The archive file name, relative to the archive directory
+   */
+  public async archiveKey(entry: KeyArchiveEntry): Promise<string> {
+    const timestamp = entry.archivedAt.replace(/[:.]/g, '-');
+    const archiveFile = `${entry.stage}-${entry.keyId}-${timestamp}.json`;
+
+    try {
+      await FileSystemManager.writeFileAtomic(
+        FileSystemManager.getFilePath(this.ARCHIVE_DIRECTORY, archiveFile),
+        JSON.stringify(entry, null, 2),
+        archiveFile,
+      );
+
+      logger.info(`Archived key ${entry.keyId} for stage '${entry.stage}' to ${archiveFile}`);
+      return archiveFile;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'archiveKey',
+        `Failed to archive key ${entry.keyId} for stage '${entry.stage}'`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Reads an archived key
+   * @param archiveFile - The archive file name returned by `archiveKey`
+   */
+  public async readArchive(archiveFile: string): Promise<KeyArchiveEntry> {
+    try {
+      const content = await FileSystemManager.readFile(
+        FileSystemManager.getFilePath(this.ARCHIVE_DIRECTORY, archiveFile),
+      );
+      return JSON.parse(content) as KeyArchiveEntry;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'readArchive', `Failed to read key archive ${archiveFile}`);
+      throw error;
+    }
+  }
+
+  private async readMetadata(): Promise<CryptoMetadataFile> {
+    const filePath = this.getMetadataFilePath();
+
+    try {
+      if (!(await FileSystemManager.doesFileExist(filePath))) {
+        return {};
+      }
+
+      const content = await FileSystemManager.readFile(filePath);
+      return content.trim() ? (JSON.parse(content) as CryptoMetadataFile) : {};
+    } catch (error) {
+      ErrorHandler.captureError(error, 'readMetadata', `Failed to read key metadata ${filePath}`);
+      throw error;
+    }
+  }
+
+  private getMetadataFilePath(): string {
+    return FileSystemManager.getFilePath(this.DIRECTORY, CryptoMetadata.FILE_NAME);
+  }
+}
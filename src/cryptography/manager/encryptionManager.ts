@@ -1,5 +1,8 @@
 import { CryptoService } from '../service/cryptoService';
 import { SECURITY_CONSTANTS } from '../constants/security.constant';
+import { EncryptionMigrationResult } from '../../config/types/config/security.types';
+import FileSystemManager from '../../utils/fileSystem/fileSystemManager';
+import { CryptoManager } from './cryptoManager';
 import ErrorHandler from '../../utils/errors/errorHandler';
 import logger from '../../utils/logging/loggerManager';
 import { EnvironmentFileParser } from './environmentFileParser';
@@ -86,6 +89,127 @@ export class EncryptionManager {
     }
   }
 
+  /**
+   * Encrypts a single value and stores it under the given variable, adding the variable
+   * when it does not exist yet. The plaintext is never written to disk.
+   *
+   * @param directory - Directory containing the environment file
+   * @param environmentFilePath - Path to the environment file
+   * @param secretKeyVariable - Variable name containing the encryption key
+   * @param envVariable - The variable to set
+   * @param value - The plaintext value to encrypt
+   */
+  public async setEncryptedVariable(
+    directory: string,
+    environmentFilePath: string,
+    secretKeyVariable: string,
+    envVariable: string,
+    value: string,
+  ): Promise<void> {
+    if (!SECURITY_CONSTANTS.VALIDATION.ENV_VAR_KEY_PATTERN.test(envVariable)) {
+      ErrorHandler.logAndThrow(
+        `Invalid environment variable key format: '${envVariable}'`,
+        'setEncryptedVariable',
+      );
+    }
+
+    try {
+      const envFileLines = await this.environmentFileParser.readEnvironmentFileAsLines(
+        directory,
+        environmentFilePath,
+      );
+      const updatedLines = this.environmentFileParser.updateEnvironmentFileLines(
+        envFileLines,
+        envVariable,
+        await CryptoService.encrypt(value, secretKeyVariable),
+      );
+
+      await FileSystemManager.writeFileAtomic(
+        await this.environmentFileParser.resolveFilePath(directory, environmentFilePath),
+        updatedLines.join('\n'),
+        environmentFilePath,
+      );
+      logger.info(`Encrypted and stored '${envVariable}' in ${environmentFilePath}`);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'setEncryptedVariable',
+        `Failed to set encrypted variable '${envVariable}' in ${environmentFilePath}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Upgrades every legacy ENC2 value in an environment file to the versioned ENC3 format.
+   * All values are decrypted before anything is written and the file is replaced atomically.
+   *
+   * @param directory - Directory containing the environment file
+   * @param environmentFilePath - Path to the environment file
+   * @param secretKeyVariable - Variable name containing the encryption key
+   */
+  public async migrateEncryptedValues(
+    directory: string,
+    environmentFilePath: string,
+    secretKeyVariable: string,
+  ): Promise<EncryptionMigrationResult> {
+    try {
+      const envFileLines = await this.environmentFileParser.readEnvironmentFileAsLines(
+        directory,
+        environmentFilePath,
+      );
+      const allEnvVariables = this.environmentFileParser.extractEnvironmentVariables(envFileLines);
+      const result: EncryptionMigrationResult = {
+        migratedVariables: [],
+        alreadyMigratedVariables: [],
+      };
+
+      const legacyValues: [string, string][] = [];
+      for (const [key, value] of Object.entries(allEnvVariables)) {
+        const version = CryptoManager.getFormatVersion(value.trim());
+
+        if (version === 3) {
+          result.alreadyMigratedVariables.push(key);
+        } else if (version === 2) {
+          legacyValues.push([key, await CryptoService.decrypt(value.trim(), secretKeyVariable)]);
+        }
+      }
+
+      if (legacyValues.length === 0) {
+        logger.info(`No ENC2 values to migrate in ${environmentFilePath}`);
+        return result;
+      }
+
+      let updatedLines = envFileLines;
+      for (const [key, plainValue] of legacyValues) {
+        updatedLines = this.environmentFileParser.updateEnvironmentFileLines(
+          updatedLines,
+          key,
+          await CryptoService.encrypt(plainValue, secretKeyVariable),
+        );
+        result.migratedVariables.push(key);
+      }
+
+      await FileSystemManager.writeFileAtomic(
+        await this.environmentFileParser.resolveFilePath(directory, environmentFilePath),
+        updatedLines.join('\n'),
+        environmentFilePath,
+      );
+
+      logger.info(
+        `Migrated ${result.migratedVariables.length} variables to ENC3 in ${environmentFilePath}: ${result.migratedVariables.join(', ')}`,
+      );
+      return result;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'migrateEncryptedValues',
+        `Failed to migrate encrypted values in ${environmentFilePath}`,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Determines which environment variables should be encrypted based on the provided filter.
    */
@@ -209,24 +333,27 @@ export class EncryptionManager {
   }
 
   /**
-   * Checks if a value is already encrypted by looking for the encryption prefix.
+   * Checks if a value is already encrypted by looking for an ENC2 or ENC3 prefix.
    */
   public isAlreadyEncrypted(value: string): boolean {
     if (!value) {
       return false;
     }
-    return value.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX);
+    return CryptoManager.getFormatVersion(value) !== undefined;
   }
 
   /**
-   * Extracts the encrypted data without the prefix.
+   * Extracts the encrypted data without the ENC2 or ENC3 prefix.
    * Returns null if the value is not encrypted.
    */
   public static extractEncryptedValue(value: string): string | null {
-    if (!value?.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) {
+    const version = CryptoManager.getFormatVersion(value);
+    if (!version) {
       return null;
     }
-    return value.substring(SECURITY_CONSTANTS.FORMAT.PREFIX.length);
+
+    const format = version === 3 ? SECURITY_CONSTANTS.FORMAT_V3 : SECURITY_CONSTANTS.FORMAT;
+    return value.substring(format.PREFIX.length);
   }
 
   /**
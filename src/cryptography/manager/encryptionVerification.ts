@@ -1,31 +1,15 @@
 import { EnvironmentConstants } from './../../config/environment/dotenv/constants';
 import AsyncFileManager from '../../utils/fileSystem/fileSystemManager';
-import { SECURITY_CONSTANTS } from '../constants/security.constant';
+import { CryptoManager } from './cryptoManager';
 import { FileEncoding } from '../../config/types/enums/file-encoding.enum';
 import ErrorHandler from '../../utils/errors/errorHandler';
 
 export default class EncryptionVerification {
   /**
-   * Check if a value is properly encrypted with ENC2 format
+   * Check if a value is properly encrypted with the ENC2 or ENC3 format
    */
   private static isEncrypted(value: string): boolean {
-    if (!value || typeof value !== 'string') {
-      return false;
-    }
-
-    if (!value.startsWith(SECURITY_CONSTANTS.FORMAT.PREFIX)) {
-      return false;
-    }
-
-    const withoutPrefix = value.substring(SECURITY_CONSTANTS.FORMAT.PREFIX.length);
-    const parts = withoutPrefix.split(SECURITY_CONSTANTS.FORMAT.SEPARATOR);
-
-    if (parts.length !== SECURITY_CONSTANTS.FORMAT.EXPECTED_PARTS) {
-      return false;
-    }
-
-    const base64Regex = /^[A-Za-z0-9+/]+=*$/;
-    return parts.every((part) => part.length > 0 && base64Regex.test(part));
+    return CryptoManager.isEncrypted(value);
   }
 
   /**
@@ -0,0 +1,241 @@
+import FileSystemManager from '../../utils/fileSystem/fileSystemManager';
+import SecureKeyGenerator from '../key/secureKeyGenerator';
+import { CryptoService } from '../service/cryptoService';
+import { CryptoManager } from './cryptoManager';
+import { CryptoMetadataManager } from './cryptoMetadataManager';
+import { EnvironmentFileParser } from './environmentFileParser';
+import { EnvironmentSecretFileManager } from './environmentSecretFileManager';
+import { EnvironmentConstants } from '../../config/environment/dotenv/constants';
+import { EnvironmentFilePaths, SecretKeyPaths } from '../../config/environment/dotenv/mapping';
+import type { EnvironmentStage } from '../../config/environment/dotenv/types';
+import {
+  KeyArchiveEntry,
+  KeyRotationResult,
+  StageKeyMetadata,
+} from '../../config/types/config/crypto-metadata.types';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
+
+/**
+ * Replaces the secret key of an environment stage and re-encrypts its environment file.
+ *
+ * The old key and the original file content are archived before anything is written,
+ * so a rotation that fails half-way is restored automatically and a completed rotation
+ * can be rolled back with `rollbackLastRotation`.
+ */
+export class KeyRotationManager {
+  private environmentFileParser: EnvironmentFileParser;
+  private environmentSecretFileManager: EnvironmentSecretFileManager;
+  private cryptoMetadataManager: CryptoMetadataManager;
+
+  constructor(
+    environmentFileParser: EnvironmentFileParser,
+    environmentSecretFileManager: EnvironmentSecretFileManager,
+    cryptoMetadataManager: CryptoMetadataManager,
+  ) {
+    this.environmentFileParser = environmentFileParser;
+    this.environmentSecretFileManager = environmentSecretFileManager;
+    this.cryptoMetadataManager = cryptoMetadataManager;
+  }
+
+  /**
+   * Rotates the secret key of an environment stage
+   * @param stage - The environment stage whose key is rotated
+   * @returns The previous and new key ids and the re-encrypted variables
+   */
+  public async rotateSecretKey(stage: EnvironmentStage): Promise<KeyRotationResult> {
+    const secretKeyVariable = SecretKeyPaths[stage];
+    const environmentFile = EnvironmentFilePaths[stage];
+
+    try {
+      const previousKey = await CryptoManager.getSecretKeyFromEnvironment(secretKeyVariable);
+      const previousKeyId = CryptoManager.getKeyId(previousKey);
+
+      const environmentFilePath = await this.environmentFileParser.resolveFilePath(
+        EnvironmentConstants.ENV_DIR,
+        environmentFile,
+      );
+      const environmentFileContent = await FileSystemManager.readFile(environmentFilePath);
+      const lines = environmentFileContent.split(/\r?\n/);
+
+      const encryptedVariables = Object.entries(
+        this.environmentFileParser.extractEnvironmentVariables(lines),
+      ).filter(([, value]) => CryptoManager.isEncrypted(value));
+
+      if (encryptedVariables.length === 0) {
+        logger.warn(`No encrypted variables found in ${environmentFile}; only the key is rotated`);
+      }
+
+      // Decrypt everything up front so a wrong or corrupted key aborts before anything is written
+      const plainValues: [string, string][] = [];
+      for (const [key, value] of encryptedVariables) {
+        plainValues.push([key, await CryptoService.decryptWithKey(value, previousKey)]);
+      }
+
+      const newKey = SecureKeyGenerator.generateBase64SecretKey();
+      const newKeyId = CryptoManager.getKeyId(newKey);
+
+      let updatedLines = lines;
+      for (const [key, plainValue] of plainValues) {
+        updatedLines = this.environmentFileParser.updateEnvironmentFileLines(
+          updatedLines,
+          key,
+          await CryptoService.encryptWithKey(plainValue, newKey),
+        );
+      }
+
+      const archiveEntry: KeyArchiveEntry = {
+        stage,
+        keyId: previousKeyId,
+        secretKeyVariable,
+        secretKey: previousKey,
+        environmentFile,
+        environmentFileContent,
+        archivedAt: new Date().toISOString(),
+      };
+      const archiveFile = await this.cryptoMetadataManager.archiveKey(archiveEntry);
+
+      try {
+        await FileSystemManager.writeFileAtomic(
+          environmentFilePath,
+          updatedLines.join('\n'),
+          environmentFile,
+        );
+        await this.storeSecretKey(secretKeyVariable, newKey);
+        await this.verifyEncryptedValues(updatedLines, plainValues, secretKeyVariable);
+      } catch (error) {
+        logger.error(`Key rotation for stage '${stage}' failed, restoring key ${previousKeyId}`);
+        await this.restoreArchive(archiveEntry);
+        throw error;
+      }
+
+      await this.recordRotation(stage, previousKeyId, newKeyId, archiveFile);
+
+      logger.info(
+        `Rotated ${secretKeyVariable} (${previousKeyId} -> ${newKeyId}) and re-encrypted ${plainValues.length} variables in ${environmentFile}`,
+      );
+
+      return {
+        stage,
+        previousKeyId,
+        newKeyId,
+        reEncryptedVariables: plainValues.map(([key]) => key),
+        archiveFile,
+      };
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'rotateSecretKey',
+        `Failed to rotate secret key for stage '${stage}'`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Restores the key and environment file archived by the most recent rotation
+   * @param stage - The environment stage to roll back
+   * @returns The id of the restored key
+   */
+  public async rollbackLastRotation(stage: EnvironmentStage): Promise<string> {
+    try {
+      const stageMetadata = await this.cryptoMetadataManager.getStageMetadata(stage);
+      const [lastRotatedKey, ...olderKeys] = stageMetadata?.previousKeys ?? [];
+
+      if (!stageMetadata || !lastRotatedKey?.archiveFile) {
+        ErrorHandler.logAndThrow(
+          `No archived key rotation found for stage '${stage}'`,
+          'rollbackLastRotation',
+        );
+      }
+
+      const archiveEntry = await this.cryptoMetadataManager.readArchive(lastRotatedKey.archiveFile);
+      await this.restoreArchive(archiveEntry);
+
+      await this.cryptoMetadataManager.saveStageMetadata(stage, {
+        ...stageMetadata,
+        currentKey: { keyId: lastRotatedKey.keyId, createdAt: lastRotatedKey.createdAt },
+        previousKeys: olderKeys,
+      });
+
+      logger.info(`Rolled back ${stageMetadata.secretKeyVariable} to key ${archiveEntry.keyId}`);
+      return archiveEntry.keyId;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'rollbackLastRotation',
+        `Failed to roll back key rotation for stage '${stage}'`,
+      );
+      throw error;
+    }
+  }
+
+  private async restoreArchive(archiveEntry: KeyArchiveEntry): Promise<void> {
+    const environmentFilePath = await this.environmentFileParser.resolveFilePath(
+      EnvironmentConstants.ENV_DIR,
+      archiveEntry.environmentFile,
+    );
+
+    await FileSystemManager.writeFileAtomic(
+      environmentFilePath,
+      archiveEntry.environmentFileContent,
+      archiveEntry.environmentFile,
+    );
+    await this.storeSecretKey(archiveEntry.secretKeyVariable, archiveEntry.secretKey);
+  }
+
+  private async storeSecretKey(secretKeyVariable: string, secretKey: string): Promise<void> {
+    const baseEnvFilePath = await this.environmentSecretFileManager.getBaseEnvironmentFilePath();
+    await this.environmentSecretFileManager.storeBaseEnvironmentKey(
+      baseEnvFilePath,
+      secretKeyVariable,
+      secretKey,
+    );
+  }
+
+  /**
+   * Confirms the written values decrypt with the key now stored in the base environment file
+   */
+  private async verifyEncryptedValues(
+    lines: string[],
+    plainValues: [string, string][],
+    secretKeyVariable: string,
+  ): Promise<void> {
+    const writtenVariables = this.environmentFileParser.extractEnvironmentVariables(lines);
+
+    for (const [key, plainValue] of plainValues) {
+      const decrypted = await CryptoService.decrypt(writtenVariables[key], secretKeyVariable);
+
+      if (decrypted !== plainValue) {
+        ErrorHandler.logAndThrow(
+          `Re-encrypted value of '${key}' does not match its original value`,
+          'verifyEncryptedValues',
+        );
+      }
+    }
+  }
+
+  private async recordRotation(
+    stage: EnvironmentStage,
+    previousKeyId: string,
+    newKeyId: string,
+    archiveFile: string,
+  ): Promise<void> {
+    const existing = await this.cryptoMetadataManager.getStageMetadata(stage);
+    const rotatedAt = new Date().toISOString();
+
+    const previousKey =
+      existing?.currentKey.keyId === previousKeyId
+        ? existing.currentKey
+        : { keyId: previousKeyId, createdAt: null };
+
+    const stageMetadata: StageKeyMetadata = {
+      secretKeyVariable: SecretKeyPaths[stage],
+      environmentFile: EnvironmentFilePaths[stage],
+      currentKey: { keyId: newKeyId, createdAt: rotatedAt },
+      previousKeys: [{ ...previousKey, rotatedAt, archiveFile }, ...(existing?.previousKeys ?? [])],
+    };
+
+    await this.cryptoMetadataManager.saveStageMetadata(stage, stageMetadata);
+  }
+}
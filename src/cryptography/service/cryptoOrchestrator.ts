@@ -1,17 +1,26 @@
 import { EncryptionManager } from '../manager/encryptionManager';
 import { EnvironmentSecretFileManager } from '../manager/environmentSecretFileManager';
+import { KeyRotationManager } from '../manager/keyRotationManager';
+import type { EnvironmentStage } from '../../config/environment/dotenv/types';
+import { KeyRotationResult } from '../../config/types/config/crypto-metadata.types';
+import { EncryptionMigrationResult } from '../../config/types/config/security.types';
+import { EnvironmentConstants } from '../../config/environment/dotenv/constants';
+import { EnvironmentFilePaths, SecretKeyPaths } from '../../config/environment/dotenv/mapping';
 import ErrorHandler from '../../utils/errors/errorHandler';
 
 export class CryptoOrchestrator {
   private encryptionManager: EncryptionManager;
   private environmentSecretFileManager: EnvironmentSecretFileManager;
+  private keyRotationManager: KeyRotationManager;
 
   constructor(
     encryptionManager: EncryptionManager,
     environmentSecretFileManager: EnvironmentSecretFileManager,
+    keyRotationManager: KeyRotationManager,
   ) {
     this.encryptionManager = encryptionManager;
     this.environmentSecretFileManager = environmentSecretFileManager;
+    this.keyRotationManager = keyRotationManager;
   }
 
   /**
@@ -76,4 +85,85 @@ export class CryptoOrchestrator {
       throw error;
     }
   }
+
+  /**
+   * Encrypts a value and stores it under a variable in a stage's environment file
+   */
+  public async setEncryptedEnvironmentVariable(
+    stage: EnvironmentStage,
+    envVariable: string,
+    value: string,
+  ): Promise<void> {
+    try {
+      await this.encryptionManager.setEncryptedVariable(
+        EnvironmentConstants.ENV_DIR,
+        EnvironmentFilePaths[stage],
+        SecretKeyPaths[stage],
+        envVariable,
+        value,
+      );
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'setEncryptedEnvironmentVariable',
+        `Failed to set encrypted variable '${envVariable}' for ${stage}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Upgrades the legacy ENC2 values in a stage's environment file to the versioned ENC3 format
+   */
+  public async migrateEncryptedEnvironmentFile(
+    stage: EnvironmentStage,
+  ): Promise<EncryptionMigrationResult> {
+    try {
+      return await this.encryptionManager.migrateEncryptedValues(
+        EnvironmentConstants.ENV_DIR,
+        EnvironmentFilePaths[stage],
+        SecretKeyPaths[stage],
+      );
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'migrateEncryptedEnvironmentFile',
+        `Failed to migrate encrypted values for ${stage}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the secret key of a stage with a new one and re-encrypts every encrypted value
+   * in its environment file. The old key is archived so the rotation can be rolled back.
+   */
+  public async rotateSecretKey(stage: EnvironmentStage): Promise<KeyRotationResult> {
+    try {
+      return await this.keyRotationManager.rotateSecretKey(stage);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'rotateSecretKey',
+        `Failed to rotate secret key for ${stage}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Restores the key and environment file replaced by the most recent rotation of a stage
+   */
+  public async rollbackSecretKeyRotation(stage: EnvironmentStage): Promise<string> {
+    try {
+      return await this.keyRotationManager.rollbackLastRotation(stage);
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'rollbackSecretKeyRotation',
+        `Failed to roll back secret key rotation for ${stage}`,
+      );
+      throw error;
+    }
+  }
 }
@@ -13,20 +13,35 @@ export class CryptoService {
         secretKeyVariable,
       );
 
-      // Step 2: Generate encryption components
+      // Step 2: Encrypt with the resolved key
+      return await this.encryptWithKey(value, secretKey);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'encrypt', 'Failed to encrypt with AES-GCM.');
+      throw error;
+    }
+  }
+
+  /**
+   * Encrypts a value with the given secret key instead of one loaded from the base environment file
+   */
+  public static async encryptWithKey(value: string, secretKey: string): Promise<string> {
+    CryptoManager.validateSecretKey(secretKey);
+    CryptoManager.validateInputs(value, secretKey, 'encrypt');
+
+    try {
       const { salt, webCryptoIv, encryptionKey, hmacKey } =
         await CryptoManager.generateEncryptionComponents(secretKey);
 
-      // Step 3: Create encrypted payload
       return await CryptoManager.createEncryptedPayload(
         value,
         salt,
         webCryptoIv,
         encryptionKey,
         hmacKey,
+        CryptoManager.createPayloadHeader(secretKey),
       );
     } catch (error) {
-      ErrorHandler.captureError(error, 'encrypt', 'Failed to encrypt with AES-GCM.');
+      ErrorHandler.captureError(error, 'encryptWithKey', 'Failed to encrypt with AES-GCM.');
       throw error;
     }
   }
@@ -50,25 +65,41 @@ export class CryptoService {
 
   public static async decrypt(encryptedData: string, secretKeyVariable: string): Promise<string> {
     const actualSecretKey = await CryptoManager.getSecretKeyFromEnvironment(secretKeyVariable);
-    CryptoManager.validateSecretKey(actualSecretKey);
-    CryptoManager.validateInputs(encryptedData, actualSecretKey, 'decrypt');
 
     try {
-      const { salt, iv, cipherText, receivedHmac } =
-        CryptoManager.parseEncryptedData(encryptedData);
+      return await this.decryptWithKey(encryptedData, actualSecretKey);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'decrypt', 'Failed to decrypt with AES-GCM.');
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts a value with the given secret key instead of one loaded from the base environment file
+   */
+  public static async decryptWithKey(encryptedData: string, secretKey: string): Promise<string> {
+    CryptoManager.validateSecretKey(secretKey);
+    CryptoManager.validateInputs(encryptedData, secretKey, 'decrypt');
+
+    try {
+      const payload = CryptoManager.parseEncryptedData(encryptedData);
+      const { salt, iv, cipherText, receivedHmac, rawHeader } = payload;
+
+      CryptoManager.validateKeyId(payload, secretKey);
 
       const { encryptionKey, hmacKey } = await CryptoManager.deriveKeysWithArgon2(
-        actualSecretKey,
+        secretKey,
         salt,
+        CryptoManager.getArgon2Parameters(payload),
       );
 
-      CryptoManager.verifyHMAC(salt, iv, cipherText, receivedHmac, hmacKey);
+      await CryptoManager.verifyHMAC(salt, iv, cipherText, receivedHmac, hmacKey, rawHeader);
 
       const decryptedBuffer = await CryptoManager.performDecryption(iv, encryptionKey, cipherText);
 
       return new TextDecoder().decode(new Uint8Array(decryptedBuffer));
     } catch (error) {
-      ErrorHandler.captureError(error, 'decrypt', 'Failed to decrypt with AES-GCM.');
+      ErrorHandler.captureError(error, 'decryptWithKey', 'Failed to decrypt with AES-GCM.');
       throw error;
     }
   }
@@ -1,182 +1,328 @@
-// import { Page, Response } from '@playwright/test';
-// import TestDataStoreManager from '../utils/dataStore/testDataStoreManager';
-// import { PreQualificationDataStore } from '../utils/dataStore/maps/preQualificationMapper';
-// import SanitizationConfig from '../utils/sanitization/sanitizationConfig';
-// import ErrorHandler from '../utils/errors/errorHandler';
-// import logger from '../utils/logging/loggerManager';
-
-// export class NetworkInterceptor {
-//   /*
-//    * NetworkInterceptor is a class responsible for intercepting network responses and capturing important values.
-//    *
-//    * Key Features:
-//    * - Captures network responses for specific JSON endpoints
-//    * - Stores captured values in a shared test data context
-//    * - Provides robust error handling and logging
-//    *
-//    * Best Practices:
-//    * - Create a new instance for each test to ensure test isolation
-//    * - Unique testId prevents data leakage between tests
-//    *
-//    * @example
-//    * const interceptor = new NetworkInterceptor(page, "uniqueTestId");
-//    */
-//   readonly page: Page;
-//   private testId: string;
-//   private responseValues: preQualificationUIDataTypes.InterceptorResponse = {
-//     preQualificationId: null,
-//     applicantId: null,
-//     coApplicantId: null,
-//     authorizationHeader: null,
-//   };
-
-//   constructor(page: Page, testId: string) {
-//     this.page = page;
-//     this.testId = testId;
-//     this.initialize();
-//     logger.info(`NetworkInterceptor initialized for test: ${testId}`);
-//   }
-
-//   /**
-//    * Initializes the NetworkInterceptor by adding a response event listener.
-//    * Binds the handleResponse method to ensure correct context.
-//    * @private
-//    */
-//   private initialize(): void {
-//     this.page.on('response', this.handleResponse.bind(this));
-//     logger.debug('Response event listener added to the page.');
-//   }
-
-//   /**
-//    * Handles response events, filtering for successful JSON responses.
-//    * Parses the response body and captures relevant values.
-//    * @param response - The network response to process
-//    * @private
-//    */
-//   private async handleResponse(response: Response): Promise<void> {
-//     try {
-//       // Early return for non-JSON 200 OK responses
-//       if (
-//         response.status() !== 200 ||
-//         !response.headers()['content-type']?.includes('application/json')
-//       ) {
-//         return;
-//       }
-
-//       const responseBody: preQualificationUIDataTypes.InterceptorResponseBody =
-//         await response.json();
-
-//       logger.debug(`Processing JSON response from: ${response.url()}`);
-
-//       this.captureValues(responseBody, response);
-//       await this.storeResponseValues(this.testId);
-//     } catch (error) {
-//       // Only log and rethrow if it's not a parsing or filtering error
-//       if (!(error instanceof Error && error.message.includes('JSON'))) {
-//         ErrorHandler.captureError(
-//           error,
-//           'handleResponse',
-//           `Failed to process response from ${response.url()}`,
-//         );
-//         throw error;
-//       }
-//     }
-//   }
-
-//   /**
-//    * Captures key values from the response body and response headers.
-//    * Uses defensive programming techniques to handle potential undefined values.
-//    * @param responseBody - Parsed response body
-//    * @param response - Original network response
-//    * @private
-//    */
-//   private captureValues(
-//     responseBody: preQualificationUIDataTypes.InterceptorResponseBody,
-//     response: Response,
-//   ): void {
-//     try {
-//       const { preQualificationId, applicants = [] } = responseBody;
-
-//       // More robust value capture with explicit fallback
-//       this.responseValues = {
-//         preQualificationId: preQualificationId ?? this.responseValues.preQualificationId,
-//         applicantId: applicants[0]?.applicantId ?? null,
-//         coApplicantId: applicants[1]?.applicantId ?? null,
-//         authorizationHeader: response.request().headers()['authorization'] ?? null,
-//       };
-
-//       // Sanitize by wrapping in an object with the key "authorization"
-//       const sanitizedAuth = SanitizationConfig.sanitizeData({
-//         authorization: this.responseValues.authorizationHeader,
-//       });
-
-//       const sanitizedResponse = {
-//         ...this.responseValues,
-//         authorizationHeader: sanitizedAuth.authorization, // Get masked value
-//       };
-
-//       logger.debug(`Captured values: ${JSON.stringify(sanitizedResponse, null, 2)}`);
-//     } catch (error) {
-//       ErrorHandler.captureError(
-//         error,
-//         'captureValues',
-//         `Failed to capture values from response: ${response.url()}`,
-//       );
-//       throw error;
-//     }
-//   }
-
-//   /**
-//    * Stores a single value in the shared test data store.
-//    * Provides granular logging and error handling for individual value storage.
-//    * @param key - The key to store the value under
-//    * @param value - The value to store
-//    * @param testId - The unique test identifier
-//    * @private
-//    */
-//   private async storeInterceptorData(
-//     key: keyof preQualificationUIDataTypes.InterceptorResponse,
-//     value: string | null,
-//     testId: string,
-//   ): Promise<void> {
-//     if (!value) {
-//       logger.warn(`${key} not captured and will not be stored.`);
-//       return;
-//     }
-
-//     try {
-//       TestDataStoreManager.setValue(PreQualificationDataStore.interceptorData, testId, key, value);
-//       logger.debug(`'${key}' stored successfully for test: ${testId}`);
-//     } catch (error) {
-//       ErrorHandler.captureError(error, 'storeValue', `Failed to store value for key: ${key}`);
-//       throw error;
-//     }
-//   }
-
-//   /**
-//    * Stores all captured response values in the shared test data store.
-//    * Provides comprehensive error handling for batch value storage.
-//    * @param testId - The unique test identifier
-//    * @private
-//    */
-//   private async storeResponseValues(testId: string): Promise<void> {
-//     try {
-//       const storagePromises = Object.entries(this.responseValues).map(([key, value]) =>
-//         this.storeInterceptorData(
-//           key as keyof preQualificationUIDataTypes.InterceptorResponse,
-//           value,
-//           testId,
-//         ),
-//       );
-
-//       await Promise.all(storagePromises);
-//     } catch (error) {
-//       ErrorHandler.captureError(
-//         error,
-//         'storeResponseValues',
-//         'Batch storage of response values failed',
-//       );
-//       throw error;
-//     }
-//   }
-// }
+import { Page, Response } from '@playwright/test';
+import {
+  CaptureRule,
+  CaptureTarget,
+  CapturedValues,
+} from '../config/types/network/network-interceptor.types';
+import { API_TIMEOUTS } from '../config/timeouts/timeout.config';
+import TestDataStoreManager from '../utils/dataStore/testDataStoreManager';
+import { InterceptorDataStore } from '../utils/dataStore/maps/interceptorMapper';
+import SanitizationConfig from '../utils/sanitization/sanitizationConfig';
+import ErrorHandler from '../utils/errors/errorHandler';
+import logger from '../utils/logging/loggerManager';
+
+export class NetworkInterceptor {
+  /*
+   * NetworkInterceptor captures values from network traffic based on declarative rules.
+   *
+   * Key Features:
+   * - Rules match responses by URL (glob or regex), HTTP method and status
+   * - Each rule maps JSON paths or header names to store keys
+   * - Captured values are stored in the TestDataStoreManager under the test id, backed by a
+   *   shared store every worker of the run can read
+   *
+   * Best Practices:
+   * - Create a new instance for each test to ensure test isolation
+   * - Unique testId prevents data leakage between tests
+   *
+   * @example
+   * const interceptor = new NetworkInterceptor(page, testInfo.testId, [
+   *   {
+   *     name: 'preQualification',
+   *     url: /\/api\/preQualifications$/,
+   *     method: 'POST',
+   *     captures: [
+   *       { source: 'responseBody', path: 'preQualificationId', storeAs: 'preQualificationId' },
+   *       { source: 'requestHeader', path: 'authorization', storeAs: 'authorizationHeader' },
+   *     ],
+   *   },
+   * ]);
+   * const id = await interceptor.waitForValue('preQualificationId');
+   */
+  readonly page: Page;
+  private readonly testId: string;
+  private readonly rules: CaptureRule[] = [];
+  private readonly pendingResponses = new Set<Promise<void>>();
+  private readonly responseListener = (response: Response) => this.trackResponse(response);
+
+  constructor(page: Page, testId: string, rules: CaptureRule[] = []) {
+    this.page = page;
+    this.testId = testId;
+    rules.forEach((rule) => this.addRule(rule));
+    this.initialize();
+    logger.info(`NetworkInterceptor initialized for test: ${testId}`);
+  }
+
+  /**
+   * Registers an additional capture rule. The `g` and `y` flags are dropped from a regex URL,
+   * as they would make `test()` resume from the previous match.
+   * @param rule - The rule to apply to subsequent responses
+   */
+  public addRule(rule: CaptureRule): void {
+    if (!rule.captures.length) {
+      ErrorHandler.logAndThrow(`Capture rule '${rule.name}' has no capture targets`, 'addRule');
+    }
+    this.rules.push(
+      rule.url instanceof RegExp
+        ? { ...rule, url: new RegExp(rule.url.source, rule.url.flags.replace(/[gy]/g, '')) }
+        : rule,
+    );
+    logger.debug(`Capture rule '${rule.name}' registered for test: ${this.testId}`);
+  }
+
+  /**
+   * Returns a captured value, or null when it has not been captured (yet)
+   * @param storeKey - The store key declared on the capture target
+   */
+  public async getCapturedValue(storeKey: string): Promise<string | number | null> {
+    if (
+      !(await TestDataStoreManager.hasField(
+        InterceptorDataStore.capturedValues,
+        this.testId,
+        storeKey,
+      ))
+    ) {
+      return null;
+    }
+    return TestDataStoreManager.getValue<string | number>(
+      InterceptorDataStore.capturedValues,
+      this.testId,
+      storeKey,
+    );
+  }
+
+  /**
+   * Waits until a value has been captured for the given store key
+   * @param storeKey - The store key declared on the capture target
+   * @param timeout - Maximum time to wait in milliseconds
+   * @returns The captured value
+   */
+  public async waitForValue(
+    storeKey: string,
+    timeout: number = API_TIMEOUTS.standard,
+  ): Promise<string | number> {
+    const deadline = Date.now() + timeout;
+
+    while (Date.now() < deadline) {
+      await this.flush();
+      const value = await this.getCapturedValue(storeKey);
+      if (value !== null) {
+        return value;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    return ErrorHandler.logAndThrow(
+      `Value '${storeKey}' was not captured within ${timeout}ms for test: ${this.testId}`,
+      'waitForValue',
+    );
+  }
+
+  /**
+   * Waits for all responses currently being processed
+   */
+  public async flush(): Promise<void> {
+    await Promise.all([...this.pendingResponses]);
+  }
+
+  /**
+   * Stops listening to responses and removes the captured values of this test
+   */
+  public async dispose(): Promise<void> {
+    this.page.off('response', this.responseListener);
+    await this.flush();
+    await TestDataStoreManager.removeTest(InterceptorDataStore.capturedValues, this.testId);
+    logger.debug(`NetworkInterceptor disposed for test: ${this.testId}`);
+  }
+
+  /**
+   * Initializes the NetworkInterceptor by adding a response event listener.
+   * @private
+   */
+  private initialize(): void {
+    this.page.on('response', this.responseListener);
+    logger.debug('Response event listener added to the page.');
+  }
+
+  /**
+   * Keeps track of in-flight response handling so callers can flush it
+   * @private
+   */
+  private trackResponse(response: Response): void {
+    const pending = this.handleResponse(response).finally(() =>
+      this.pendingResponses.delete(pending),
+    );
+    this.pendingResponses.add(pending);
+  }
+
+  /**
+   * Applies every matching rule to the response.
+   * Failures are logged but never thrown, as they would surface as unhandled rejections.
+   * @param response - The network response to process
+   * @private
+   */
+  private async handleResponse(response: Response): Promise<void> {
+    const matchingRules = this.rules.filter((rule) => this.isMatch(rule, response));
+
+    for (const rule of matchingRules) {
+      try {
+        logger.debug(`Capture rule '${rule.name}' matched response from: ${response.url()}`);
+        const values = await this.captureValues(rule, response);
+        await this.storeCapturedValues(values);
+      } catch (error) {
+        ErrorHandler.captureError(
+          error,
+          'handleResponse',
+          `Failed to apply capture rule '${rule.name}' to response from ${response.url()}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks a response against the URL, method and status filters of a rule
+   * @private
+   */
+  private isMatch(rule: CaptureRule, response: Response): boolean {
+    const url = response.url();
+    const urlMatches =
+      rule.url instanceof RegExp ? rule.url.test(url) : this.globToRegExp(rule.url).test(url);
+
+    if (!urlMatches) {
+      return false;
+    }
+
+    if (rule.method) {
+      const methods = Array.isArray(rule.method) ? rule.method : [rule.method];
+      const requestMethod = response.request().method().toUpperCase();
+      if (!methods.some((method) => method === requestMethod)) {
+        return false;
+      }
+    }
+
+    const status = response.status();
+    if (rule.status === undefined) {
+      return status >= 200 && status < 300;
+    }
+    return (Array.isArray(rule.status) ? rule.status : [rule.status]).includes(status);
+  }
+
+  /**
+   * Reads every capture target of a rule from the response
+   * @private
+   */
+  private async captureValues(rule: CaptureRule, response: Response): Promise<CapturedValues> {
+    const values: CapturedValues = {};
+    let responseBody: unknown;
+
+    for (const target of rule.captures) {
+      if (target.source === 'responseBody' && responseBody === undefined) {
+        responseBody = await response.json();
+      }
+      values[target.storeAs] = this.readTarget(target, response, responseBody);
+    }
+
+    logger.debug(
+      `Captured values for rule '${rule.name}': ${JSON.stringify(
+        SanitizationConfig.sanitizeData(values),
+        null,
+        2,
+      )}`,
+    );
+
+    return values;
+  }
+
+  /**
+   * Reads a single capture target, normalizing it to a storable value
+   * @private
+   */
+  private readTarget(
+    target: CaptureTarget,
+    response: Response,
+    responseBody: unknown,
+  ): string | number | null {
+    let value: unknown;
+
+    switch (target.source) {
+      case 'responseBody':
+        value = this.resolveJsonPath(responseBody, target.path);
+        break;
+      case 'responseHeader':
+        value = response.headers()[target.path.toLowerCase()];
+        break;
+      case 'requestHeader':
+        value = response.request().headers()[target.path.toLowerCase()];
+        break;
+    }
+
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (typeof value === 'string' || typeof value === 'number') {
+      return value;
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * Stores captured values in the shared test data store, skipping missing ones
+   * @private
+   */
+  private async storeCapturedValues(values: CapturedValues): Promise<void> {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === null) {
+        logger.warn(`${key} not captured and will not be stored.`);
+        continue;
+      }
+      await TestDataStoreManager.setValue(
+        InterceptorDataStore.capturedValues,
+        this.testId,
+        key,
+        value,
+      );
+    }
+  }
+
+  /**
+   * Resolves a dot/bracket JSON path such as `$.applicants[0].applicantId`
+   * @private
+   */
+  private resolveJsonPath(data: unknown, path: string): unknown {
+    const segments = path
+      .replace(/^\$\.?/, '')
+      .replace(/\[(\d+)\]/g, '.$1')
+      .split('.')
+      .filter(Boolean);
+
+    return segments.reduce<unknown>((current, segment) => {
+      if (current === null || typeof current !== 'object') {
+        return undefined;
+      }
+      return (current as Record<string, unknown>)[segment];
+    }, data);
+  }
+
+  /**
+   * Converts a URL glob into a regular expression
+   * - `**` matches any characters, `*` matches anything except `/`, `?` matches one character
+   * @private
+   */
+  private globToRegExp(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*' && glob[i + 1] === '*') {
+        pattern += '.*';
+        i++;
+      } else if (char === '*') {
+        pattern += '[^/]*';
+      } else if (char === '?') {
+        pattern += '.';
+      } else {
+        pattern += char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${pattern}$`);
+  }
+}
@@ -0,0 +1,87 @@
+import path from 'path';
+import type { FullConfig, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { ArtifactSanitizationSummary } from '../config/types/reporting/artifact-sanitizer.types';
+import FileSystemManager from '../utils/fileSystem/fileSystemManager';
+import logger from '../utils/logging/loggerManager';
+import ArtifactSanitizer from '../utils/sanitization/artifactSanitizer';
+
+const SANITIZED_EXTENSIONS = ['.zip', '.har', '.json'];
+
+/**
+ * Sanitizes trace, HAR and JSON attachments before they are published. Reporters end in the
+ * order they are configured, so list this one before the reporters that copy attachments.
+ */
+export default class ArtifactSanitizerReporter implements Reporter {
+  private readonly artifactPaths = new Set<string>();
+  private outputDirs: string[] = [];
+
+  public onBegin(config: FullConfig): void {
+    this.outputDirs = [...new Set(config.projects.map((project) => project.outputDir))];
+  }
+
+  public onTestEnd(_test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.path) {
+        if (SANITIZED_EXTENSIONS.includes(path.extname(attachment.path).toLowerCase())) {
+          this.artifactPaths.add(attachment.path);
+        }
+      } else if (attachment.body && attachment.contentType === 'application/json') {
+        try {
+          attachment.body = Buffer.from(
+            ArtifactSanitizer.sanitizeJson(attachment.body.toString('utf-8')),
+          );
+        } catch (error) {
+          logger.warn(`Failed to sanitize attachment '${attachment.name}': ${error}`);
+        }
+      }
+    }
+  }
+
+  public async onEnd(): Promise<void> {
+    for (const harPath of await this.findHarFiles()) {
+      this.artifactPaths.add(harPath);
+    }
+
+    const summary: ArtifactSanitizationSummary = { sanitized: [], failed: [] };
+    for (const artifactPath of this.artifactPaths) {
+      // Traces of passed tests are removed when retained on failure only
+      if (!(await FileSystemManager.doesFileExist(artifactPath))) continue;
+
+      try {
+        if (await ArtifactSanitizer.sanitizeFile(artifactPath)) {
+          summary.sanitized.push(artifactPath);
+        }
+      } catch {
+        summary.failed.push(artifactPath);
+      }
+    }
+
+    logger.info(`Sanitized ${summary.sanitized.length} test artifact(s)`);
+    if (summary.failed.length > 0) {
+      logger.warn(
+        `${summary.failed.length} artifact(s) could not be sanitized and may contain secrets: ` +
+          summary.failed.join(', '),
+      );
+    }
+  }
+
+  public printsToStdio(): boolean {
+    return false;
+  }
+
+  private async findHarFiles(): Promise<string[]> {
+    const harFiles: string[] = [];
+
+    for (const outputDir of this.outputDirs) {
+      if (!(await FileSystemManager.doesDirectoryExist(outputDir))) continue;
+
+      const listing = await FileSystemManager.listDirectoryContents(outputDir, { recursive: true });
+      harFiles.push(
+        ...(listing.data ?? [])
+          .filter((entry) => entry.isFile && entry.name.toLowerCase().endsWith('.har'))
+          .map((entry) => path.join(outputDir, entry.name)),
+      );
+    }
+    return harFiles;
+  }
+}
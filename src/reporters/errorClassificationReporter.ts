@@ -0,0 +1,175 @@
+import path from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { ErrorDetails } from '../config/types/errors/error-handler.types';
+import {
+  ClassifiedFailure,
+  ErrorClassificationReport,
+  ErrorClassificationReporterOptions,
+} from '../config/types/reporting/error-classification.types';
+import ErrorClassifier from '../utils/errors/errorClassifier';
+import FileSystemManager from '../utils/fileSystem/fileSystemManager';
+import logger from '../utils/logging/loggerManager';
+
+const DEFAULT_OUTPUT_DIR = 'error-report';
+
+/**
+ * Writes `error-classification.json` and `error-classification.html`, grouping the failed
+ * tests by the ErrorCategory of the error behind each failure and the page object or API path
+ * it happened on. The errors come from the attachment the `errorClassification` fixture adds
+ * to failed tests; failures without one are classified from the reported error.
+ */
+export default class ErrorClassificationReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly failedResults = new Map<string, { test: TestCase; result: TestResult }>();
+
+  constructor(options: ErrorClassificationReporterOptions = {}) {
+    this.outputDir = options.outputDir ?? DEFAULT_OUTPUT_DIR;
+  }
+
+  public onTestEnd(test: TestCase, result: TestResult): void {
+    // Only the last attempt counts: a retry that passes removes the failure
+    if (result.status !== 'skipped' && result.status !== test.expectedStatus) {
+      this.failedResults.set(test.id, { test, result });
+    } else {
+      this.failedResults.delete(test.id);
+    }
+  }
+
+  public async onEnd(): Promise<void> {
+    try {
+      const failures: ClassifiedFailure[] = [];
+      for (const { test, result } of this.failedResults.values()) {
+        failures.push(await this.classify(test, result));
+      }
+
+      const report: ErrorClassificationReport = {
+        generatedAt: new Date().toISOString(),
+        totalFailures: failures.length,
+        groups: ErrorClassifier.groupFailures(failures),
+        failures,
+      };
+
+      const jsonPath = path.join(this.outputDir, 'error-classification.json');
+      const htmlPath = path.join(this.outputDir, 'error-classification.html');
+      await FileSystemManager.writeFile(
+        jsonPath,
+        JSON.stringify(report, null, 2),
+        'errorClassification',
+      );
+      await FileSystemManager.writeFile(htmlPath, this.renderHtml(report), 'errorClassification');
+
+      if (report.groups.length > 0) {
+        logger.info(
+          `Error classification (${htmlPath}):\n` +
+            report.groups.map((group) => `  ${ErrorClassifier.describeGroup(group)}`).join('\n'),
+        );
+      }
+    } catch (error) {
+      logger.warn(`Failed to write the error classification report: ${error}`);
+    }
+  }
+
+  public printsToStdio(): boolean {
+    return false;
+  }
+
+  private async classify(test: TestCase, result: TestResult): Promise<ClassifiedFailure> {
+    const capturedErrors = await this.readCapturedErrors(result);
+    const failureMessage =
+      result.error?.message ?? result.error?.value ?? `Test ended with status ${result.status}`;
+    const location = result.error?.location;
+    const primary = ErrorClassifier.selectPrimaryError(
+      capturedErrors,
+      failureMessage,
+      location ? `${path.basename(location.file)}:${location.line}` : undefined,
+    );
+
+    return {
+      testId: test.id,
+      title: test.titlePath().slice(1).join(' > '),
+      file: path.relative(process.cwd(), test.location.file),
+      project: test.parent.project()?.name ?? '',
+      status: result.status,
+      retry: result.retry,
+      category: primary.category,
+      target: ErrorClassifier.getTarget(primary),
+      source: primary.source,
+      context: primary.context,
+      message: primary.message,
+      capturedErrors,
+    };
+  }
+
+  private async readCapturedErrors(result: TestResult): Promise<ErrorDetails[]> {
+    const attachment = result.attachments.find(
+      (candidate) => candidate.name === ErrorClassifier.ATTACHMENT_NAME,
+    );
+    if (!attachment) return [];
+
+    try {
+      const content = attachment.body
+        ? attachment.body.toString('utf-8')
+        : await FileSystemManager.readFile(attachment.path ?? '');
+      return JSON.parse(content) as ErrorDetails[];
+    } catch (error) {
+      logger.warn(`Failed to read the captured errors of a failed test: ${error}`);
+      return [];
+    }
+  }
+
+  private renderHtml(report: ErrorClassificationReport): string {
+    const escape = (value: unknown) =>
+      String(value ?? '').replace(
+        /[&<>"']/g,
+        (character) =>
+          ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[character]!,
+      );
+
+    const groupRows = report.groups
+      .map(
+        (group) =>
+          `<tr><td>${group.count}</td><td>${escape(group.categoryName)}</td>` +
+          `<td>${escape(group.target)}</td><td>${escape(group.sampleMessage)}</td>` +
+          `<td>${group.tests.map(escape).join('<br>')}</td></tr>`,
+      )
+      .join('\n');
+    const failureRows = report.failures
+      .map(
+        (failure) =>
+          `<tr><td>${escape(failure.title)}</td><td>${escape(failure.project)}</td>` +
+          `<td>${escape(ErrorClassifier.getCategoryName(failure.category))}</td>` +
+          `<td>${escape(failure.target)}</td><td>${escape(failure.source)}</td>` +
+          `<td>${escape(failure.context)}</td><td>${escape(failure.message)}</td></tr>`,
+      )
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Error classification</title>
+<style>
+  body { font-family: sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; margin-bottom: 2rem; width: 100%; }
+  th, td { border: 1px solid #ccc; padding: 0.4rem; text-align: left; vertical-align: top; }
+  th { background: #f0f0f0; }
+</style>
+</head>
+<body>
+<h1>Error classification</h1>
+<p>${report.totalFailures} failed test(s), generated ${escape(report.generatedAt)}</p>
+<h2>By category and target</h2>
+<table>
+<tr><th>Count</th><th>Category</th><th>Target</th><th>Sample message</th><th>Tests</th></tr>
+${groupRows}
+</table>
+<h2>Failed tests</h2>
+<table>
+<tr><th>Test</th><th>Project</th><th>Category</th><th>Target</th><th>Source</th><th>Context</th><th>Message</th></tr>
+${failureRows}
+</table>
+</body>
+</html>
+`;
+  }
+}
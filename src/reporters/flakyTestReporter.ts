@@ -0,0 +1,99 @@
+import path from 'path';
+import type { FullConfig, Reporter, Suite, TestCase } from '@playwright/test/reporter';
+import {
+  FlakyTestSummary,
+  FlakyTestSummaryEntry,
+  TestRunInput,
+  TestRunOutcome,
+} from '../config/types/reporting/flaky-test.types';
+import { PersistentTestDataStore } from '../testData/store/persistentTestDataStore';
+import FileSystemManager from '../utils/fileSystem/fileSystemManager';
+import FlakinessAnalyzer from '../utils/flakiness/flakinessAnalyzer';
+import { FLAKY_TEST_CONFIG } from '../utils/flakiness/flakyTest.config';
+import { FlakyTestHistory } from '../utils/flakiness/flakyTestHistory';
+import QuarantineList from '../utils/flakiness/quarantineList';
+import logger from '../utils/logging/loggerManager';
+
+const OUTCOMES: Partial<Record<ReturnType<TestCase['outcome']>, TestRunOutcome>> = {
+  expected: 'passed',
+  unexpected: 'failed',
+  flaky: 'flaky',
+};
+
+/**
+ * Records the final outcome of every test that ran in the flaky test history, and logs the
+ * tests that became flaky or stable with this run. The summary is also written to
+ * `summaryPath` for CI.
+ */
+export default class FlakyTestReporter implements Reporter {
+  private rootSuite?: Suite;
+
+  public onBegin(_config: FullConfig, suite: Suite): void {
+    this.rootSuite = suite;
+  }
+
+  public async onEnd(): Promise<void> {
+    const outcomes = (this.rootSuite?.allTests() ?? [])
+      .map((test) => this.toRunInput(test))
+      .filter((outcome): outcome is TestRunInput => outcome !== undefined);
+    if (outcomes.length === 0) return;
+
+    try {
+      const summary = await new FlakyTestHistory().record(
+        PersistentTestDataStore.getRunId(),
+        outcomes,
+      );
+      await FileSystemManager.writeFile(
+        FLAKY_TEST_CONFIG.summaryPath,
+        JSON.stringify(summary, null, 2),
+        'flakyTestSummary',
+      );
+      this.logSummary(summary);
+    } catch (error) {
+      logger.warn(`Failed to record the flaky test history: ${error}`);
+    }
+  }
+
+  public printsToStdio(): boolean {
+    return false;
+  }
+
+  private toRunInput(test: TestCase): TestRunInput | undefined {
+    const outcome = OUTCOMES[test.outcome()];
+    if (!outcome) return undefined;
+
+    // titlePath() is ['', project, file, ...describes, title]
+    return {
+      title: FlakinessAnalyzer.getTitle(test.titlePath().slice(2)),
+      file: path.relative(process.cwd(), test.location.file),
+      project: test.parent.project()?.name ?? '',
+      outcome,
+      retries: Math.max(0, test.results.length - 1),
+    };
+  }
+
+  private logSummary(summary: FlakyTestSummary): void {
+    const describe = (entries: FlakyTestSummaryEntry[]) =>
+      entries
+        .map((entry) => `  [${entry.project}] ${entry.title} (score ${entry.flakinessScore})`)
+        .join('\n');
+
+    if (summary.newlyFlaky.length > 0) {
+      logger.warn(`Newly flaky tests:\n${describe(summary.newlyFlaky)}`);
+    }
+    if (summary.newlyStable.length > 0) {
+      logger.info(`Newly stable tests:\n${describe(summary.newlyStable)}`);
+    }
+    const quarantined = QuarantineList.getEntries();
+    if (quarantined.length > 0) {
+      logger.warn(
+        `Quarantined tests marked as fixme:\n` +
+          quarantined.map((entry) => `  ${entry.title} (${entry.reason})`).join('\n'),
+      );
+    }
+    logger.info(
+      `${summary.flaky.length} flaky test(s) in the history. ` +
+        `Quarantine one by adding its title to ${FLAKY_TEST_CONFIG.quarantinePath}.`,
+    );
+  }
+}
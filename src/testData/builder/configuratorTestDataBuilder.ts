@@ -0,0 +1,190 @@
+import {
+  ConfiguratorEntityCreator,
+  CreatedBusinessUnitNode,
+  CreatedEntity,
+  CreatedTestDataGraph,
+  TestDataGraphPlan,
+  TestDataUserOptions,
+} from '../../config/types/data/test-data-builder.types';
+import { ConfiguratorEntityType } from '../../config/types/data/test-data-cleanup.types';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import {
+  Branch,
+  BusinessUnit,
+  Role,
+  SuperBusinessUnit,
+  User,
+} from '../../models/ui/configurator.interface';
+import { CustomError } from '../../utils/errors/customError';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
+import { TestDataCleanupRegistry } from '../cleanup/testDataCleanupRegistry';
+import { ConfiguratorDataGenerator } from '../testDataGenerator';
+
+/**
+ * Describes a SuperBusinessUnit -> BusinessUnit -> Branch/User tree and creates it in
+ * dependency order, wiring the parent ids into every child. Each entity is registered for
+ * cleanup as soon as it exists, so a tree that fails halfway is still removed.
+ *
+ * @example
+ * const tree = await given()
+ *   .superBusinessUnit()
+ *   .withBusinessUnits(2)
+ *   .eachWithBranches(3)
+ *   .andUser({ role: { permissions: ['Read'] } })
+ *   .create();
+ * tree.businessUnits[1].branches[2].id;
+ */
+export class ConfiguratorTestDataBuilder {
+  private readonly creator: ConfiguratorEntityCreator;
+  private readonly cleanup: TestDataCleanupRegistry;
+  private readonly dataGenerator: ConfiguratorDataGenerator;
+  private readonly plan: TestDataGraphPlan = {
+    businessUnitCount: 0,
+    branchesPerBusinessUnit: 0,
+    users: [],
+  };
+
+  constructor(
+    creator: ConfiguratorEntityCreator,
+    cleanup: TestDataCleanupRegistry,
+    dataGenerator: ConfiguratorDataGenerator = ConfiguratorDataGenerator.getInstance(),
+  ) {
+    this.creator = creator;
+    this.cleanup = cleanup;
+    this.dataGenerator = dataGenerator;
+  }
+
+  public superBusinessUnit(overrides: Partial<SuperBusinessUnit> = {}): this {
+    this.plan.superBusinessUnit = overrides;
+    return this;
+  }
+
+  public withBusinessUnits(count: number, overrides: Partial<BusinessUnit> = {}): this {
+    this.plan.businessUnitCount = count;
+    this.plan.businessUnit = overrides;
+    return this;
+  }
+
+  /**
+   * Creates the given number of branches under every business unit
+   */
+  public eachWithBranches(count: number, overrides: Partial<Branch> = {}): this {
+    this.plan.branchesPerBusinessUnit = count;
+    this.plan.branch = overrides;
+    return this;
+  }
+
+  /**
+   * Creates a user under every business unit. A role passed in the options is created
+   * once and shared by those users.
+   */
+  public andUser(options: TestDataUserOptions = {}): this {
+    this.plan.users.push(options);
+    return this;
+  }
+
+  /**
+   * Creates the planned tree
+   * @returns The created entities with their ids
+   * @throws CustomError when branches or users are planned without business units
+   */
+  public async create(): Promise<CreatedTestDataGraph> {
+    try {
+      this.validatePlan();
+
+      const roleIds: Array<string | undefined> = [];
+      const roles: CreatedEntity<Role>[] = [];
+      for (const userOptions of this.plan.users) {
+        if (userOptions.role) {
+          const role = await this.createEntity(
+            'role',
+            this.dataGenerator.generateRole(userOptions.role),
+          );
+          roles.push(role);
+          roleIds.push(role.id);
+        } else {
+          roleIds.push(userOptions.roleId);
+        }
+      }
+
+      const superBusinessUnit = await this.createEntity(
+        'superBusinessUnit',
+        this.dataGenerator.generateSuperBusinessUnit(this.plan.superBusinessUnit),
+      );
+
+      const businessUnits: CreatedBusinessUnitNode[] = [];
+      for (let index = 0; index < this.plan.businessUnitCount; index++) {
+        businessUnits.push(await this.createBusinessUnitNode(superBusinessUnit.id, roleIds));
+      }
+
+      logger.info(
+        `Created test data tree under super business unit '${superBusinessUnit.name}': ` +
+          `${businessUnits.length} business unit(s), ${this.plan.branchesPerBusinessUnit} branch(es) ` +
+          `and ${this.plan.users.length} user(s) each, ${roles.length} role(s)`,
+      );
+      return { superBusinessUnit, businessUnits, roles };
+    } catch (error) {
+      ErrorHandler.captureError(error, 'create', 'Failed to create the test data tree');
+      throw error;
+    }
+  }
+
+  private async createBusinessUnitNode(
+    superBusinessUnitId: string,
+    roleIds: Array<string | undefined>,
+  ): Promise<CreatedBusinessUnitNode> {
+    const businessUnit = await this.createEntity(
+      'businessUnit',
+      this.dataGenerator.generateBusinessUnit(superBusinessUnitId, this.plan.businessUnit),
+    );
+
+    const branches: CreatedEntity<Branch>[] = [];
+    for (let index = 0; index < this.plan.branchesPerBusinessUnit; index++) {
+      branches.push(
+        await this.createEntity(
+          'branch',
+          this.dataGenerator.generateBranch(businessUnit.id, this.plan.branch),
+        ),
+      );
+    }
+
+    const users: CreatedEntity<User>[] = [];
+    for (const [index, userOptions] of this.plan.users.entries()) {
+      users.push(
+        await this.createEntity(
+          'user',
+          this.dataGenerator.generateUser(businessUnit.id, roleIds[index], userOptions.overrides),
+        ),
+      );
+    }
+
+    return { businessUnit, branches, users };
+  }
+
+  private async createEntity<T extends { id?: string; name?: string }>(
+    entityType: ConfiguratorEntityType,
+    payload: T,
+  ): Promise<CreatedEntity<T>> {
+    const created = await this.creator.createEntity(entityType, payload);
+    const deleteEntity = this.creator.deleteEntity?.bind(this.creator);
+
+    await this.cleanup.register(entityType, created.id, {
+      name: created.name,
+      cleanup: deleteEntity ? () => deleteEntity(entityType, created.id) : undefined,
+    });
+    return created;
+  }
+
+  private validatePlan(): void {
+    const { businessUnitCount, branchesPerBusinessUnit, users } = this.plan;
+
+    if (businessUnitCount === 0 && (branchesPerBusinessUnit > 0 || users.length > 0)) {
+      throw new CustomError(
+        ErrorCategory.CONFIGURATION,
+        { branchesPerBusinessUnit, users: users.length },
+        'Branches and users need business units; call withBusinessUnits() first',
+      );
+    }
+  }
+}
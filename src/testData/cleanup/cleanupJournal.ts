@@ -0,0 +1,126 @@
+import path from 'path';
+import { CleanupEntry } from '../../config/types/data/test-data-cleanup.types';
+import FileSystemManager from '../../utils/fileSystem/fileSystemManager';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
+import { TestDataCleanupConstants } from './testDataCleanup.constants';
+
+/**
+ * Persists pending cleanup registrations so entities created by a crashed worker
+ * can still be swept in global teardown.
+ *
+ * Each worker process writes its own journal file, so no cross-process locking is needed.
+ */
+export default class CleanupJournal {
+  private static entries = new Map<string, CleanupEntry>();
+  private static writeQueue: Promise<void> = Promise.resolve();
+
+  public static async add(entry: CleanupEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+    await this.persist();
+  }
+
+  public static async remove(key: string): Promise<void> {
+    if (this.entries.delete(key)) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Reads the pending entries of every journal file, including those of crashed workers
+   * @param journalDirectory - The directory holding the journal files
+   * @returns The pending entries grouped by journal file path
+   */
+  public static async readAllJournals(
+    journalDirectory: string = TestDataCleanupConstants.DIRECTORY,
+  ): Promise<Map<string, CleanupEntry[]>> {
+    const journals = new Map<string, CleanupEntry[]>();
+    const directory = FileSystemManager.getDirectoryPath(journalDirectory);
+
+    if (!(await FileSystemManager.doesDirectoryExist(directory))) {
+      return journals;
+    }
+
+    try {
+      const listing = await FileSystemManager.listDirectoryContents(directory);
+      const journalFiles = (listing.data ?? []).filter(
+        (entry) =>
+          entry.isFile &&
+          entry.name.startsWith(TestDataCleanupConstants.JOURNAL_FILE_PREFIX) &&
+          entry.name.endsWith('.json'),
+      );
+
+      for (const file of journalFiles) {
+        const filePath = path.join(directory, file.name);
+        const content = await FileSystemManager.readFile(filePath);
+        journals.set(filePath, content.trim() ? (JSON.parse(content) as CleanupEntry[]) : []);
+      }
+
+      return journals;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'readAllJournals', 'Failed to read cleanup journals');
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the process that writes a journal file is still running, e.g. a worker of a
+   * parallel shard on the same machine. The teardown process's own journal counts as finished.
+   * @param filePath - A journal file path, named after the writer's pid
+   */
+  public static isWriterAlive(filePath: string): boolean {
+    const pid = Number(
+      path.basename(filePath, '.json').slice(TestDataCleanupConstants.JOURNAL_FILE_PREFIX.length),
+    );
+    if (!Number.isSafeInteger(pid) || pid <= 0 || pid === process.pid) {
+      return false;
+    }
+
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM: the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  /**
+   * Rewrites a journal file with the entries that are still pending, deleting it when empty
+   */
+  public static async rewriteJournal(filePath: string, entries: CleanupEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      await FileSystemManager.deleteFile(filePath);
+      return;
+    }
+    await FileSystemManager.writeFileAtomic(
+      filePath,
+      JSON.stringify(entries, null, 2),
+      'cleanupJournal',
+    );
+  }
+
+  /**
+   * Serializes writes so concurrent registrations never interleave
+   */
+  private static async persist(): Promise<void> {
+    const write = this.writeQueue.then(() => this.writeJournal());
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+  }
+
+  private static async writeJournal(): Promise<void> {
+    const filePath = FileSystemManager.getFilePath(
+      TestDataCleanupConstants.DIRECTORY,
+      `${TestDataCleanupConstants.JOURNAL_FILE_PREFIX}${process.pid}.json`,
+    );
+
+    try {
+      await this.rewriteJournal(filePath, [...this.entries.values()]);
+    } catch (error) {
+      // The journal is a safety net; failing to write it must not fail the test
+      logger.warn(`Failed to update cleanup journal ${filePath}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { ConfiguratorEntityType } from '../../config/types/data/test-data-cleanup.types';
+
+export enum TestDataCleanupConstants {
+  DIRECTORY = '.testData/cleanup',
+  JOURNAL_FILE_PREFIX = 'pending-',
+}
+
+/**
+ * Entity types ordered from parent to child; cleanup runs in the reverse order
+ * so children are always deleted before the entities they depend on.
+ */
+export const ENTITY_DEPENDENCY_ORDER: ConfiguratorEntityType[] = [
+  'role',
+  'vendorCode',
+  'superBusinessUnit',
+  'businessUnit',
+  'branch',
+  'user',
+];
@@ -0,0 +1,193 @@
+import {
+  CleanupCallback,
+  CleanupEntry,
+  CleanupResult,
+  CleanupScope,
+  ConfiguratorEntityType,
+} from '../../config/types/data/test-data-cleanup.types';
+import { ConfiguratorApiService } from '../../utils/api/configuratorApiService';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
+import CleanupJournal from './cleanupJournal';
+import { ENTITY_DEPENDENCY_ORDER, TestDataCleanupConstants } from './testDataCleanup.constants';
+
+interface CleanupRegistration {
+  entry: CleanupEntry;
+  sequence: number;
+  cleanup?: CleanupCallback;
+}
+
+/**
+ * Tracks entities created during a test (or worker) and deletes them on teardown.
+ *
+ * Entities are deleted in reverse dependency order (users before branches, branches before
+ * business units, ...) and, within the same type, in reverse creation order.
+ * Every registration is journaled until it has been cleaned up, so entities left behind by
+ * a crashed worker are removed by the global teardown sweep.
+ *
+ * @example
+ * const sbu = generator.generateSuperBusinessUnit();
+ * const created = await configuratorApiService.createEntity('superBusinessUnit', sbu);
+ * await testDataCleanup.register('superBusinessUnit', created.id, { name: created.name });
+ */
+export class TestDataCleanupRegistry {
+  private readonly scope: CleanupScope;
+  private readonly ownerId: string;
+  private readonly apiService?: ConfiguratorApiService;
+  private registrations: CleanupRegistration[] = [];
+  private sequence = 0;
+
+  /**
+   * @param scope - Whether the registry lives for a test or for a worker
+   * @param ownerId - The test id or worker index owning the registrations
+   * @param apiService - Used to delete entities registered without a cleanup callback
+   */
+  constructor(scope: CleanupScope, ownerId: string, apiService?: ConfiguratorApiService) {
+    this.scope = scope;
+    this.ownerId = ownerId;
+    this.apiService = apiService;
+  }
+
+  /**
+   * Registers a created entity for cleanup
+   * @param entityType - The configurator entity type
+   * @param id - The id of the created entity
+   * @param options - Optional display name and custom cleanup callback (e.g. a UI delete flow)
+   */
+  public async register(
+    entityType: ConfiguratorEntityType,
+    id: string,
+    options: { name?: string; cleanup?: CleanupCallback } = {},
+  ): Promise<void> {
+    if (!id) {
+      ErrorHandler.logAndThrow(
+        `Cannot register ${entityType} for cleanup without an id`,
+        'register',
+      );
+    }
+
+    const sequence = this.sequence++;
+    const entry: CleanupEntry = {
+      key: `${process.pid}-${this.ownerId}-${Date.now()}-${sequence}`,
+      entityType,
+      id,
+      name: options.name,
+      scope: this.scope,
+      ownerId: this.ownerId,
+      registeredAt: new Date().toISOString(),
+    };
+
+    this.registrations.push({ entry, sequence, cleanup: options.cleanup });
+    await CleanupJournal.add(entry);
+    logger.debug(`Registered ${entityType} '${options.name ?? id}' for ${this.scope} cleanup`);
+  }
+
+  /**
+   * Deletes every registered entity. Failures are logged and left in the journal
+   * for the global teardown sweep instead of failing the test.
+   */
+  public async runCleanup(): Promise<CleanupResult> {
+    const ordered = TestDataCleanupRegistry.sortForCleanup(this.registrations);
+    this.registrations = [];
+
+    const result: CleanupResult = { cleaned: 0, failed: [] };
+
+    for (const registration of ordered) {
+      const { entry } = registration;
+      try {
+        if (registration.cleanup) {
+          await registration.cleanup();
+        } else {
+          await this.getApiService().deleteEntity(entry.entityType, entry.id);
+        }
+        await CleanupJournal.remove(entry.key);
+        result.cleaned++;
+      } catch (error) {
+        result.failed.push({ entry, error: ErrorHandler.getErrorMessage(error) });
+      }
+    }
+
+    TestDataCleanupRegistry.logResult(result, `${this.scope} ${this.ownerId}`);
+    return result;
+  }
+
+  /**
+   * Deletes entities left in the journals of workers that did not finish their cleanup.
+   * Journals of workers still running, such as those of a parallel shard, are left alone.
+   * @param createApiService - Creates the service used for deletion; only called when
+   * there is something to sweep
+   * @param journalDirectory - The directory holding the journal files
+   */
+  public static async sweep(
+    createApiService: () => Promise<ConfiguratorApiService>,
+    journalDirectory: string = TestDataCleanupConstants.DIRECTORY,
+  ): Promise<CleanupResult> {
+    const result: CleanupResult = { cleaned: 0, failed: [] };
+    const journals = new Map(
+      [...(await CleanupJournal.readAllJournals(journalDirectory))].filter(
+        ([filePath]) => !CleanupJournal.isWriterAlive(filePath),
+      ),
+    );
+
+    if ([...journals.values()].every((entries) => entries.length === 0)) {
+      return result;
+    }
+
+    const apiService = await createApiService();
+
+    for (const [filePath, entries] of journals) {
+      const remaining: CleanupEntry[] = [];
+      const ordered = this.sortForCleanup(entries.map((entry, sequence) => ({ entry, sequence })));
+
+      for (const { entry } of ordered) {
+        try {
+          await apiService.deleteEntity(entry.entityType, entry.id);
+          result.cleaned++;
+        } catch (error) {
+          remaining.push(entry);
+          result.failed.push({ entry, error: ErrorHandler.getErrorMessage(error) });
+        }
+      }
+
+      await CleanupJournal.rewriteJournal(filePath, remaining);
+    }
+
+    this.logResult(result, 'global teardown sweep');
+    return result;
+  }
+
+  private getApiService(): ConfiguratorApiService {
+    if (!this.apiService) {
+      ErrorHandler.logAndThrow(
+        'No ConfiguratorApiService available; register the entity with a cleanup callback',
+        'getApiService',
+      );
+    }
+    return this.apiService;
+  }
+
+  /**
+   * Orders registrations children-first, newest-first within the same entity type
+   */
+  private static sortForCleanup<T extends { entry: CleanupEntry; sequence: number }>(
+    registrations: T[],
+  ): T[] {
+    return [...registrations].sort(
+      (a, b) =>
+        ENTITY_DEPENDENCY_ORDER.indexOf(b.entry.entityType) -
+          ENTITY_DEPENDENCY_ORDER.indexOf(a.entry.entityType) || b.sequence - a.sequence,
+    );
+  }
+
+  private static logResult(result: CleanupResult, owner: string): void {
+    if (result.cleaned > 0) {
+      logger.info(`Cleaned up ${result.cleaned} test data entities for ${owner}`);
+    }
+
+    for (const { entry, error } of result.failed) {
+      logger.warn(
+        `Failed to clean up ${entry.entityType} '${entry.name ?? entry.id}' for ${owner}: ${error}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { NegativeTestMatrixDefinition } from '../../config/types/data/negative-test.types';
+import {
+  Branch,
+  BusinessUnit,
+  Role,
+  SuperBusinessUnit,
+  User,
+  VendorCode,
+} from '../../models/ui/configurator.interface';
+import { ConfiguratorDataGenerator } from '../testDataGenerator';
+
+const dataGenerator = ConfiguratorDataGenerator.getInstance();
+
+// Badly formatted values are taken from the generateInvalid* data
+const invalidPhone =
+  dataGenerator.generateInvalidSuperBusinessUnit('cellphoneNumber').cellphoneNumber;
+const invalidEmail = dataGenerator.generateInvalidBusinessUnit('emailAddress').emailAddress;
+
+/**
+ * Negative test matrices of the configurator entities, used with describeNegativeMatrix.
+ * Update the rules and maximum lengths to match your application's validation.
+ */
+export const SUPER_BUSINESS_UNIT_NEGATIVE_MATRIX: NegativeTestMatrixDefinition<SuperBusinessUnit> =
+  {
+    entityType: 'superBusinessUnit',
+    generateValid: () => dataGenerator.generateSuperBusinessUnit(),
+    fields: {
+      name: { rules: ['empty', 'tooLong'], maxLength: 100 },
+      contactName: { rules: ['empty', 'tooLong'], maxLength: 50 },
+      contactSurname: { rules: ['empty', 'tooLong'], maxLength: 50 },
+      cellphoneNumber: { rules: ['empty', 'badFormat'], badFormatValue: invalidPhone },
+      emailAddress: { rules: ['empty', 'badFormat'], badFormatValue: invalidEmail },
+    },
+  };
+
+export const BUSINESS_UNIT_NEGATIVE_MATRIX: NegativeTestMatrixDefinition<BusinessUnit> = {
+  entityType: 'businessUnit',
+  generateValid: () => dataGenerator.generateBusinessUnit(),
+  fields: {
+    name: { rules: ['empty', 'tooLong'], maxLength: 100 },
+    contactName: { rules: ['empty', 'tooLong'], maxLength: 50 },
+    contactNumber: { rules: ['badFormat'], badFormatValue: invalidPhone },
+    emailAddress: { rules: ['empty', 'badFormat'], badFormatValue: invalidEmail },
+  },
+};
+
+export const BRANCH_NEGATIVE_MATRIX: NegativeTestMatrixDefinition<Branch> = {
+  entityType: 'branch',
+  generateValid: () => dataGenerator.generateBranch(),
+  fields: {
+    name: { rules: ['empty', 'tooLong'], maxLength: 100 },
+    region: { rules: ['empty'] },
+  },
+};
+
+export const VENDOR_CODE_NEGATIVE_MATRIX: NegativeTestMatrixDefinition<VendorCode> = {
+  entityType: 'vendorCode',
+  generateValid: () => dataGenerator.generateVendorCode(),
+  fields: {
+    code: { rules: ['empty', 'tooLong'], maxLength: 20 },
+    description: { rules: ['empty', 'tooLong'], maxLength: 100 },
+    bankName: { rules: ['empty'] },
+  },
+};
+
+export const USER_NEGATIVE_MATRIX: NegativeTestMatrixDefinition<User> = {
+  entityType: 'user',
+  generateValid: () => dataGenerator.generateUser(),
+  fields: {
+    userName: { rules: ['empty', 'tooLong'], maxLength: 50 },
+    userSurname: { rules: ['empty', 'tooLong'], maxLength: 50 },
+    cellphoneNumber: { rules: ['empty', 'badFormat'], badFormatValue: invalidPhone },
+    emailAddress: { rules: ['empty', 'badFormat'], badFormatValue: invalidEmail },
+    product: { rules: ['empty'] },
+  },
+};
+
+export const ROLE_NEGATIVE_MATRIX: NegativeTestMatrixDefinition<Role> = {
+  entityType: 'role',
+  generateValid: () => dataGenerator.generateRole(),
+  fields: {
+    description: { rules: ['empty', 'tooLong'], maxLength: 100 },
+    permissions: { rules: ['empty'] },
+  },
+};
@@ -0,0 +1,136 @@
+import * as configuratorTestData from '../configurator.json';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import {
+  InvalidValueRule,
+  NegativeFieldRules,
+  NegativeTestCase,
+  NegativeTestMatrixDefinition,
+} from '../../config/types/data/negative-test.types';
+import { FormControlType, FormFieldMap } from '../../config/types/ui/form.types';
+import { CustomError } from '../../utils/errors/customError';
+import { ConfiguratorDataGenerator } from '../testDataGenerator';
+
+export const DEFAULT_NEGATIVE_STATUS_CODES = [400, 422];
+
+// Controls set by picking an option; there is no option to pick for an empty value
+const OPTION_CONTROL_TYPES: FormControlType[] = ['select', 'autocomplete'];
+
+/**
+ * Expands a negative test matrix into one case per invalid field and rule. Every payload
+ * starts from freshly generated valid data, so only the field under test is invalid.
+ */
+export default class NegativeTestMatrix {
+  /**
+   * Returns the cases of a matrix in field order
+   * @param matrix - The invalid fields of an entity, e.g. BRANCH_NEGATIVE_MATRIX
+   * @throws CustomError when a tooLong rule has no maxLength or a badFormat rule has no value
+   */
+  public static expand<T>(matrix: NegativeTestMatrixDefinition<T>): NegativeTestCase<T>[] {
+    const fields = Object.entries(matrix.fields) as [keyof T & string, NegativeFieldRules][];
+
+    return fields.flatMap(([field, fieldRules]) =>
+      fieldRules.rules.map((rule) => this.createCase(matrix, field, fieldRules, rule)),
+    );
+  }
+
+  /**
+   * Returns the payload of a case as it is entered into a form. An empty select or
+   * autocomplete field is left out, so it keeps the empty selection of the new form.
+   * @param testCase - A case returned by expand
+   * @param fields - The form fields of the entity, e.g. BRANCH_FORM_FIELDS
+   */
+  public static getFormPayload<T>(
+    testCase: NegativeTestCase<T>,
+    fields: FormFieldMap<T>,
+  ): Partial<T> {
+    const fieldType = fields[testCase.field]?.type;
+    if (testCase.rule !== 'empty' || !fieldType || !OPTION_CONTROL_TYPES.includes(fieldType)) {
+      return testCase.payload;
+    }
+
+    const payload = { ...testCase.payload };
+    delete payload[testCase.field];
+    return payload;
+  }
+
+  private static createCase<T>(
+    matrix: NegativeTestMatrixDefinition<T>,
+    field: keyof T & string,
+    fieldRules: NegativeFieldRules,
+    rule: InvalidValueRule,
+  ): NegativeTestCase<T> {
+    const validData = matrix.generateValid();
+
+    return {
+      title: `${matrix.entityType} rejects ${this.describeRule(rule)} ${field}`,
+      entityType: matrix.entityType,
+      field,
+      rule,
+      payload: {
+        ...validData,
+        [field]: this.getInvalidValue(matrix, field, fieldRules, rule, validData[field]),
+      },
+      expectedMessage: fieldRules.messages?.[rule] ?? this.getDefaultMessage(field, rule),
+      expectedStatusCodes: matrix.expectedStatusCodes ?? DEFAULT_NEGATIVE_STATUS_CODES,
+    };
+  }
+
+  private static getInvalidValue<T>(
+    matrix: NegativeTestMatrixDefinition<T>,
+    field: keyof T & string,
+    fieldRules: NegativeFieldRules,
+    rule: InvalidValueRule,
+    validValue: unknown,
+  ): unknown {
+    switch (rule) {
+      case 'empty':
+        return Array.isArray(validValue) ? [] : '';
+
+      case 'tooLong':
+        if (!fieldRules.maxLength) {
+          throw this.configurationError(matrix, field, rule, 'maxLength is required');
+        }
+        return ConfiguratorDataGenerator.getInstance().generateRandomString(
+          fieldRules.maxLength + 1,
+        );
+
+      case 'badFormat':
+        if (!fieldRules.badFormatValue) {
+          throw this.configurationError(matrix, field, rule, 'badFormatValue is required');
+        }
+        return fieldRules.badFormatValue;
+    }
+  }
+
+  private static getDefaultMessage(field: string, rule: InvalidValueRule): string {
+    const messages = configuratorTestData.validationMessages;
+
+    switch (rule) {
+      case 'empty':
+        return messages.requiredField;
+      case 'tooLong':
+        return messages.maxLength;
+      case 'badFormat':
+        return field.toLowerCase().includes('email')
+          ? messages.invalidEmail
+          : messages.invalidFormat;
+    }
+  }
+
+  private static describeRule(rule: InvalidValueRule): string {
+    return { empty: 'empty', tooLong: 'too long', badFormat: 'badly formatted' }[rule];
+  }
+
+  private static configurationError<T>(
+    matrix: NegativeTestMatrixDefinition<T>,
+    field: string,
+    rule: InvalidValueRule,
+    reason: string,
+  ): CustomError {
+    return new CustomError(
+      ErrorCategory.CONFIGURATION,
+      { entityType: matrix.entityType, field, rule },
+      `Negative test matrix for ${matrix.entityType}.${field} (${rule}): ${reason}`,
+    );
+  }
+}
@@ -0,0 +1,27 @@
+export enum TestDataRandomConstants {
+  SEED_ANNOTATION = 'test-data-seed',
+  EMAIL_DOMAIN = 'testautomation.com',
+}
+
+/**
+ * Prefixes of South African mobile numbers (Vodacom, MTN, Cell C and Telkom ranges)
+ */
+export const SA_MOBILE_PREFIXES = [
+  '060',
+  '061',
+  '062',
+  '063',
+  '064',
+  '065',
+  '071',
+  '072',
+  '073',
+  '074',
+  '076',
+  '078',
+  '079',
+  '081',
+  '082',
+  '083',
+  '084',
+];
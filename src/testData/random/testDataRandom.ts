@@ -0,0 +1,131 @@
+import { Faker, base, en, en_ZA } from '@faker-js/faker';
+import { randomInt } from 'crypto';
+import ENV from '../../config/environment/variables/variables';
+import { Address } from '../../config/types/data/test-data-random.types';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { CustomError } from '../../utils/errors/customError';
+import { SA_MOBILE_PREFIXES } from './testDataRandom.constants';
+
+/**
+ * The single source of randomness for test data generators and page objects. All values
+ * come from one seeded faker instance with the en_ZA locale.
+ *
+ * The run seed is read from TEST_DATA_SEED or generated once per run. Each test reseeds
+ * with a seed derived from the run seed and its test id, so a test gets the same data on
+ * any worker and in any order, and a run is replayed by setting TEST_DATA_SEED to its seed.
+ */
+export default class TestDataRandom {
+  private static readonly faker = new Faker({ locale: [en_ZA, en, base] });
+  private static runSeed?: number;
+  private static currentSeed?: number;
+  private static uniqueCounter = 0;
+
+  /**
+   * Returns the shared faker instance, seeded with the run seed on first use
+   */
+  public static getFaker(): Faker {
+    if (this.currentSeed === undefined) {
+      this.useSeed(this.getRunSeed());
+    }
+    return this.faker;
+  }
+
+  /**
+   * Returns the seed of this run: TEST_DATA_SEED when set, otherwise a seed generated once
+   * @throws CustomError when TEST_DATA_SEED is not a positive integer
+   */
+  public static getRunSeed(): number {
+    if (this.runSeed === undefined) {
+      this.runSeed = ENV.TEST_DATA_SEED
+        ? this.parseSeed(ENV.TEST_DATA_SEED)
+        : randomInt(1, 2 ** 31 - 1);
+    }
+    return this.runSeed;
+  }
+
+  /**
+   * Reseeds faker with a seed derived from the run seed and a key, e.g. a test id
+   * @returns The derived seed
+   */
+  public static seedFor(key: string): number {
+    const seed = this.deriveSeed(`${this.getRunSeed()}:${key}`);
+    this.useSeed(seed);
+    return seed;
+  }
+
+  public static useSeed(seed: number): void {
+    this.faker.seed(seed);
+    this.currentSeed = seed;
+  }
+
+  public static getCurrentSeed(): number | undefined {
+    return this.currentSeed;
+  }
+
+  public static pick<T>(items: readonly T[]): T {
+    return this.getFaker().helpers.arrayElement(items);
+  }
+
+  public static pickMany<T>(items: readonly T[], min: number, max: number): T[] {
+    return this.getFaker().helpers.arrayElements(items, { min, max: Math.min(max, items.length) });
+  }
+
+  public static fromCharacters(characters: string, length: number): string {
+    return this.getFaker().string.fromCharacters(characters, length);
+  }
+
+  public static numericString(length: number): string {
+    return this.getFaker().string.numeric({ length, allowLeadingZeros: true });
+  }
+
+  /**
+   * Returns a suffix that differs on every call, retry and replay, as it does not come from
+   * the seeded sequence. Combine it with seeded values that the system under test requires
+   * to be unique, such as entity names and emails.
+   */
+  public static uniqueSuffix(): string {
+    return `${Date.now().toString(36)}${(this.uniqueCounter++).toString(36)}`;
+  }
+
+  /**
+   * Returns a 10 digit South African mobile number, e.g. 0821234567
+   */
+  public static mobileNumber(): string {
+    return `${this.pick(SA_MOBILE_PREFIXES)}${this.numericString(7)}`;
+  }
+
+  public static address(): Address {
+    const location = this.getFaker().location;
+
+    return {
+      streetAddress: location.streetAddress(),
+      city: location.city(),
+      province: location.state(),
+      postalCode: location.zipCode('####'),
+    };
+  }
+
+  private static parseSeed(value: string): number {
+    const seed = Number(value);
+
+    if (!Number.isSafeInteger(seed) || seed <= 0) {
+      throw new CustomError(
+        ErrorCategory.CONFIGURATION,
+        { TEST_DATA_SEED: value },
+        `TEST_DATA_SEED must be a positive integer, received: ${value}`,
+      );
+    }
+    return seed;
+  }
+
+  // 32-bit FNV-1a hash
+  private static deriveSeed(key: string): number {
+    let hash = 0x811c9dc5;
+
+    for (let index = 0; index < key.length; index++) {
+      hash ^= key.charCodeAt(index);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
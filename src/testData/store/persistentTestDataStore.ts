@@ -0,0 +1,225 @@
+import path from 'path';
+import ENV from '../../config/environment/variables/variables';
+import {
+  ConfiguratorTestDataSections,
+  StoredTestDataRecord,
+  TestDataQuery,
+  TestDataSections,
+  TestDataStoreConfig,
+  TestDataStoreNamespace,
+} from '../../config/types/data/persistent-test-data.types';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { CustomError } from '../../utils/errors/customError';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import FileLock from '../../utils/fileSystem/fileLock';
+import FileSystemManager from '../../utils/fileSystem/fileSystemManager';
+import logger from '../../utils/logging/loggerManager';
+import { TEST_DATA_STORE_CONFIG } from './testDataStore.config';
+
+/**
+ * Persists values created by tests (e.g. entity names) so later tests and runs can find them.
+ *
+ * Values are written to `<directory>/<runId>/<workerId>.json`, so each worker appends to its
+ * own file. Writes replace the file atomically behind a lock file; a lock left by a crashed
+ * worker is broken once it is older than the configured stale age. Reads merge every file.
+ *
+ * @example
+ * await testDataStore.save('branches', branch.name);
+ * const branchName = await testDataStore.getLatest('branches', { runId: testDataStore.runId });
+ */
+export class PersistentTestDataStore<S extends TestDataSections<S> = ConfiguratorTestDataSections> {
+  private static generatedRunId?: string;
+
+  private readonly namespace: TestDataStoreNamespace;
+  private readonly config: TestDataStoreConfig;
+
+  constructor(
+    namespace: Partial<TestDataStoreNamespace> = {},
+    config: TestDataStoreConfig = TEST_DATA_STORE_CONFIG,
+  ) {
+    this.namespace = {
+      runId: namespace.runId ?? PersistentTestDataStore.getRunId(),
+      workerId: namespace.workerId ?? `worker-${process.env.TEST_WORKER_INDEX ?? 'main'}`,
+      testId: namespace.testId,
+    };
+    this.config = config;
+  }
+
+  /**
+   * Returns the id of this run: TEST_RUN_ID when set, otherwise an id generated once
+   */
+  public static getRunId(): string {
+    if (ENV.TEST_RUN_ID) {
+      return ENV.TEST_RUN_ID;
+    }
+    this.generatedRunId ??= `run-${new Date().toISOString().replace(/[:.]/g, '-')}-${process.pid}`;
+    return this.generatedRunId;
+  }
+
+  /**
+   * Deletes the data of runs last written longer ago than the retention period
+   * @returns The ids of the deleted runs
+   */
+  public static async prune(
+    config: TestDataStoreConfig = TEST_DATA_STORE_CONFIG,
+  ): Promise<string[]> {
+    const directory = FileSystemManager.getDirectoryPath(config.directory);
+
+    if (!(await FileSystemManager.doesDirectoryExist(directory))) {
+      return [];
+    }
+
+    try {
+      const listing = await FileSystemManager.listDirectoryContents(directory, {
+        includeStats: true,
+      });
+      const expiredRuns = (listing.data ?? []).filter(
+        (entry) =>
+          entry.isDirectory && Date.now() - (entry.stats?.mtimeMs ?? 0) > config.retentionMs,
+      );
+
+      for (const run of expiredRuns) {
+        await FileSystemManager.deleteDirectory(path.join(directory, run.name));
+      }
+
+      if (expiredRuns.length > 0) {
+        logger.info(`Pruned test data of ${expiredRuns.length} run(s) from ${config.directory}`);
+      }
+      return expiredRuns.map((run) => run.name);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'prune', 'Failed to prune the test data store');
+      throw error;
+    }
+  }
+
+  public get runId(): string {
+    return this.namespace.runId;
+  }
+
+  /**
+   * Appends a value to a section
+   * @param section - The section to append to, e.g. 'branches'
+   * @param value - The value to persist
+   */
+  public async save<K extends keyof S & string>(
+    section: K,
+    value: S[K],
+  ): Promise<StoredTestDataRecord<S[K]>> {
+    const record: StoredTestDataRecord<S[K]> = {
+      section,
+      value,
+      ...this.namespace,
+      createdAt: new Date().toISOString(),
+    };
+    const filePath = this.getWorkerFilePath();
+
+    try {
+      await FileLock.withLock(
+        `${filePath}.lock`,
+        async () => {
+          const records = await this.readRecordFile(filePath);
+          records.push(record);
+          await FileSystemManager.writeFileAtomic(
+            filePath,
+            JSON.stringify(records, null, 2),
+            'testDataStore',
+          );
+        },
+        this.config.lock,
+      );
+
+      logger.debug(`Saved test data to '${section}' for ${this.namespace.workerId}`);
+      return record;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'save', `Failed to save test data to section: ${section}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the records of a section, oldest first
+   * @param section - The section to read
+   * @param query - Restricts the records to a run, worker, test or maximum age
+   */
+  public async query<K extends keyof S & string>(
+    section: K,
+    query: TestDataQuery = {},
+  ): Promise<StoredTestDataRecord<S[K]>[]> {
+    try {
+      const records = await this.readAllRecords(query.runId);
+      const createdAfter = query.maxAgeMs !== undefined ? Date.now() - query.maxAgeMs : undefined;
+
+      return records
+        .filter(
+          (record) =>
+            record.section === section &&
+            (!query.workerId || record.workerId === query.workerId) &&
+            (!query.testId || record.testId === query.testId) &&
+            (createdAfter === undefined || Date.parse(record.createdAt) >= createdAfter),
+        )
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt)) as StoredTestDataRecord<S[K]>[];
+    } catch (error) {
+      ErrorHandler.captureError(error, 'query', `Failed to query test data section: ${section}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the most recently saved value of a section
+   * @throws CustomError when no value matches
+   */
+  public async getLatest<K extends keyof S & string>(
+    section: K,
+    query: TestDataQuery = {},
+  ): Promise<S[K]> {
+    const records = await this.query(section, query);
+
+    if (records.length === 0) {
+      throw new CustomError(
+        ErrorCategory.NOT_FOUND,
+        { section, query },
+        `No test data found in section '${section}' for query: ${JSON.stringify(query)}`,
+      );
+    }
+    return records[records.length - 1].value;
+  }
+
+  private getWorkerFilePath(): string {
+    return path.join(
+      FileSystemManager.getDirectoryPath(this.config.directory),
+      this.namespace.runId,
+      `${this.namespace.workerId}.json`,
+    );
+  }
+
+  private async readAllRecords(runId?: string): Promise<StoredTestDataRecord<unknown>[]> {
+    const directory = FileSystemManager.getDirectoryPath(this.config.directory);
+    const runDirectory = runId ? path.join(directory, runId) : directory;
+
+    if (!(await FileSystemManager.doesDirectoryExist(runDirectory))) {
+      return [];
+    }
+
+    const listing = await FileSystemManager.listDirectoryContents(runDirectory, {
+      recursive: !runId,
+    });
+    const recordFiles = (listing.data ?? []).filter(
+      (entry) => entry.isFile && entry.name.endsWith('.json'),
+    );
+
+    const records: StoredTestDataRecord<unknown>[] = [];
+    for (const file of recordFiles) {
+      records.push(...(await this.readRecordFile(path.join(runDirectory, file.name))));
+    }
+    return records;
+  }
+
+  private async readRecordFile(filePath: string): Promise<StoredTestDataRecord<unknown>[]> {
+    if (!(await FileSystemManager.doesFileExist(filePath))) {
+      return [];
+    }
+
+    const content = await FileSystemManager.readFile(filePath);
+    return content.trim() ? (JSON.parse(content) as StoredTestDataRecord<unknown>[]) : [];
+  }
+}
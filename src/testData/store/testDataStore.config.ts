@@ -0,0 +1,14 @@
+import { TEST_DATA_TIMEOUTS } from '../../config/timeouts/timeout.config';
+import { TestDataStoreConfig } from '../../config/types/data/persistent-test-data.types';
+
+/**
+ * Location, locking and retention of the persistent test data store
+ */
+export const TEST_DATA_STORE_CONFIG: TestDataStoreConfig = {
+  directory: '.testData/store',
+  lock: {
+    timeoutMs: TEST_DATA_TIMEOUTS.lockAcquisition,
+    staleMs: TEST_DATA_TIMEOUTS.staleLock,
+  },
+  retentionMs: 7 * 24 * 60 * 60_000,
+};
@@ -5,6 +5,9 @@ import { Branch } from '../models/ui/configurator.interface';
 import { User } from '../models/ui/configurator.interface';
 import { Role } from '../models/ui/configurator.interface';
 import { VendorCode } from '../models/ui/configurator.interface';
+import { Address } from '../config/types/data/test-data-random.types';
+import TestDataRandom from './random/testDataRandom';
+import { TestDataRandomConstants } from './random/testDataRandom.constants';
 
 export class ConfiguratorDataGenerator {
   private static instance: ConfiguratorDataGenerator;
@@ -20,28 +23,32 @@ export class ConfiguratorDataGenerator {
   }
 
   /**
-   * Generate a unique identifier with prefix
+   * Generate a unique identifier with prefix; the seeded part repeats with the seed and the
+   * suffix keeps retries and replays from reusing an existing name
    */
   generateUniqueIdentifier(prefix: string = 'TEST'): string {
-    const timestamp = Date.now();
-    const random = Math.floor(Math.random() * 1000);
-    return `${prefix}_${timestamp}_${random}`;
+    return `${prefix}_${TestDataRandom.numericString(6)}_${TestDataRandom.uniqueSuffix()}`;
   }
 
   /**
-   * Generate a valid email address
+   * Generate a valid email address, unique across retries and replays like the identifiers
    */
   generateValidEmail(prefix: string = 'test'): string {
-    const timestamp = Date.now();
-    return `${prefix}.${timestamp}@testautomation.com`;
+    return `${prefix}.${TestDataRandom.numericString(6)}.${TestDataRandom.uniqueSuffix()}@${TestDataRandomConstants.EMAIL_DOMAIN}`;
   }
 
   /**
-   * Generate a valid phone number
+   * Generate a valid South African mobile number, e.g. 0821234567
    */
   generateValidPhoneNumber(): string {
-    const randomNumber = Math.floor(Math.random() * 90000000) + 10000000;
-    return `082${randomNumber.toString().substring(0, 7)}`;
+    return TestDataRandom.mobileNumber();
+  }
+
+  /**
+   * Generate a South African street address
+   */
+  generateAddress(): Address {
+    return TestDataRandom.address();
   }
 
   /**
@@ -50,13 +57,8 @@ export class ConfiguratorDataGenerator {
    * @returns A random string of the given length.
    */
   generateRandomString(length: number): string {
-    let result = '';
     const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
-    const charactersLength = characters.length;
-    for (let i = 0; i < length; i++) {
-      result += characters.charAt(Math.floor(Math.random() * charactersLength));
-    }
-    return result;
+    return TestDataRandom.fromCharacters(characters, length);
   }
 
   /**
@@ -64,12 +66,12 @@ export class ConfiguratorDataGenerator {
    */
   generateSuperBusinessUnit(overrides: Partial<SuperBusinessUnit> = {}): SuperBusinessUnit {
     const uniqueId = this.generateUniqueIdentifier('SBU');
-    const randomString = this.generateRandomString(5);
+    const person = TestDataRandom.getFaker().person;
 
     const defaultData: SuperBusinessUnit = {
       name: `Auto${uniqueId}`,
-      contactName: `AutoContact${randomString}`,
-      contactSurname: `AutoSurname${randomString}`,
+      contactName: person.firstName(),
+      contactSurname: person.lastName(),
       cellphoneNumber: this.generateValidPhoneNumber(),
       emailAddress: this.generateValidEmail(`contact${this.counter}`),
       status: 'Active',
@@ -89,14 +91,15 @@ export class ConfiguratorDataGenerator {
     const uniqueId = this.generateUniqueIdentifier('BU');
     const regions = configuratorTestData.businessUnits.regions;
     const affiliations = configuratorTestData.businessUnits.externalAffiliations;
+    const person = TestDataRandom.getFaker().person;
 
     const defaultData: BusinessUnit = {
       superBusinessUnitId,
       name: `Auto${uniqueId}`,
-      region: regions[Math.floor(Math.random() * regions.length)],
-      externalAffiliation: affiliations[Math.floor(Math.random() * affiliations.length)],
-      contactName: `BUContact${this.counter}`,
-      contactSurname: `BUSurname${this.counter}`,
+      region: TestDataRandom.pick(regions),
+      externalAffiliation: TestDataRandom.pick(affiliations),
+      contactName: person.firstName(),
+      contactSurname: person.lastName(),
       contactNumber: this.generateValidPhoneNumber(),
       emailAddress: this.generateValidEmail(`bucontact${this.counter}`),
       status: 'Active',
@@ -116,7 +119,7 @@ export class ConfiguratorDataGenerator {
     const defaultData: Branch = {
       businessUnitId,
       name: `AutoBranch${uniqueId}`,
-      region: regions[Math.floor(Math.random() * regions.length)],
+      region: TestDataRandom.pick(regions),
       bankCodes: {
         absa: `ABSA${this.counter.toString().padStart(3, '0')}`,
         fnbMORetail: `FNB${this.counter.toString().padStart(3, '0')}`,
@@ -142,11 +145,9 @@ export class ConfiguratorDataGenerator {
     const bankNames = configuratorTestData.vendorCodes.bankNames;
 
     const defaultData: VendorCode = {
-      code: `AutoVC${Math.floor(Math.random() * 1000000)
-        .toString()
-        .padStart(3, '0')}`,
+      code: `AutoVC${TestDataRandom.numericString(6)}`,
       description: `AutoVendorCode${uniqueId}`,
-      bankName: bankNames[Math.floor(Math.random() * bankNames.length)],
+      bankName: TestDataRandom.pick(bankNames),
       status: 'Active',
     };
 
@@ -168,7 +169,7 @@ export class ConfiguratorDataGenerator {
       cellphoneNumber: this.generateValidPhoneNumber(),
       emailAddress: this.generateValidEmail(`testuser${this.counter}`),
       roleId,
-      product: products[Math.floor(Math.random() * products.length)],
+      product: TestDataRandom.pick(products),
       linkedBranches: [],
       status: 'Active',
     };
@@ -185,16 +186,7 @@ export class ConfiguratorDataGenerator {
     const availablePermissions = configuratorTestData.roles.availablePermissions;
 
     // Select random permissions (at least 1, at most 5)
-    const numPermissions = Math.floor(Math.random() * 5) + 1;
-    const selectedPermissions: string[] = [];
-
-    for (let i = 0; i < numPermissions; i++) {
-      const permission =
-        availablePermissions[Math.floor(Math.random() * availablePermissions.length)];
-      if (!selectedPermissions.includes(permission)) {
-        selectedPermissions.push(permission);
-      }
-    }
+    const selectedPermissions = TestDataRandom.pickMany(availablePermissions, 1, 5);
 
     const defaultData: Role = {
       description: `Auto${uniqueId}`,
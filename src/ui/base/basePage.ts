@@ -8,6 +8,12 @@ import * as fs from 'fs';
 import ErrorHandler from '../../utils/errors/errorHandler';
 import logger from '../../utils/logging/loggerManager';
 import { RetryHandler } from '../../config/retry/retryConfig';
+import TestDataRandom from '../../testData/random/testDataRandom';
+import {
+  FormFieldDefinition,
+  FormFieldMap,
+  FormFieldValue,
+} from '../../config/types/ui/form.types';
 
 export default class BasePage {
   public readonly page: Page;
@@ -26,7 +32,7 @@ export default class BasePage {
       if (successMessage) logger.info(successMessage);
       return result;
     } catch (error) {
-      ErrorHandler.captureError(error, 'performAction', errorMessage);
+      ErrorHandler.captureError(error, `${this.constructor.name}.performAction`, errorMessage);
       throw error;
     }
   }
@@ -147,18 +153,8 @@ export default class BasePage {
     elementName?: string,
     options?: { force?: boolean },
   ) {
-    // Get the current sanitization config
-    const sanitizationConfig = SanitizationConfig.getDefaultParams();
-
-    // Check if the element name contains any sensitive key
-    const isSensitiveField =
-      elementName &&
-      sanitizationConfig.sensitiveKeys.some((key: string) =>
-        elementName.toLowerCase().includes(key.toLowerCase()),
-      );
-
     // Prepare the log message, masking value if sensitive
-    const logValue = isSensitiveField ? sanitizationConfig.maskValue : value;
+    const logValue = this.getLoggableValue(value, elementName);
     const logMessage = `${elementName} filled successfully with value: ${logValue}`;
 
     await this.performAction(
@@ -943,12 +939,20 @@ export default class BasePage {
   }
 
   /**
-   * Take a screenshot of the current page.
+   * Returns the fields masked in screenshots, e.g. password inputs. Override in page objects
+   * that show sensitive values.
+   */
+  getSensitiveLocators(): Locator[] {
+    return [];
+  }
+
+  /**
+   * Take a screenshot of the current page. Fields from getSensitiveLocators() are masked.
    * @returns A promise that resolves with a Buffer containing the screenshot.
    */
   async takeScreenshot(screenshotName: string = 'unnamed'): Promise<Buffer> {
     return this.performAction(
-      () => this.page.screenshot(),
+      () => this.page.screenshot({ mask: this.getSensitiveLocators() }),
       `Screenshot of ${screenshotName} taken`,
       `Error taking screenshot "${screenshotName}"`,
     );
@@ -1024,9 +1028,7 @@ export default class BasePage {
     }
 
     // Generate the random string
-    const randomPart = Array.from({ length }, () =>
-      chars.charAt(Math.floor(Math.random() * chars.length)),
-    ).join('');
+    const randomPart = TestDataRandom.fromCharacters(chars, length);
 
     // Add prefix and suffix if provided
     return `${config.prefix}${randomPart}${config.suffix}`;
@@ -1240,4 +1242,190 @@ export default class BasePage {
       throw error;
     }
   }
+
+  /**
+   * Forms
+   * Fills a form from a model, field by field in the order of the field map. Properties that
+   * are undefined in the model or have no field are skipped.
+   * @param model The values to enter, e.g. an object from `ConfiguratorDataGenerator.generateBranch()`
+   * @param fields Maps model properties to form controls (see configuratorForm.config.ts)
+   * @param formName Name of the form used in the logs
+   * @param root Resolves the field selectors inside this element, e.g. a dialog (optional)
+   */
+  async fillForm<T>(
+    model: Partial<T>,
+    fields: FormFieldMap<T>,
+    formName: string = 'Form',
+    root?: Locator,
+  ): Promise<void> {
+    try {
+      for (const [key, field] of this.getFormFields(fields)) {
+        const value = model[key] as FormFieldValue | undefined;
+        if (value === undefined || value === null) continue;
+
+        const label = field.label ?? String(key);
+        await this.performAction(
+          () => this.setFormFieldValue(this.resolveFormField(field, root), field, value),
+          `${formName} ${label} set to: ${this.getLoggableValue(value, label, field.sensitive)}`,
+          `Failed to set ${formName} ${label}`,
+        );
+      }
+    } catch (error) {
+      ErrorHandler.captureError(error, 'fillForm', `Failed to fill ${formName}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the current values of a form into a model
+   * @param fields Maps model properties to form controls
+   * @param formName Name of the form used in the logs
+   * @param root Resolves the field selectors inside this element (optional)
+   * @returns The values of the mapped properties; dates are returned as entered text
+   */
+  async readForm<T>(
+    fields: FormFieldMap<T>,
+    formName: string = 'Form',
+    root?: Locator,
+  ): Promise<Partial<T>> {
+    return this.performAction(
+      async () => {
+        const model: Partial<Record<keyof T, FormFieldValue>> = {};
+
+        for (const [key, field] of this.getFormFields(fields)) {
+          model[key] = await this.getFormFieldValue(this.resolveFormField(field, root), field);
+        }
+
+        const loggableModel = Object.fromEntries(
+          this.getFormFields(fields).map(([key, field]) => [
+            key,
+            this.getLoggableValue(model[key], field.label ?? String(key), field.sensitive),
+          ]),
+        );
+        logger.debug(`${formName} values: ${JSON.stringify(loggableModel)}`);
+        return model as Partial<T>;
+      },
+      `Read ${formName}`,
+      `Failed to read ${formName}`,
+    );
+  }
+
+  /**
+   * Returns the value to log for a field: masked when the field name contains a sensitive key
+   * defined in SanitizationConfig, or when the field is marked sensitive
+   */
+  protected getLoggableValue(value: unknown, fieldName?: string, isSensitive = false): string {
+    const sanitizationConfig = SanitizationConfig.getDefaultParams();
+    const isSensitiveField =
+      isSensitive ||
+      (!!fieldName &&
+        sanitizationConfig.sensitiveKeys.some((key: string) =>
+          fieldName.toLowerCase().includes(key.toLowerCase()),
+        ));
+
+    if (isSensitiveField) return sanitizationConfig.maskValue;
+    if (value instanceof Date) return value.toISOString();
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+
+  private getFormFields<T>(fields: FormFieldMap<T>): [keyof T, FormFieldDefinition][] {
+    return (Object.entries(fields) as [keyof T, FormFieldDefinition | undefined][]).filter(
+      (entry): entry is [keyof T, FormFieldDefinition] => entry[1] !== undefined,
+    );
+  }
+
+  private resolveFormField(field: FormFieldDefinition, root?: Locator): Locator {
+    return (root ?? this.page).locator(field.selector).first();
+  }
+
+  private async setFormFieldValue(
+    element: Locator,
+    field: FormFieldDefinition,
+    value: FormFieldValue,
+  ): Promise<void> {
+    switch (field.type) {
+      case 'text':
+        await element.fill(String(value));
+        break;
+
+      case 'date':
+        await element.fill(
+          value instanceof Date
+            ? (field.formatDate?.(value) ?? value.toISOString().slice(0, 10))
+            : String(value),
+        );
+        break;
+
+      case 'select':
+        if (await this.isNativeSelect(element)) {
+          await element.selectOption({ label: String(value) });
+        } else {
+          await element.click();
+          await this.page.getByRole('option', { name: String(value), exact: true }).click();
+        }
+        break;
+
+      case 'checkbox':
+        await element.setChecked(Boolean(value), { force: true });
+        break;
+
+      case 'checkboxGroup': {
+        const labels = Array.isArray(value) ? value : [String(value)];
+        const checkboxes = element.getByRole('checkbox');
+
+        for (const checkbox of await checkboxes.all()) {
+          const checkboxLabel = await this.getCheckboxLabel(checkbox);
+          await checkbox.setChecked(labels.includes(checkboxLabel), { force: true });
+        }
+        break;
+      }
+
+      case 'autocomplete':
+        for (const item of Array.isArray(value) ? value : [String(value)]) {
+          await element.fill(item);
+          await this.page.getByRole('option', { name: item }).first().click();
+        }
+        break;
+    }
+  }
+
+  private async getFormFieldValue(
+    element: Locator,
+    field: FormFieldDefinition,
+  ): Promise<FormFieldValue> {
+    switch (field.type) {
+      case 'select':
+        return (await this.isNativeSelect(element))
+          ? (await element.locator('option:checked').innerText()).trim()
+          : (await element.innerText()).trim();
+
+      case 'checkbox':
+        return element.isChecked();
+
+      case 'checkboxGroup': {
+        const checkedLabels: string[] = [];
+        for (const checkbox of await element.getByRole('checkbox').all()) {
+          if (await checkbox.isChecked()) {
+            checkedLabels.push(await this.getCheckboxLabel(checkbox));
+          }
+        }
+        return checkedLabels;
+      }
+
+      default:
+        return element.inputValue();
+    }
+  }
+
+  private async isNativeSelect(element: Locator): Promise<boolean> {
+    return (await element.evaluate((node) => node.tagName)) === 'SELECT';
+  }
+
+  private async getCheckboxLabel(checkbox: Locator): Promise<string> {
+    return checkbox.evaluate((node) => {
+      const input = node as HTMLInputElement;
+      const label = input.labels?.[0]?.innerText ?? node.getAttribute('aria-label') ?? input.value;
+      return label.trim();
+    });
+  }
 }
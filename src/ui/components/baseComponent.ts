@@ -0,0 +1,46 @@
+import { Locator, Page } from '@playwright/test';
+import BasePage from '../base/basePage';
+import { ComponentState } from '../../config/types/ui/component.types';
+
+/**
+ * Base class for reusable UI components. A component wraps the root Locator of one widget
+ * (a table, dialog, field, ...) and resolves its parts inside that root, so the same
+ * component class can be composed into any page object. Interactions go through BasePage,
+ * which keeps the logging, masking and error handling of page objects.
+ */
+export default abstract class BaseComponent {
+  public readonly root: Locator;
+  public readonly name: string;
+  protected readonly page: Page;
+  protected readonly basePage: BasePage;
+
+  constructor(root: Locator, name: string) {
+    this.root = root;
+    this.name = name;
+    this.page = root.page();
+    this.basePage = new BasePage(this.page);
+  }
+
+  /**
+   * Verifies the state of the component root
+   * @param state The expected state: 'enabled', 'disabled', 'visible' or 'hidden'
+   */
+  async verifyState(state: ComponentState): Promise<void> {
+    await this.basePage.verifyElementState(this.root, state, this.name);
+  }
+
+  /**
+   * Checks if the component is currently visible without waiting
+   */
+  async isVisible(): Promise<boolean> {
+    return this.basePage.isElementVisible(this.root, this.name);
+  }
+
+  protected performAction<T>(
+    action: () => Promise<T>,
+    successMessage?: string,
+    errorMessage?: string,
+  ): Promise<T> {
+    return this.basePage.performAction(action, successMessage, errorMessage);
+  }
+}
@@ -0,0 +1,121 @@
+import { FormFieldMap } from '../../config/types/ui/form.types';
+import {
+  Branch,
+  BusinessUnit,
+  Role,
+  SuperBusinessUnit,
+  User,
+  VendorCode,
+} from '../../models/ui/configurator.interface';
+
+/**
+ * Field maps of the configurator forms, used with BasePage.fillForm/readForm and the
+ * objects returned by ConfiguratorDataGenerator. Update the selectors to match your application.
+ */
+export const SUPER_BUSINESS_UNIT_FORM_FIELDS: FormFieldMap<SuperBusinessUnit> = {
+  name: { selector: '[formcontrolname="name"]', type: 'text', label: 'Name' },
+  contactName: { selector: '[formcontrolname="contactName"]', type: 'text', label: 'Contact Name' },
+  contactSurname: {
+    selector: '[formcontrolname="contactSurname"]',
+    type: 'text',
+    label: 'Contact Surname',
+  },
+  cellphoneNumber: {
+    selector: '[formcontrolname="cellphoneNumber"]',
+    type: 'text',
+    label: 'Cellphone Number',
+  },
+  emailAddress: {
+    selector: '[formcontrolname="emailAddress"]',
+    type: 'text',
+    label: 'Email Address',
+  },
+  status: { selector: '[formcontrolname="status"]', type: 'select', label: 'Status' },
+};
+
+export const BUSINESS_UNIT_FORM_FIELDS: FormFieldMap<BusinessUnit> = {
+  name: { selector: '[formcontrolname="name"]', type: 'text', label: 'Name' },
+  region: { selector: '[formcontrolname="region"]', type: 'select', label: 'Region' },
+  externalAffiliation: {
+    selector: '[formcontrolname="externalAffiliation"]',
+    type: 'text',
+    label: 'External Affiliation',
+  },
+  contactName: { selector: '[formcontrolname="contactName"]', type: 'text', label: 'Contact Name' },
+  contactSurname: {
+    selector: '[formcontrolname="contactSurname"]',
+    type: 'text',
+    label: 'Contact Surname',
+  },
+  contactNumber: {
+    selector: '[formcontrolname="contactNumber"]',
+    type: 'text',
+    label: 'Contact Number',
+  },
+  emailAddress: {
+    selector: '[formcontrolname="emailAddress"]',
+    type: 'text',
+    label: 'Email Address',
+  },
+  status: { selector: '[formcontrolname="status"]', type: 'select', label: 'Status' },
+  deactivationReason: {
+    selector: '[formcontrolname="deactivationReason"]',
+    type: 'text',
+    label: 'Deactivation Reason',
+  },
+};
+
+export const BRANCH_FORM_FIELDS: FormFieldMap<Branch> = {
+  name: { selector: '[formcontrolname="name"]', type: 'text', label: 'Name' },
+  region: { selector: '[formcontrolname="region"]', type: 'select', label: 'Region' },
+  status: { selector: '[formcontrolname="status"]', type: 'select', label: 'Status' },
+};
+
+export const VENDOR_CODE_FORM_FIELDS: FormFieldMap<VendorCode> = {
+  code: { selector: '[formcontrolname="code"]', type: 'text', label: 'Code' },
+  description: { selector: '[formcontrolname="description"]', type: 'text', label: 'Description' },
+  bankName: { selector: '[formcontrolname="bankName"]', type: 'select', label: 'Bank Name' },
+  retailCodeDescription: {
+    selector: '[formcontrolname="retailCodeDescription"]',
+    type: 'text',
+    label: 'Retail Code Description',
+  },
+  channelDescription: {
+    selector: '[formcontrolname="channelDescription"]',
+    type: 'text',
+    label: 'Channel Description',
+  },
+  status: { selector: '[formcontrolname="status"]', type: 'select', label: 'Status' },
+};
+
+export const USER_FORM_FIELDS: FormFieldMap<User> = {
+  userName: { selector: '[formcontrolname="userName"]', type: 'text', label: 'Name' },
+  userSurname: { selector: '[formcontrolname="userSurname"]', type: 'text', label: 'Surname' },
+  cellphoneNumber: {
+    selector: '[formcontrolname="cellphoneNumber"]',
+    type: 'text',
+    label: 'Cellphone Number',
+  },
+  emailAddress: {
+    selector: '[formcontrolname="emailAddress"]',
+    type: 'text',
+    label: 'Email Address',
+  },
+  product: { selector: '[formcontrolname="product"]', type: 'select', label: 'Product' },
+  linkedBranches: {
+    selector: '[formcontrolname="linkedBranches"] input',
+    type: 'autocomplete',
+    label: 'Linked Branches',
+  },
+  status: { selector: '[formcontrolname="status"]', type: 'select', label: 'Status' },
+};
+
+export const ROLE_FORM_FIELDS: FormFieldMap<Role> = {
+  description: { selector: '[formcontrolname="description"]', type: 'text', label: 'Description' },
+  permissions: {
+    selector: '[formcontrolname="permissions"]',
+    type: 'checkboxGroup',
+    label: 'Permissions',
+  },
+  status: { selector: '[formcontrolname="status"]', type: 'select', label: 'Status' },
+};
@@ -0,0 +1,69 @@
+import { TableColumnMap } from '../../config/types/ui/component.types';
+import {
+  Branch,
+  BusinessUnit,
+  Role,
+  SuperBusinessUnit,
+  User,
+  VendorCode,
+} from '../../models/ui/configurator.interface';
+
+/**
+ * Column maps of the configurator tables, used with DataTable.readRows/findRow/verifyRow.
+ * Update the header texts to match your application; `tableHeaders` in configurator.json
+ * lists the full header row for DataTable.verifyHeaders.
+ */
+export const SUPER_BUSINESS_UNIT_TABLE_COLUMNS: TableColumnMap<SuperBusinessUnit> = {
+  name: 'Name',
+  contactName: 'Contact Name',
+  contactSurname: 'Contact Surname',
+  cellphoneNumber: 'Cellphone Number',
+  emailAddress: 'Email Address',
+  status: 'Status',
+};
+
+export const BUSINESS_UNIT_TABLE_COLUMNS: TableColumnMap<BusinessUnit> = {
+  name: 'Name',
+  region: 'Region',
+  externalAffiliation: 'External Affiliation',
+  contactName: 'Contact Name',
+  contactSurname: 'Contact Surname',
+  contactNumber: 'Contact Number',
+  emailAddress: 'Email Address',
+  status: 'Status',
+};
+
+export const BRANCH_TABLE_COLUMNS: TableColumnMap<Branch> = {
+  name: 'Name',
+  region: 'Region',
+  status: 'Status',
+};
+
+export const VENDOR_CODE_TABLE_COLUMNS: TableColumnMap<VendorCode> = {
+  code: 'Code',
+  description: 'Description',
+  bankName: 'Bank Name',
+  status: 'Status',
+};
+
+export const USER_TABLE_COLUMNS: TableColumnMap<User> = {
+  userName: 'Name',
+  userSurname: 'Surname',
+  cellphoneNumber: 'Cellphone Number',
+  emailAddress: 'Email Address',
+  product: 'Product',
+  status: 'Status',
+};
+
+export const ROLE_TABLE_COLUMNS: TableColumnMap<Role> = {
+  description: 'Description',
+  permissions: {
+    header: 'Permissions',
+    parse: (cellText) =>
+      cellText
+        .split(',')
+        .map((permission) => permission.trim())
+        .filter(Boolean),
+  },
+  status: 'Status',
+};
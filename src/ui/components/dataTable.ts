@@ -0,0 +1,393 @@
+import { Locator, expect } from '@playwright/test';
+import BaseComponent from './baseComponent';
+import { FormField } from './formField';
+import { Paginator } from './paginator';
+import {
+  DataTableSelectors,
+  SortDirection,
+  TableColumn,
+  TableColumnMap,
+} from '../../config/types/ui/component.types';
+import { CustomError } from '../../utils/errors/customError';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+
+const DEFAULT_SELECTORS: DataTableSelectors = {
+  headerCell: 'thead th, [role="columnheader"]',
+  // Rows spanning every column (colspan) are the "No records found" empty state
+  row: 'tbody tr:not(:has(td[colspan])), [role="row"]:has([role="cell"], [role="gridcell"])',
+  cell: 'td, [role="cell"], [role="gridcell"]',
+  emptyState: '.no-data, .mat-mdc-no-data-row, [data-testid="empty-state"]',
+  loadingIndicator: 'mat-progress-bar, mat-spinner, .loading, [aria-busy="true"]',
+};
+
+const DEFAULT_MAX_PAGES = 50;
+
+/**
+ * A data table or grid. Columns are addressed by their header text, so page objects do
+ * not need a locator per cell, and rows can be read as typed objects through a
+ * TableColumnMap (see configuratorTable.config.ts).
+ */
+export class DataTable extends BaseComponent {
+  protected readonly selectors: DataTableSelectors;
+
+  constructor(root: Locator, name: string, selectors: Partial<DataTableSelectors> = {}) {
+    super(root, name);
+    this.selectors = { ...DEFAULT_SELECTORS, ...selectors };
+  }
+
+  get headerCells(): Locator {
+    return this.root.locator(this.selectors.headerCell);
+  }
+
+  get rows(): Locator {
+    return this.root.locator(this.selectors.row);
+  }
+
+  /**
+   * Returns the first row containing the given text
+   */
+  row(text: string): Locator {
+    return this.rows.filter({ hasText: text }).first();
+  }
+
+  /**
+   * Waits until the table is visible, finished loading and shows rows or its empty state
+   */
+  async waitForLoad(): Promise<void> {
+    await this.performAction(
+      async () => {
+        await expect(this.root).toBeVisible();
+        if (this.selectors.loadingIndicator) {
+          await expect(this.root.locator(this.selectors.loadingIndicator)).toHaveCount(0);
+        }
+
+        const content = this.selectors.emptyState
+          ? this.rows.first().or(this.root.locator(this.selectors.emptyState).first())
+          : this.rows.first();
+        await expect(content.first()).toBeVisible();
+      },
+      `${this.name} Table loaded successfully`,
+      `Failed to wait for ${this.name} Table to load`,
+    );
+  }
+
+  async getHeaders(): Promise<string[]> {
+    return this.performAction(
+      () => this.readHeaders(),
+      `Retrieved headers of ${this.name}`,
+      `Failed to get headers of ${this.name}`,
+    );
+  }
+
+  async getRowCount(): Promise<number> {
+    return this.basePage.getElementCount(this.rows, `${this.name} rows`);
+  }
+
+  /**
+   * Returns the text of a cell in the first row containing the given text
+   * @param rowText Text identifying the row, e.g. a unique name
+   * @param columnName Header text of the column
+   */
+  async getCellText(rowText: string, columnName: string): Promise<string> {
+    const columnIndex = await this.getColumnIndex(columnName);
+
+    return this.performAction(
+      async () =>
+        (await this.row(rowText).locator(this.selectors.cell).nth(columnIndex).innerText()).trim(),
+      `Retrieved '${columnName}' of row '${rowText}' in ${this.name}`,
+      `Failed to get '${columnName}' of row '${rowText}' in ${this.name}`,
+    );
+  }
+
+  /**
+   * Fills the search field and waits for a row containing the search term
+   * @param searchField The table's search field
+   * @param searchTerm The term to search for
+   */
+  async search(searchField: FormField, searchTerm: string): Promise<void> {
+    await searchField.fill(searchTerm);
+    await this.performAction(
+      () => expect(this.row(searchTerm)).toBeVisible(),
+      `${this.name} shows results for '${searchTerm}'`,
+      `${this.name} shows no results for '${searchTerm}'`,
+    );
+  }
+
+  /**
+   * Clicks an action button (e.g. "Edit", "Delete") in the first row containing the given text
+   * @param rowText Text identifying the row
+   * @param actionName Accessible name of the button (its text, aria-label or title)
+   */
+  async clickRowAction(rowText: string, actionName: string): Promise<void> {
+    await this.basePage.clickElement(
+      this.row(rowText).getByRole('button', { name: actionName }).first(),
+      `'${actionName}' action of row '${rowText}' in ${this.name}`,
+    );
+  }
+
+  /**
+   * Verifies the table shows exactly the expected headers, in order
+   * @param expectedHeaders e.g. `tableHeaders.branches` from configurator.json
+   */
+  async verifyHeaders(expectedHeaders: string[]): Promise<void> {
+    await this.performAction(
+      async () => expect(await this.getHeaders()).toEqual(expectedHeaders),
+      `${this.name} shows headers: ${expectedHeaders.join(', ')}`,
+      `${this.name} does not show the expected headers`,
+    );
+  }
+
+  /**
+   * Reads the rows of the current page as typed objects
+   * @param columns Maps each model property to its column
+   */
+  async readRows<T>(columns: TableColumnMap<T>): Promise<T[]> {
+    return this.performAction(
+      () => this.readRowsOfPage(columns),
+      `Read rows of ${this.name}`,
+      `Failed to read rows of ${this.name}`,
+    );
+  }
+
+  /**
+   * Reads the rows of every page, starting from the current one
+   * @param columns Maps each model property to its column
+   * @param paginator The table's paginator
+   * @param maxPages Stops after this many pages (default: 50)
+   */
+  async readAllRows<T>(
+    columns: TableColumnMap<T>,
+    paginator: Paginator,
+    maxPages: number = DEFAULT_MAX_PAGES,
+  ): Promise<T[]> {
+    const rows: T[] = [];
+
+    for (let pageCount = 1; ; pageCount++) {
+      rows.push(...(await this.readRows(columns)));
+
+      if (pageCount >= maxPages || !(await paginator.hasNextPage())) {
+        break;
+      }
+      await this.goToNextPage(paginator);
+    }
+    return rows;
+  }
+
+  /**
+   * Returns the first row whose mapped properties equal the given values, or undefined
+   * @param columns Maps each model property to its column
+   * @param criteria Values identifying the row, e.g. `{ name: branch.name }`
+   * @param paginator Searches the following pages too when given
+   */
+  async findRow<T>(
+    columns: TableColumnMap<T>,
+    criteria: Partial<T>,
+    paginator?: Paginator,
+  ): Promise<T | undefined> {
+    for (let pageCount = 1; pageCount <= DEFAULT_MAX_PAGES; pageCount++) {
+      const row = (await this.readRows(columns)).find((candidate) =>
+        this.matches(candidate, criteria),
+      );
+
+      if (row || !paginator || !(await paginator.hasNextPage())) {
+        return row;
+      }
+      await this.goToNextPage(paginator);
+    }
+    return undefined;
+  }
+
+  /**
+   * Verifies that the row matching the criteria shows the expected values, retrying until the
+   * expect timeout so rows still being saved or refreshed are picked up
+   * @example
+   * await branchesTable.verifyRow(BRANCH_TABLE_COLUMNS, { name: branch.name }, { status: 'Active' });
+   */
+  async verifyRow<T>(
+    columns: TableColumnMap<T>,
+    criteria: Partial<T>,
+    expected: Partial<T>,
+  ): Promise<void> {
+    await this.performAction(
+      () =>
+        expect
+          // Unwrapped reads: attempts failing while the table loads must not be logged
+          .poll(async () => {
+            const row = (await this.readRowsOfPage(columns)).find((candidate) =>
+              this.matches(candidate, criteria),
+            );
+            return row && this.pick(row, Object.keys(expected) as (keyof T)[]);
+          })
+          .toEqual(expected),
+      `${this.name} row ${JSON.stringify(criteria)} shows ${JSON.stringify(expected)}`,
+      `${this.name} row ${JSON.stringify(criteria)} does not show ${JSON.stringify(expected)}`,
+    );
+  }
+
+  /**
+   * Clicks an action button in the first row whose mapped properties equal the given values
+   * @param columns Maps each model property to its column
+   * @param criteria Values identifying the row
+   * @param actionName Accessible name of the button
+   */
+  async clickRowActionWhere<T>(
+    columns: TableColumnMap<T>,
+    criteria: Partial<T>,
+    actionName: string,
+  ): Promise<void> {
+    const rows = await this.readRows(columns);
+    const rowIndex = rows.findIndex((row) => this.matches(row, criteria));
+
+    if (rowIndex === -1) {
+      throw new CustomError(
+        ErrorCategory.NOT_FOUND,
+        { table: this.name, criteria },
+        `${this.name} has no row matching ${JSON.stringify(criteria)}`,
+      );
+    }
+
+    await this.basePage.clickElement(
+      this.rows.nth(rowIndex).getByRole('button', { name: actionName }).first(),
+      `'${actionName}' action of row ${JSON.stringify(criteria)} in ${this.name}`,
+    );
+  }
+
+  /**
+   * Clicks a column header, which sorts the table in most grids
+   */
+  async clickColumnHeader(columnName: string): Promise<void> {
+    const columnIndex = await this.getColumnIndex(columnName);
+    await this.basePage.clickElement(
+      this.headerCells.nth(columnIndex),
+      `${this.name} '${columnName}' header`,
+    );
+  }
+
+  /**
+   * Verifies the rows on the current page are sorted by a column. Texts are compared
+   * case-insensitively with numbers in natural order ("Branch 2" before "Branch 10").
+   * @param columnName Header text of the column
+   * @param direction 'ascending' (default) or 'descending'
+   */
+  async verifySortedBy(columnName: string, direction: SortDirection = 'ascending'): Promise<void> {
+    const columnIndex = await this.getColumnIndex(columnName);
+    const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+    await this.performAction(
+      async () => {
+        const values = (await this.readCellTexts()).map((cells) => cells[columnIndex] ?? '');
+        const sorted = [...values].sort((a, b) =>
+          direction === 'ascending' ? collator.compare(a, b) : collator.compare(b, a),
+        );
+        expect(values).toEqual(sorted);
+      },
+      `${this.name} is sorted by '${columnName}' (${direction})`,
+      `${this.name} is not sorted by '${columnName}' (${direction})`,
+    );
+  }
+
+  /**
+   * Returns the zero-based index of a column by its header text (case-insensitive)
+   * @throws {CustomError} If no header matches
+   */
+  async getColumnIndex(columnName: string): Promise<number> {
+    const headers = await this.getHeaders();
+    const columnIndex = headers.findIndex(
+      (header) => header.toLowerCase() === columnName.trim().toLowerCase(),
+    );
+
+    if (columnIndex === -1) {
+      throw new CustomError(
+        ErrorCategory.ELEMENT,
+        { table: this.name, columnName, headers },
+        `${this.name} has no column '${columnName}' (columns: ${headers.join(', ')})`,
+      );
+    }
+    return columnIndex;
+  }
+
+  private async readHeaders(): Promise<string[]> {
+    return (await this.headerCells.allInnerTexts()).map((text) => text.trim());
+  }
+
+  private async readRowsOfPage<T>(columns: TableColumnMap<T>): Promise<T[]> {
+    const columnIndexes = await this.getColumnIndexes(columns);
+    const cellTexts = await this.readCellTexts();
+    return cellTexts.map((cells) => this.toRow(cells, columns, columnIndexes));
+  }
+
+  private async getColumnIndexes<T>(columns: TableColumnMap<T>): Promise<Map<keyof T, number>> {
+    const headers = await this.readHeaders();
+    const normalizedHeaders = headers.map((header) => header.toLowerCase());
+    const columnIndexes = new Map<keyof T, number>();
+    const missingHeaders: string[] = [];
+
+    for (const [key, column] of Object.entries(columns) as [keyof T, TableColumn<unknown>][]) {
+      const header = typeof column === 'string' ? column : column.header;
+      const columnIndex = normalizedHeaders.indexOf(header.trim().toLowerCase());
+
+      if (columnIndex === -1) {
+        missingHeaders.push(header);
+      }
+      columnIndexes.set(key, columnIndex);
+    }
+
+    if (missingHeaders.length > 0) {
+      throw new CustomError(
+        ErrorCategory.ELEMENT,
+        { table: this.name, missingHeaders, headers },
+        `${this.name} has no column(s) ${missingHeaders.map((header) => `'${header}'`).join(', ')} (columns: ${headers.join(', ')})`,
+      );
+    }
+    return columnIndexes;
+  }
+
+  /**
+   * Reads all cell texts of the current page in one round trip
+   */
+  private async readCellTexts(): Promise<string[][]> {
+    return this.rows.evaluateAll(
+      (rows, cellSelector) =>
+        rows.map((row) =>
+          Array.from(row.querySelectorAll<HTMLElement>(cellSelector)).map((cell) =>
+            cell.innerText.trim(),
+          ),
+        ),
+      this.selectors.cell,
+    );
+  }
+
+  private toRow<T>(
+    cells: string[],
+    columns: TableColumnMap<T>,
+    columnIndexes: Map<keyof T, number>,
+  ): T {
+    const row: Partial<Record<keyof T, unknown>> = {};
+
+    for (const [key, column] of Object.entries(columns) as [keyof T, TableColumn<unknown>][]) {
+      const cellText = cells[columnIndexes.get(key)!] ?? '';
+      row[key] = typeof column === 'string' || !column.parse ? cellText : column.parse(cellText);
+    }
+    return row as T;
+  }
+
+  private matches<T>(row: T, criteria: Partial<T>): boolean {
+    return (Object.keys(criteria) as (keyof T)[]).every((key) => row[key] === criteria[key]);
+  }
+
+  private pick<T>(row: T, keys: (keyof T)[]): Partial<T> {
+    return Object.fromEntries(keys.map((key) => [key, row[key]])) as Partial<T>;
+  }
+
+  private async goToNextPage(paginator: Paginator): Promise<void> {
+    const firstRowText = await this.rows.first().innerText();
+    await paginator.nextPage();
+
+    await this.performAction(
+      () => expect(this.rows.first()).not.toHaveText(firstRowText),
+      `${this.name} moved to the next page`,
+      `${this.name} did not change after moving to the next page`,
+    );
+    await this.waitForLoad();
+  }
+}
@@ -0,0 +1,94 @@
+import { Locator } from '@playwright/test';
+import BaseComponent from './baseComponent';
+
+/**
+ * A native `<select>` or a custom dropdown/menu (e.g. `mat-select`) whose options open in
+ * an overlay. Native selects use `selectOption`; custom dropdowns are opened and the option
+ * is clicked by its accessible name.
+ */
+export class Dropdown extends BaseComponent {
+  private readonly optionRole: 'option' | 'menuitem';
+
+  /**
+   * @param root The select element or the element that opens the dropdown
+   * @param name Name used in the logs
+   * @param optionRole ARIA role of the options: 'option' for listboxes, 'menuitem' for menus
+   */
+  constructor(root: Locator, name: string, optionRole: 'option' | 'menuitem' = 'option') {
+    super(root, name);
+    this.optionRole = optionRole;
+  }
+
+  /**
+   * Options are rendered in an overlay outside the root, so they are resolved on the page
+   */
+  get options(): Locator {
+    return this.page.getByRole(this.optionRole);
+  }
+
+  async open(): Promise<void> {
+    await this.basePage.clickElement(this.root, this.name);
+  }
+
+  /**
+   * Selects an option by its visible text
+   * @param optionText The option label, e.g. "Active"
+   */
+  async select(optionText: string): Promise<void> {
+    if (await this.isNativeSelect()) {
+      await this.basePage.performAction(
+        () => this.root.selectOption({ label: optionText }),
+        `${this.name} option selected successfully with value: ${optionText}`,
+        `Error selecting option in ${this.name}`,
+      );
+      return;
+    }
+
+    await this.open();
+    await this.basePage.clickElement(
+      this.page.getByRole(this.optionRole, { name: optionText, exact: true }),
+      `${this.name} option '${optionText}'`,
+    );
+  }
+
+  /**
+   * Returns the text of the selected option
+   */
+  async getSelectedOption(): Promise<string> {
+    return this.performAction(
+      async () => {
+        if (await this.isNativeSelect()) {
+          return (await this.root.locator('option:checked').innerText()).trim();
+        }
+        return (await this.root.innerText()).trim();
+      },
+      `Retrieved selected option of ${this.name}`,
+      `Failed to get selected option of ${this.name}`,
+    );
+  }
+
+  /**
+   * Returns the texts of all options; custom dropdowns are opened and closed again
+   */
+  async getOptions(): Promise<string[]> {
+    return this.performAction(
+      async () => {
+        if (await this.isNativeSelect()) {
+          return (await this.root.locator('option').allInnerTexts()).map((text) => text.trim());
+        }
+
+        await this.root.click();
+        await this.options.first().waitFor({ state: 'visible' });
+        const options = (await this.options.allInnerTexts()).map((text) => text.trim());
+        await this.page.keyboard.press('Escape');
+        return options;
+      },
+      `Retrieved options of ${this.name}`,
+      `Failed to get options of ${this.name}`,
+    );
+  }
+
+  private async isNativeSelect(): Promise<boolean> {
+    return (await this.root.evaluate((element) => element.tagName)) === 'SELECT';
+  }
+}
@@ -0,0 +1,81 @@
+import { Locator, expect } from '@playwright/test';
+import BaseComponent from './baseComponent';
+import { FormFieldSelectors } from '../../config/types/ui/component.types';
+
+const DEFAULT_SELECTORS: FormFieldSelectors = {
+  input: 'input, textarea',
+  label: 'label, mat-label',
+  error: 'mat-error, .error-message, [role="alert"]',
+};
+
+/**
+ * A text input with its label and validation message. The root is either the input
+ * itself or a wrapper such as `mat-form-field`; the value is masked in the logs when the
+ * field name matches a sensitive key in SanitizationConfig (e.g. "Password").
+ */
+export class FormField extends BaseComponent {
+  private readonly selectors: FormFieldSelectors;
+
+  constructor(root: Locator, name: string, selectors: Partial<FormFieldSelectors> = {}) {
+    super(root, name);
+    this.selectors = { ...DEFAULT_SELECTORS, ...selectors };
+  }
+
+  /**
+   * The input element: the root when it is an input, otherwise the input inside it
+   */
+  get input(): Locator {
+    return this.root
+      .locator(`xpath=self::input | self::textarea`)
+      .or(this.root.locator(this.selectors.input).first());
+  }
+
+  get errorMessage(): Locator {
+    return this.root.locator(this.selectors.error).first();
+  }
+
+  async fill(value: string, options?: { force?: boolean }): Promise<void> {
+    await this.basePage.fillElement(this.input, value, this.name, options);
+  }
+
+  async clear(): Promise<void> {
+    await this.basePage.clearElement(this.input, this.name);
+  }
+
+  async getValue(): Promise<string> {
+    return this.basePage.getElementProperty<string>(this.input, 'inputValue', undefined, this.name);
+  }
+
+  async getLabel(): Promise<string> {
+    return this.performAction(
+      async () => (await this.root.locator(this.selectors.label).first().innerText()).trim(),
+      `Retrieved label of ${this.name}`,
+      `Failed to get label of ${this.name}`,
+    );
+  }
+
+  async verifyEditable(): Promise<boolean> {
+    return this.basePage.verifyElementEditable(this.input, this.name);
+  }
+
+  /**
+   * Verifies the field shows a validation message
+   * @param expectedText Text the message should contain (optional)
+   */
+  async verifyError(expectedText?: string): Promise<void> {
+    await this.performAction(
+      async () => {
+        await expect(this.errorMessage).toBeVisible();
+        if (expectedText !== undefined) {
+          await expect(this.errorMessage).toContainText(expectedText);
+        }
+      },
+      `${this.name} shows validation message${expectedText ? `: "${expectedText}"` : ''}`,
+      `${this.name} does not show the expected validation message`,
+    );
+  }
+
+  async verifyNoError(): Promise<void> {
+    await this.basePage.verifyElementState(this.errorMessage, 'hidden', `${this.name} error`);
+  }
+}
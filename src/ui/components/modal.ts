@@ -0,0 +1,82 @@
+import { Locator, expect } from '@playwright/test';
+import BaseComponent from './baseComponent';
+import { ModalSelectors } from '../../config/types/ui/component.types';
+
+const DEFAULT_SELECTORS: ModalSelectors = {
+  title: '[mat-dialog-title], .modal-title, h1, h2',
+  closeButton: '[aria-label="Close"], .close, button.close-button',
+};
+
+/**
+ * An in-page dialog (e.g. `mat-dialog-container` or `[role="dialog"]`). Browser-native
+ * alert/confirm/prompt dialogs are handled by BasePage.handleDialog instead.
+ */
+export class Modal extends BaseComponent {
+  private readonly selectors: ModalSelectors;
+
+  constructor(root: Locator, name: string, selectors: Partial<ModalSelectors> = {}) {
+    super(root, name);
+    this.selectors = { ...DEFAULT_SELECTORS, ...selectors };
+  }
+
+  async waitForOpen(): Promise<void> {
+    await this.basePage.verifyElementState(this.root, 'visible', this.name);
+  }
+
+  async waitForClose(): Promise<void> {
+    await this.basePage.verifyElementState(this.root, 'hidden', this.name);
+  }
+
+  async getTitle(): Promise<string> {
+    return this.performAction(
+      async () => (await this.root.locator(this.selectors.title).first().innerText()).trim(),
+      `Retrieved title of ${this.name}`,
+      `Failed to get title of ${this.name}`,
+    );
+  }
+
+  async verifyTitle(expectedTitle: string): Promise<void> {
+    await this.performAction(
+      () => expect(this.root.locator(this.selectors.title).first()).toHaveText(expectedTitle),
+      `${this.name} title is "${expectedTitle}"`,
+      `${this.name} title is not "${expectedTitle}"`,
+    );
+  }
+
+  /**
+   * Clicks a button inside the dialog by its accessible name
+   * @param buttonName The button label, e.g. "Save"
+   */
+  async clickButton(buttonName: string): Promise<void> {
+    await this.basePage.clickElement(
+      this.root.getByRole('button', { name: buttonName, exact: true }),
+      `${this.name} '${buttonName}' button`,
+    );
+  }
+
+  /**
+   * Clicks the confirming button and waits for the dialog to close
+   * @param buttonName The button label (default: "Confirm")
+   */
+  async confirm(buttonName: string = 'Confirm'): Promise<void> {
+    await this.clickButton(buttonName);
+    await this.waitForClose();
+  }
+
+  /**
+   * Clicks the cancelling button and waits for the dialog to close
+   * @param buttonName The button label (default: "Cancel")
+   */
+  async cancel(buttonName: string = 'Cancel'): Promise<void> {
+    await this.clickButton(buttonName);
+    await this.waitForClose();
+  }
+
+  async close(): Promise<void> {
+    await this.basePage.clickElement(
+      this.root.locator(this.selectors.closeButton).first(),
+      `${this.name} close button`,
+    );
+    await this.waitForClose();
+  }
+}
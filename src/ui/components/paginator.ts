@@ -0,0 +1,78 @@
+import { Locator } from '@playwright/test';
+import BaseComponent from './baseComponent';
+import { PaginatorSelectors } from '../../config/types/ui/component.types';
+
+const DEFAULT_SELECTORS: PaginatorSelectors = {
+  nextButton: 'button[aria-label="Next page"], .pagination-next, [aria-label="Next"]',
+  previousButton:
+    'button[aria-label="Previous page"], .pagination-previous, [aria-label="Previous"]',
+  pageButton: (pageNumber) =>
+    `button[aria-label="Page ${pageNumber}"], [aria-label="Go to page ${pageNumber}"]`,
+  currentPage: '[aria-current="page"], .mat-mdc-paginator-range-label, .active',
+};
+
+/**
+ * Page navigation of a paged list or table (e.g. `mat-paginator`)
+ */
+export class Paginator extends BaseComponent {
+  private readonly selectors: PaginatorSelectors;
+
+  constructor(root: Locator, name: string, selectors: Partial<PaginatorSelectors> = {}) {
+    super(root, name);
+    this.selectors = { ...DEFAULT_SELECTORS, ...selectors };
+  }
+
+  get nextButton(): Locator {
+    return this.root.locator(this.selectors.nextButton).first();
+  }
+
+  get previousButton(): Locator {
+    return this.root.locator(this.selectors.previousButton).first();
+  }
+
+  /**
+   * Checks whether there is a next page (the next button exists and is enabled)
+   */
+  async hasNextPage(): Promise<boolean> {
+    return this.performAction(
+      async () => (await this.nextButton.count()) > 0 && (await this.nextButton.isEnabled()),
+      `Checked for a next page in ${this.name}`,
+      `Failed to check for a next page in ${this.name}`,
+    );
+  }
+
+  async hasPreviousPage(): Promise<boolean> {
+    return this.performAction(
+      async () =>
+        (await this.previousButton.count()) > 0 && (await this.previousButton.isEnabled()),
+      `Checked for a previous page in ${this.name}`,
+      `Failed to check for a previous page in ${this.name}`,
+    );
+  }
+
+  async nextPage(): Promise<void> {
+    await this.basePage.clickElement(this.nextButton, `${this.name} next page button`);
+  }
+
+  async previousPage(): Promise<void> {
+    await this.basePage.clickElement(this.previousButton, `${this.name} previous page button`);
+  }
+
+  async goToPage(pageNumber: number): Promise<void> {
+    await this.basePage.clickElement(
+      this.root.locator(this.selectors.pageButton(pageNumber)).first(),
+      `${this.name} page ${pageNumber} button`,
+    );
+  }
+
+  /**
+   * Returns the text of the current page indicator, e.g. "2" or "11 – 20 of 43"
+   */
+  async getCurrentPageLabel(): Promise<string> {
+    return this.performAction(
+      async () => (await this.root.locator(this.selectors.currentPage).first().innerText()).trim(),
+      `Retrieved current page of ${this.name}`,
+      `Failed to get current page of ${this.name}`,
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { Locator, expect } from '@playwright/test';
+import BaseComponent from './baseComponent';
+
+/**
+ * A tab list (`[role="tablist"]`, e.g. `mat-tab-group`). Tabs are found by their
+ * accessible name and the active tab by `aria-selected="true"`.
+ */
+export class Tabs extends BaseComponent {
+  constructor(root: Locator, name: string) {
+    super(root, name);
+  }
+
+  tab(tabName: string): Locator {
+    return this.root.getByRole('tab', { name: tabName, exact: true });
+  }
+
+  async select(tabName: string): Promise<void> {
+    await this.basePage.clickElement(this.tab(tabName), `${this.name} '${tabName}' tab`);
+    await this.verifyActiveTab(tabName);
+  }
+
+  async getTabNames(): Promise<string[]> {
+    return this.performAction(
+      async () => (await this.root.getByRole('tab').allInnerTexts()).map((text) => text.trim()),
+      `Retrieved tabs of ${this.name}`,
+      `Failed to get tabs of ${this.name}`,
+    );
+  }
+
+  async getActiveTab(): Promise<string> {
+    return this.performAction(
+      async () =>
+        (await this.root.locator('[role="tab"][aria-selected="true"]').first().innerText()).trim(),
+      `Retrieved active tab of ${this.name}`,
+      `Failed to get active tab of ${this.name}`,
+    );
+  }
+
+  async verifyActiveTab(tabName: string): Promise<void> {
+    await this.performAction(
+      () => expect(this.tab(tabName)).toHaveAttribute('aria-selected', 'true'),
+      `${this.name} active tab is '${tabName}'`,
+      `${this.name} active tab is not '${tabName}'`,
+    );
+  }
+}
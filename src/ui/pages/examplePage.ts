@@ -1,6 +1,8 @@
 import { Page, Locator } from '@playwright/test';
 import BasePage from '../base/basePage';
 import ErrorHandler from '../../utils/errors/errorHandler';
+import { DataTable } from '../components/dataTable';
+import { Modal } from '../components/modal';
 
 /**
  * Generic post-login page used to verify successful authentication.
@@ -11,11 +13,19 @@ export class ExamplePage extends BasePage {
   readonly page: Page;
   /** Update this locator to match your application's post-login indicator */
   private readonly postLoginIndicator: Locator;
+  /** Example components; point the root locators at your application's widgets */
+  readonly resultsTable: DataTable;
+  readonly confirmationModal: Modal;
 
   constructor(page: Page) {
     super(page);
     this.page = page;
     this.postLoginIndicator = this.page.locator('[data-testid="dashboard"], #dashboard, h1').first();
+    this.resultsTable = new DataTable(this.page.locator('table, [role="grid"]').first(), 'Results');
+    this.confirmationModal = new Modal(
+      this.page.locator('mat-dialog-container, [role="dialog"]').first(),
+      'Confirmation Dialog',
+    );
   }
 
   /**
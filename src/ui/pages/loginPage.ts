@@ -1,11 +1,12 @@
 import { Page, Locator, expect } from "playwright/test";
 import BasePage from "../base/basePage";
 import ErrorHandler from "../../utils/errors/errorHandler";
+import { FormField } from "../components/formField";
 
 export class LoginPage extends BasePage {
   readonly page: Page;
-  private readonly emailAddressTextbox: Locator;
-  private readonly passwordTextbox: Locator;
+  private readonly emailAddressField: FormField;
+  private readonly passwordField: FormField;
   private readonly loginButton: Locator;
   private readonly incorrectEmailErrorMessage: Locator;
   private readonly invalidCredentialsErrorMessage: Locator;
@@ -14,8 +15,14 @@ export class LoginPage extends BasePage {
     super(page);
     this.page = page;
     // Update selectors to match your application's login page
-    this.emailAddressTextbox = page.locator(`input[formcontrolname="emailAddress"], input[name="username"], #username`);
-    this.passwordTextbox = page.locator(`input[formcontrolname="password"], input[name="password"], #password`);
+    this.emailAddressField = new FormField(
+      page.locator(`input[formcontrolname="emailAddress"], input[name="username"], #username`),
+      "Email Address Textbox",
+    );
+    this.passwordField = new FormField(
+      page.locator(`input[formcontrolname="password"], input[name="password"], #password`),
+      "Password Textbox",
+    );
     this.loginButton = page.locator("button[type='submit'], button:has-text('Login'), input[type='submit']");
     this.incorrectEmailErrorMessage = page.locator(`mat-error[id*='mat-mdc-error'], .error-message, [data-testid='email-error']`);
     this.invalidCredentialsErrorMessage = page.locator(`#error-message, .invalid-credentials, [data-testid='login-error']`);
@@ -28,7 +35,7 @@ export class LoginPage extends BasePage {
    */
   async isEmailAddressTextboxVisible(): Promise<void> {
     try {
-      await this.verifyElementState(this.emailAddressTextbox, "visible", "Email Address Textbox");
+      await this.emailAddressField.verifyState("visible");
     } catch (error) {
       ErrorHandler.captureError(
         error,
@@ -45,7 +52,7 @@ export class LoginPage extends BasePage {
    */
   async isPasswordTextboxVisible(): Promise<void> {
     try {
-      await this.verifyElementState(this.passwordTextbox, "visible", "Password Textbox");
+      await this.passwordField.verifyState("visible");
     } catch (error) {
       ErrorHandler.captureError(
         error,
@@ -92,7 +99,7 @@ export class LoginPage extends BasePage {
    */
   async fillUsername(username: string): Promise<void> {
     try {
-      await this.fillElement(this.emailAddressTextbox, username, "Email Address Textbox");
+      await this.emailAddressField.fill(username);
     } catch (error) {
       ErrorHandler.captureError(error, "fillUsername", "Failed to fill username");
       throw error;
@@ -106,7 +113,7 @@ export class LoginPage extends BasePage {
    */
   async fillPassword(password: string): Promise<void> {
     try {
-      await this.fillElement(this.passwordTextbox, password, "Password Textbox");
+      await this.passwordField.fill(password);
     } catch (error) {
       ErrorHandler.captureError(error, "fillPassword", "Failed to fill password");
       throw error;
@@ -289,6 +296,13 @@ export class LoginPage extends BasePage {
     }
   }
 
+  /**
+   * Masks the password field in screenshots
+   */
+  getSensitiveLocators(): Locator[] {
+    return [this.passwordField.root];
+  }
+
   /**
    * Performs login with the given credentials.
    * Update selectors in the constructor if your app uses different elements.
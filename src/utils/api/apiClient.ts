@@ -0,0 +1,268 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { EnvironmentResolver } from '../../config/environment/resolver/environmentResolver';
+import { API_TIMEOUTS } from '../../config/timeouts/timeout.config';
+import {
+  ApiAuthConfig,
+  ApiClientOptions,
+  ApiRequestOptions,
+  ApiResponse,
+  HttpMethod,
+  StorageStateCookie,
+} from '../../config/types/api/api-client.types';
+import AuthStorageManager from '../auth/storage/authStorageManager';
+import FileSystemManager from '../fileSystem/fileSystemManager';
+import SanitizationConfig from '../sanitization/sanitizationConfig';
+import ApiTestExpectation from './apiTestExpectation';
+import ApiErrorHandler from '../errors/apiErrorHandler';
+import ErrorHandler from '../errors/errorHandler';
+import logger from '../logging/loggerManager';
+
+export class ApiClient {
+  private readonly environmentResolver: EnvironmentResolver;
+  private readonly options: ApiClientOptions;
+  private auth: ApiAuthConfig;
+  private axiosInstance?: AxiosInstance;
+
+  constructor(environmentResolver: EnvironmentResolver, options: ApiClientOptions = {}) {
+    this.environmentResolver = environmentResolver;
+    this.options = options;
+    this.auth = options.auth ?? { type: 'none' };
+  }
+
+  public async get<TResponse>(
+    path: string,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResponse<TResponse>> {
+    return this.send<TResponse>('GET', path, undefined, options);
+  }
+
+  public async post<TResponse, TBody = unknown>(
+    path: string,
+    body?: TBody,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResponse<TResponse>> {
+    return this.send<TResponse>('POST', path, body, options);
+  }
+
+  public async put<TResponse, TBody = unknown>(
+    path: string,
+    body?: TBody,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResponse<TResponse>> {
+    return this.send<TResponse>('PUT', path, body, options);
+  }
+
+  public async patch<TResponse, TBody = unknown>(
+    path: string,
+    body?: TBody,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResponse<TResponse>> {
+    return this.send<TResponse>('PATCH', path, body, options);
+  }
+
+  public async delete<TResponse = void>(
+    path: string,
+    options?: ApiRequestOptions,
+  ): Promise<ApiResponse<TResponse>> {
+    return this.send<TResponse>('DELETE', path, undefined, options);
+  }
+
+  /**
+   * Sends a bearer token with every subsequent request
+   */
+  public setBearerToken(token: string): void {
+    this.auth = { type: 'bearer', token };
+  }
+
+  /**
+   * Sends the given cookies with every subsequent request
+   */
+  public setCookies(cookies: Record<string, string>): void {
+    this.auth = { type: 'cookie', cookies };
+  }
+
+  public clearAuth(): void {
+    this.auth = { type: 'none' };
+  }
+
+  /**
+   * Reuses the cookies of the saved browser session (see AuthStorageManager) for API calls.
+   * Only unexpired cookies whose domain matches the API host are applied.
+   * @returns True if cookie auth was applied, false if no usable session state was found
+   */
+  public async useStorageStateAuth(storagePath?: string): Promise<boolean> {
+    try {
+      const filePath = storagePath ?? (await AuthStorageManager.resolveAuthStateFilePath());
+
+      if (!(await FileSystemManager.doesFileExist(filePath))) {
+        logger.debug(`No auth state found at ${filePath}, API requests will be unauthenticated`);
+        return false;
+      }
+
+      const content = await FileSystemManager.readFile(filePath);
+      const state = JSON.parse(content || '{}') as { cookies?: StorageStateCookie[] };
+      const apiHost = new URL(await this.getBaseUrl()).hostname;
+      const nowInSeconds = Date.now() / 1000;
+
+      const cookies = (state.cookies ?? []).filter(
+        (cookie) =>
+          this.isCookieDomainMatch(cookie.domain, apiHost) &&
+          (cookie.expires === -1 || cookie.expires > nowInSeconds),
+      );
+
+      if (cookies.length === 0) {
+        logger.debug(`Auth state at ${filePath} has no valid cookies for ${apiHost}`);
+        return false;
+      }
+
+      this.setCookies(Object.fromEntries(cookies.map((cookie) => [cookie.name, cookie.value])));
+      logger.info(`API client using ${cookies.length} session cookie(s) from ${filePath}`);
+      return true;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'useStorageStateAuth',
+        'Failed to load API auth from storage state',
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Sends the request and maps the axios response to an ApiResponse.
+   * Status codes registered for the context via ApiTestExpectation are returned
+   * instead of thrown, so negative tests can assert on them directly.
+   */
+  private async send<TResponse>(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    options: ApiRequestOptions = {},
+  ): Promise<ApiResponse<TResponse>> {
+    const contextKey = options.contextKey ?? `${method} ${path}`;
+    const startedAt = Date.now();
+
+    try {
+      const instance = await this.getAxiosInstance();
+      const config = this.buildRequestConfig(method, path, body, options, contextKey);
+
+      this.logRequest(config);
+
+      const response = await instance.request<TResponse>(config);
+      const apiResponse = this.toApiResponse(response, startedAt);
+
+      this.logResponse(method, path, apiResponse, contextKey);
+
+      return apiResponse;
+    } catch (error) {
+      ApiErrorHandler.captureError(error, contextKey, `${method} ${path} request failed`);
+      throw error;
+    }
+  }
+
+  private buildRequestConfig(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    options: ApiRequestOptions,
+    contextKey: string,
+  ): AxiosRequestConfig {
+    return {
+      method,
+      url: path,
+      data: body,
+      params: options.params,
+      timeout: API_TIMEOUTS[options.timeoutCategory ?? 'standard'],
+      headers: {
+        ...this.options.defaultHeaders,
+        ...(options.skipAuth ? {} : this.getAuthHeaders()),
+        ...options.headers,
+      },
+      validateStatus: (status) =>
+        (status >= 200 && status < 300) || ApiTestExpectation.isExpectedStatus(contextKey, status),
+    };
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    switch (this.auth.type) {
+      case 'bearer':
+        return { Authorization: `Bearer ${this.auth.token}` };
+      case 'cookie':
+        return {
+          Cookie: Object.entries(this.auth.cookies)
+            .map(([name, value]) => `${name}=${value}`)
+            .join('; '),
+        };
+      default:
+        return {};
+    }
+  }
+
+  private async getAxiosInstance(): Promise<AxiosInstance> {
+    if (!this.axiosInstance) {
+      this.axiosInstance = axios.create({
+        baseURL: await this.getBaseUrl(),
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      });
+    }
+    return this.axiosInstance;
+  }
+
+  private async getBaseUrl(): Promise<string> {
+    return this.options.baseUrl ?? this.environmentResolver.getApiBaseUrl();
+  }
+
+  private isCookieDomainMatch(cookieDomain: string, host: string): boolean {
+    const domain = cookieDomain.replace(/^\./, '');
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+
+  private toApiResponse<TResponse>(
+    response: AxiosResponse<TResponse>,
+    startedAt: number,
+  ): ApiResponse<TResponse> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response.headers ?? {})) {
+      if (value !== undefined && value !== null) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    }
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      data: response.data,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  private logRequest(config: AxiosRequestConfig): void {
+    logger.debug(`API request: ${config.method} ${config.url}`, {
+      params: config.params,
+      headers: SanitizationConfig.sanitizeHeaders(config.headers),
+      body: SanitizationConfig.sanitizeData(config.data),
+    });
+  }
+
+  private logResponse(
+    method: HttpMethod,
+    path: string,
+    response: ApiResponse<unknown>,
+    contextKey: string,
+  ): void {
+    const isExpectedFailure = response.status >= 300;
+    const message = `API response: ${method} ${path} -> ${response.status} (${response.durationMs}ms)`;
+
+    if (isExpectedFailure) {
+      logger.info(`${message} — expected status for [${contextKey}]`);
+    } else {
+      logger.info(message);
+    }
+
+    logger.debug(`API response details: ${method} ${path}`, {
+      headers: SanitizationConfig.sanitizeHeaders(response.headers),
+      body: SanitizationConfig.sanitizeData(response.data),
+    });
+  }
+}
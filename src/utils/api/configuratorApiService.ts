@@ -0,0 +1,127 @@
+import * as configuratorTestData from '../../testData/configurator.json';
+import { ApiResponse } from '../../config/types/api/api-client.types';
+import { ConfiguratorEntityCreator } from '../../config/types/data/test-data-builder.types';
+import { ConfiguratorEntityType } from '../../config/types/data/test-data-cleanup.types';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { CustomError } from '../errors/customError';
+import ErrorHandler from '../errors/errorHandler';
+import logger from '../logging/loggerManager';
+import { ApiClient } from './apiClient';
+import ApiTestExpectation from './apiTestExpectation';
+
+/**
+ * Creates and deletes configurator entities through the REST API.
+ * Endpoints are configured per entity type under `apiEndpoints` in configurator.json.
+ */
+export class ConfiguratorApiService implements ConfiguratorEntityCreator {
+  private readonly apiClient: ApiClient;
+
+  constructor(apiClient: ApiClient) {
+    this.apiClient = apiClient;
+  }
+
+  /**
+   * Creates an entity and returns it with the id assigned by the API
+   * @param entityType - The configurator entity type
+   * @param payload - The entity to create, e.g. from ConfiguratorDataGenerator
+   */
+  public async createEntity<T extends { id?: string }>(
+    entityType: ConfiguratorEntityType,
+    payload: T,
+  ): Promise<T & { id: string }> {
+    try {
+      const response = await this.apiClient.post<Partial<T>, T>(
+        this.getEndpoint(entityType),
+        payload,
+        { contextKey: `create_${entityType}` },
+      );
+
+      const id = response.data?.id;
+      if (!id) {
+        throw new CustomError(
+          ErrorCategory.SERVICE,
+          { entityType, status: response.status },
+          `Create ${entityType} response did not contain an id`,
+        );
+      }
+
+      logger.info(`Created ${entityType} with id: ${id}`);
+      return { ...payload, ...response.data, id };
+    } catch (error) {
+      ErrorHandler.captureError(error, 'createEntity', `Failed to create ${entityType}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an entity; an entity that no longer exists is treated as deleted
+   * @param entityType - The configurator entity type
+   * @param id - The id of the entity to delete
+   */
+  public async deleteEntity(entityType: ConfiguratorEntityType, id: string): Promise<void> {
+    const contextKey = `delete_${entityType}`;
+    ApiTestExpectation.registerExpectation(contextKey, [404]);
+
+    try {
+      const response = await this.apiClient.delete(
+        `${this.getEndpoint(entityType)}/${encodeURIComponent(id)}`,
+        { contextKey },
+      );
+
+      if (response.status === 404) {
+        logger.debug(`${entityType} ${id} was already deleted`);
+        return;
+      }
+
+      logger.info(`Deleted ${entityType} with id: ${id}`);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'deleteEntity', `Failed to delete ${entityType}: ${id}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Posts an invalid entity for a negative test. The expected status codes are returned
+   * instead of thrown, and so is a success, so the test can fail on it; other statuses throw.
+   * @param entityType - The configurator entity type
+   * @param payload - The invalid entity, e.g. from NegativeTestMatrix.expand
+   * @param expectedStatusCodes - The statuses the API should reject the entity with
+   */
+  public async submitInvalidEntity<T>(
+    entityType: ConfiguratorEntityType,
+    payload: Partial<T>,
+    expectedStatusCodes: number[],
+  ): Promise<ApiResponse<Partial<T> & { id?: string }>> {
+    const contextKey = `create_${entityType}_negative`;
+    ApiTestExpectation.registerExpectation(contextKey, expectedStatusCodes, true);
+
+    try {
+      return await this.apiClient.post<Partial<T> & { id?: string }, Partial<T>>(
+        this.getEndpoint(entityType),
+        payload,
+        { contextKey },
+      );
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'submitInvalidEntity',
+        `Failed to submit invalid ${entityType}`,
+      );
+      throw error;
+    } finally {
+      ApiTestExpectation.removeExpectation(contextKey);
+    }
+  }
+
+  private getEndpoint(entityType: ConfiguratorEntityType): string {
+    const endpoint = configuratorTestData.apiEndpoints[entityType];
+
+    if (!endpoint) {
+      ErrorHandler.logAndThrow(
+        `No API endpoint configured for entity type: ${entityType}`,
+        'getEndpoint',
+      );
+    }
+    return endpoint;
+  }
+}
@@ -1,35 +1,95 @@
 import { TestInfo } from '@playwright/test';
-import ErrorHandler from '../errors/errorHandler';
+import { AuthMode } from '../../config/types/auth/auth-mode.types';
+import { UserRole } from '../../config/types/auth/user-role.types';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { CustomError } from '../errors/customError';
+import UserRoleRegistry from './roles/userRoleRegistry';
+import { DEFAULT_USER_ROLE } from './roles/userRole.config';
+import { AUTH_TAG_PATTERN, AuthTags } from './constants/authTags.constants';
 
 export default class AuthenticationFilter {
   /**
-   * Determines if authentication setup should be skipped for a test
-   * based on test metadata and test title patterns
+   * Resolves how a test is signed in from its tags:
+   * - `@noauth` starts signed out
+   * - `@fresh-session` signs in for this test only
+   * - `@role:<role>` runs as a registered role, overriding `test.use({ role })`
+   *
+   * The `skipAuth` annotation (`{ type: 'skipAuth', description: 'true' }`) is treated as `@noauth`.
    *
    * @param testInfo - The TestInfo object from Playwright
-   * @param additionalSkipConditions - Additional test title patterns that should skip auth
-   * @returns boolean - true if auth setup should be skipped
+   * @param optionRole - The role set with `test.use({ role })`
+   * @throws {CustomError} If the test has an unknown or conflicting auth tag
    */
-  public static shouldSkipAuthSetup(
+  public static resolveAuthMode(
     testInfo: TestInfo,
-    additionalSkipConditions: string[] = [],
-  ): boolean {
-    try {
-      const defaultSkipConditions = ['Authenticate'];
-      const allSkipConditions = [...defaultSkipConditions, ...additionalSkipConditions];
-
-      const skipAuth =
-        testInfo.annotations.find((a) => a.type === 'skipAuth')?.description === 'true';
-
-      // Check if the test title contains any of the skip conditions
-      const titleContainsSkipCondition = allSkipConditions.some((condition) =>
-        testInfo.title.toLowerCase().includes(condition.toLowerCase()),
+    optionRole: UserRole = DEFAULT_USER_ROLE,
+  ): AuthMode {
+    const authTags = [...new Set(testInfo.tags.filter((tag) => AUTH_TAG_PATTERN.test(tag)))];
+    this.validateAuthTags(testInfo, authTags);
+
+    const roleTag = authTags.find((tag) => tag.startsWith(AuthTags.ROLE_PREFIX));
+    const role = roleTag ? (roleTag.slice(AuthTags.ROLE_PREFIX.length) as UserRole) : optionRole;
+    const roleSource = roleTag ? 'tag' : optionRole === DEFAULT_USER_ROLE ? 'default' : 'option';
+
+    if (authTags.includes(AuthTags.NO_AUTH)) {
+      return { type: 'noAuth', role, source: 'tag' };
+    }
+
+    const skipAuth =
+      testInfo.annotations.find((a) => a.type === 'skipAuth')?.description === 'true';
+    if (skipAuth) {
+      return { type: 'noAuth', role, source: 'annotation' };
+    }
+
+    if (authTags.includes(AuthTags.FRESH_SESSION)) {
+      return { type: 'freshSession', role, source: 'tag' };
+    }
+
+    return { type: 'storageState', role, source: roleSource };
+  }
+
+  /**
+   * Describes an auth mode for the `auth-mode` annotation shown in the reports
+   */
+  public static describeAuthMode(authMode: AuthMode): string {
+    return authMode.type === 'noAuth'
+      ? `noAuth (${authMode.source})`
+      : `${authMode.type} as ${authMode.role} (${authMode.source})`;
+  }
+
+  private static validateAuthTags(testInfo: TestInfo, authTags: string[]): void {
+    const unknownTags = authTags.filter(
+      (tag) =>
+        tag !== AuthTags.NO_AUTH &&
+        tag !== AuthTags.FRESH_SESSION &&
+        !(
+          tag.startsWith(AuthTags.ROLE_PREFIX) &&
+          UserRoleRegistry.isRole(tag.slice(AuthTags.ROLE_PREFIX.length))
+        ),
+    );
+
+    if (unknownTags.length > 0) {
+      throw new CustomError(
+        ErrorCategory.CONFIGURATION,
+        { test: testInfo.title, unknownTags, registeredRoles: UserRoleRegistry.getRoles() },
+        `Unknown auth tag(s) ${unknownTags.join(', ')} on '${testInfo.title}'. Supported: ${AuthTags.NO_AUTH}, ${AuthTags.FRESH_SESSION}, ${UserRoleRegistry.getRoles()
+          .map((role) => `${AuthTags.ROLE_PREFIX}${role}`)
+          .join(', ')}`,
       );
+    }
 
-      return skipAuth || titleContainsSkipCondition;
-    } catch (error) {
-      ErrorHandler.captureError(error, 'shouldSkipAuthSetup', 'Failed to check auth setup');
-      return false;
+    const roleTags = authTags.filter((tag) => tag.startsWith(AuthTags.ROLE_PREFIX));
+    const hasConflict =
+      roleTags.length > 1 ||
+      (authTags.includes(AuthTags.NO_AUTH) &&
+        (roleTags.length > 0 || authTags.includes(AuthTags.FRESH_SESSION)));
+
+    if (hasConflict) {
+      throw new CustomError(
+        ErrorCategory.CONFIGURATION,
+        { test: testInfo.title, authTags },
+        `Conflicting auth tags ${authTags.join(', ')} on '${testInfo.title}'`,
+      );
     }
   }
 }
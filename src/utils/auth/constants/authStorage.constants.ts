@@ -1,5 +1,5 @@
 export enum AuthStorageConstants {
   DIRECTORY = '.auth',
-  CI_AUTH_FILE = 'ci-login.json',
-  LOCAL_AUTH_FILE = 'local-login.json',
+  CI_FILE_PREFIX = 'ci',
+  LOCAL_FILE_PREFIX = 'local',
 }
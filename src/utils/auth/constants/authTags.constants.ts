@@ -0,0 +1,11 @@
+export enum AuthTags {
+  NO_AUTH = '@noauth',
+  FRESH_SESSION = '@fresh-session',
+  ROLE_PREFIX = '@role:',
+}
+
+/**
+ * Tags that look like auth tags. They must match one of AuthTags exactly, so a typo such
+ * as `@no-auth` or `@role:admn` fails the test instead of silently running signed in.
+ */
+export const AUTH_TAG_PATTERN = /^@(no-?auth$|fresh-?session$|role(:|$))/i;
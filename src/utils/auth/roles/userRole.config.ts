@@ -0,0 +1,37 @@
+import { UserRole, UserRoleRegistryConfig } from '../../../config/types/auth/user-role.types';
+
+/**
+ * Role used when a test does not call `test.use({ role })`
+ */
+export const DEFAULT_USER_ROLE: UserRole = 'portal';
+
+/**
+ * Credentials and saved session file of every role. Session files are also keyed by
+ * environment, e.g. `.auth/local-uat-admin-login.json`.
+ */
+export const USER_ROLES: UserRoleRegistryConfig = {
+  portal: {
+    description: 'Default portal user',
+    usernameVariable: 'PORTAL_USERNAME',
+    passwordVariable: 'PORTAL_PASSWORD',
+    storageStateName: 'login',
+  },
+  admin: {
+    description: 'Administrator',
+    usernameVariable: 'ADMIN_USERNAME',
+    passwordVariable: 'ADMIN_PASSWORD',
+    storageStateName: 'admin-login',
+  },
+  readOnly: {
+    description: 'User without write permissions',
+    usernameVariable: 'READ_ONLY_USERNAME',
+    passwordVariable: 'READ_ONLY_PASSWORD',
+    storageStateName: 'read-only-login',
+  },
+  approver: {
+    description: 'User allowed to approve submitted work',
+    usernameVariable: 'APPROVER_USERNAME',
+    passwordVariable: 'APPROVER_PASSWORD',
+    storageStateName: 'approver-login',
+  },
+};
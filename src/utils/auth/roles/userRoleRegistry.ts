@@ -0,0 +1,72 @@
+import EnvironmentDetector from '../../../config/environment/detector/detector';
+import ENV from '../../../config/environment/variables/variables';
+import { UserRole, UserRoleDefinition } from '../../../config/types/auth/user-role.types';
+import { ErrorCategory } from '../../../config/types/enums/error-category.enum';
+import { CustomError } from '../../errors/customError';
+import { AuthStorageConstants } from '../constants/authStorage.constants';
+import { DEFAULT_USER_ROLE, USER_ROLES } from './userRole.config';
+
+export default class UserRoleRegistry {
+  /**
+   * Returns the credentials variables and storage state name of a role
+   * @throws {CustomError} If the role is not registered in USER_ROLES
+   */
+  public static getRole(role: UserRole): UserRoleDefinition {
+    const definition = USER_ROLES[role];
+
+    if (!definition) {
+      throw new CustomError(
+        ErrorCategory.CONFIGURATION,
+        { role, registeredRoles: this.getRoles() },
+        `Unknown user role '${role}'. Registered roles: ${this.getRoles().join(', ')}`,
+      );
+    }
+    return definition;
+  }
+
+  public static getRoles(): UserRole[] {
+    return Object.keys(USER_ROLES) as UserRole[];
+  }
+
+  public static isRole(value: string): value is UserRole {
+    return Object.prototype.hasOwnProperty.call(USER_ROLES, value);
+  }
+
+  /**
+   * Returns the roles the setup project signs in, read from AUTH_ROLES (comma separated).
+   * Only the default role is signed in when AUTH_ROLES is not set.
+   */
+  public static getSetupRoles(): UserRole[] {
+    const configuredRoles = (ENV.AUTH_ROLES ?? '')
+      .split(',')
+      .map((role) => role.trim())
+      .filter(Boolean);
+
+    if (configuredRoles.length === 0) {
+      return [DEFAULT_USER_ROLE];
+    }
+
+    const unknownRoles = configuredRoles.filter((role) => !this.isRole(role));
+    if (unknownRoles.length > 0) {
+      throw new CustomError(
+        ErrorCategory.CONFIGURATION,
+        { unknownRoles, registeredRoles: this.getRoles() },
+        `AUTH_ROLES contains unknown role(s): ${unknownRoles.join(', ')}`,
+      );
+    }
+    return [...new Set(configuredRoles)] as UserRole[];
+  }
+
+  /**
+   * Returns the storage state file name of a role for the current environment
+   * - CI mode: `ci-<stage>-<storageStateName>.json`, e.g. `ci-uat-admin-login.json`
+   * - Local mode: `local-<stage>-<storageStateName>.json`, e.g. `local-dev-login.json`
+   */
+  public static getStorageStateFileName(role: UserRole = DEFAULT_USER_ROLE): string {
+    const prefix = EnvironmentDetector.isCI()
+      ? AuthStorageConstants.CI_FILE_PREFIX
+      : AuthStorageConstants.LOCAL_FILE_PREFIX;
+    const stage = EnvironmentDetector.getCurrentStage();
+    return `${prefix}-${stage}-${this.getRole(role).storageStateName}.json`;
+  }
+}
@@ -0,0 +1,20 @@
+import ENV from '../../../config/environment/variables/variables';
+import { AUTH_TIMEOUTS } from '../../../config/timeouts/timeout.config';
+import { AuthSessionConfig } from '../../../config/types/auth/auth-session.types';
+
+/**
+ * When a saved session counts as stale and how workers coordinate signing in again
+ */
+export const AUTH_SESSION_CONFIG: AuthSessionConfig = {
+  expiryMarginSeconds: 60,
+  sessionCookieNames: [
+    // Restrict the expiry check to the cookies that carry the session, e.g.:
+    // '.AspNetCore.Cookies',
+  ],
+  probeUrl: ENV.AUTH_PROBE_URL,
+  probeIntervalMs: 5 * 60_000,
+  lock: {
+    timeoutMs: AUTH_TIMEOUTS.lockAcquisition,
+    staleMs: AUTH_TIMEOUTS.staleLock,
+  },
+};
@@ -0,0 +1,251 @@
+import { Browser } from '@playwright/test';
+import AuthStorageManager from '../storage/authStorageManager';
+import { BrowserSessionManager } from './browserSessionManager';
+import { AUTH_SESSION_CONFIG } from './authSession.config';
+import { EnvironmentResolver } from '../../../config/environment/resolver/environmentResolver';
+import { AUTH_TIMEOUTS } from '../../../config/timeouts/timeout.config';
+import { StorageStateCookie } from '../../../config/types/api/api-client.types';
+import {
+  AuthSessionConfig,
+  AuthStateFreshness,
+} from '../../../config/types/auth/auth-session.types';
+import { UserRole } from '../../../config/types/auth/user-role.types';
+import { ErrorCategory } from '../../../config/types/enums/error-category.enum';
+import { LoginPage } from '../../../ui/pages/loginPage';
+import FileSystemManager from '../../fileSystem/fileSystemManager';
+import FileLock from '../../fileSystem/fileLock';
+import { CustomError } from '../../errors/customError';
+import ErrorHandler from '../../errors/errorHandler';
+import logger from '../../logging/loggerManager';
+
+/**
+ * Hands out saved sessions that are still valid. A session is stale when its file is
+ * missing or empty, a session cookie has expired, or the optional probe URL rejects it;
+ * stale sessions are renewed by signing in again. Workers renew a role one at a time
+ * behind a lock file, and workers that waited reuse the session the first one saved.
+ */
+export class AuthSessionManager {
+  private readonly browser: Browser;
+  private readonly environmentResolver: EnvironmentResolver;
+  private readonly config: AuthSessionConfig;
+  private readonly lastProbedAt = new Map<UserRole, number>();
+
+  constructor(
+    browser: Browser,
+    environmentResolver: EnvironmentResolver,
+    config: AuthSessionConfig = AUTH_SESSION_CONFIG,
+  ) {
+    this.browser = browser;
+    this.environmentResolver = environmentResolver;
+    this.config = config;
+  }
+
+  /**
+   * Returns the storage state path of a role, signing in again first when the saved
+   * session is stale
+   * @param role - The role whose session is needed
+   */
+  public async ensureFreshSession(role: UserRole): Promise<string> {
+    try {
+      const storagePath = await AuthStorageManager.resolveAuthStateFilePath(false, role);
+      const freshness = await this.checkFreshness(role, storagePath);
+
+      if (freshness.isFresh) {
+        return storagePath;
+      }
+
+      logger.info(`Saved '${role}' session is stale (${freshness.reason}), signing in again`);
+
+      await FileLock.withLock(
+        `${storagePath}.lock`,
+        async () => {
+          // Another worker may have signed in while this one waited for the lock
+          const current = await this.checkFreshness(role, storagePath, true);
+          if (!current.isFresh) {
+            await this.refreshSession(role);
+          }
+        },
+        this.config.lock,
+      );
+
+      return storagePath;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'ensureFreshSession',
+        `Failed to provide a valid session for role '${role}'`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Signs in as a role in a separate browser context and saves that session to a file
+   * private to the caller, leaving the role's shared session untouched
+   * @param role - The role to sign in as
+   * @param storagePath - Where to save the new session, e.g. `testInfo.outputPath('session.json')`
+   */
+  public async createFreshSession(role: UserRole, storagePath: string): Promise<string> {
+    try {
+      await this.signIn(role, storagePath);
+      logger.info(`Signed in a fresh '${role}' session saved to: ${storagePath}`);
+      return storagePath;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'createFreshSession',
+        `Failed to sign in a fresh session for role '${role}'`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the saved storage state path of a role without launching a browser, for tests
+   * that only call the API. Only the cookies are checked; the probe needs a browser.
+   * @param role - The role whose session is needed
+   * @param config - Which cookies carry the session and the expiry margin
+   * @throws CustomError when the saved session is stale, as signing in again needs a browser
+   */
+  public static async getSavedSession(
+    role: UserRole,
+    config: AuthSessionConfig = AUTH_SESSION_CONFIG,
+  ): Promise<string> {
+    const storagePath = await AuthStorageManager.resolveAuthStateFilePath(false, role);
+    const freshness = await this.checkCookieFreshness(storagePath, config);
+
+    if (!freshness.isFresh) {
+      throw new CustomError(
+        ErrorCategory.AUTHENTICATION,
+        { role, storagePath },
+        `Saved '${role}' session is stale (${freshness.reason}); run the auth setup project ` +
+          `or a UI test to sign in again`,
+      );
+    }
+    return storagePath;
+  }
+
+  /**
+   * Checks whether the saved session of a role can be reused
+   * @param role - The role whose session is checked
+   * @param storagePath - The role's storage state file
+   * @param forceProbe - Probe even when this worker probed recently
+   */
+  public async checkFreshness(
+    role: UserRole,
+    storagePath: string,
+    forceProbe: boolean = false,
+  ): Promise<AuthStateFreshness> {
+    const cookieFreshness = await AuthSessionManager.checkCookieFreshness(storagePath, this.config);
+    if (!cookieFreshness.isFresh || !this.config.probeUrl) {
+      return cookieFreshness;
+    }
+
+    const lastProbedAt = this.lastProbedAt.get(role);
+    if (!forceProbe && lastProbedAt && Date.now() - lastProbedAt < this.config.probeIntervalMs) {
+      return cookieFreshness;
+    }
+
+    const probeFreshness = await this.probeSession(storagePath);
+    if (probeFreshness.isFresh) {
+      this.lastProbedAt.set(role, Date.now());
+    } else {
+      this.lastProbedAt.delete(role);
+    }
+    return probeFreshness;
+  }
+
+  private static async checkCookieFreshness(
+    storagePath: string,
+    config: AuthSessionConfig,
+  ): Promise<AuthStateFreshness> {
+    if (!(await FileSystemManager.doesFileExist(storagePath))) {
+      return { isFresh: false, reason: 'no saved session' };
+    }
+
+    const content = await FileSystemManager.readFile(storagePath);
+    let cookies: StorageStateCookie[];
+    try {
+      cookies = (JSON.parse(content || '{}') as { cookies?: StorageStateCookie[] }).cookies ?? [];
+    } catch {
+      return { isFresh: false, reason: 'saved session is not valid JSON' };
+    }
+
+    if (cookies.length === 0) {
+      return { isFresh: false, reason: 'saved session has no cookies' };
+    }
+
+    const sessionCookies =
+      config.sessionCookieNames.length > 0
+        ? cookies.filter((cookie) => config.sessionCookieNames.includes(cookie.name))
+        : cookies;
+
+    if (sessionCookies.length === 0) {
+      return { isFresh: false, reason: 'saved session has no session cookie' };
+    }
+
+    const expiresBefore = Date.now() / 1000 + config.expiryMarginSeconds;
+    // Browser-session cookies (expires -1) have no expiry to check
+    const expiredCookie = sessionCookies.find(
+      (cookie) => cookie.expires !== -1 && cookie.expires <= expiresBefore,
+    );
+
+    if (expiredCookie) {
+      return {
+        isFresh: false,
+        reason: `cookie '${expiredCookie.name}' expired at ${new Date(expiredCookie.expires * 1000).toISOString()}`,
+      };
+    }
+    return { isFresh: true };
+  }
+
+  private async probeSession(storagePath: string): Promise<AuthStateFreshness> {
+    const probeUrl = new URL(
+      this.config.probeUrl!,
+      await this.environmentResolver.getPortalBaseUrl(),
+    ).toString();
+    const context = await this.browser.newContext({ storageState: storagePath });
+
+    try {
+      // Without following redirects a bounce to the login page shows up as a 3xx
+      const response = await context.request.get(probeUrl, {
+        maxRedirects: 0,
+        failOnStatusCode: false,
+        timeout: AUTH_TIMEOUTS.probe,
+      });
+
+      return response.ok()
+        ? { isFresh: true }
+        : { isFresh: false, reason: `probe ${probeUrl} answered ${response.status()}` };
+    } catch (error) {
+      logger.warn(`Session probe ${probeUrl} failed: ${ErrorHandler.getErrorMessage(error)}`);
+      return { isFresh: false, reason: `probe ${probeUrl} failed` };
+    } finally {
+      await context.close();
+    }
+  }
+
+  private async refreshSession(role: UserRole): Promise<void> {
+    await this.signIn(role);
+    this.lastProbedAt.set(role, Date.now());
+    logger.info(`Renewed saved session for role '${role}'`);
+  }
+
+  private async signIn(role: UserRole, storagePath?: string): Promise<void> {
+    const context = await this.browser.newContext();
+
+    try {
+      const page = await context.newPage();
+      const browserSessionManager = new BrowserSessionManager(
+        page,
+        this.environmentResolver,
+        new LoginPage(page),
+        role,
+      );
+
+      await browserSessionManager.loginAsRole(true, storagePath);
+    } finally {
+      await context.close();
+    }
+  }
+}
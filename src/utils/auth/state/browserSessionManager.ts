@@ -4,22 +4,51 @@ import { EnvironmentResolver } from '../../../config/environment/resolver/enviro
 import { LoginPage } from './../../../ui/pages//loginPage';
 import ErrorHandler from '../../errors/errorHandler';
 import logger from '../../logging/loggerManager';
+import { DEFAULT_USER_ROLE } from '../roles/userRole.config';
+import { UserRole } from '../../../config/types/auth/user-role.types';
 
 export class BrowserSessionManager {
   private readonly page: Page;
   private readonly environmentResolver: EnvironmentResolver;
   private loginPage: LoginPage;
+  private readonly role: UserRole;
 
-  constructor(page: Page, environmentResolver: EnvironmentResolver, loginPage: LoginPage) {
+  constructor(
+    page: Page,
+    environmentResolver: EnvironmentResolver,
+    loginPage: LoginPage,
+    role: UserRole = DEFAULT_USER_ROLE,
+  ) {
     this.page = page;
     this.environmentResolver = environmentResolver;
     this.loginPage = loginPage;
+    this.role = role;
+  }
+
+  /**
+   * Signs in with the credentials of the session's role and saves the session to the
+   * role's storage state file
+   * @param shouldSaveAuthState Whether to save the session state (default: true)
+   * @param storagePath Saves to this file instead of the role's shared storage state file
+   */
+  public async loginAsRole(
+    shouldSaveAuthState: boolean = true,
+    storagePath?: string,
+  ): Promise<void> {
+    try {
+      const { username, password } = await this.environmentResolver.getRoleCredentials(this.role);
+      await this.performLogin(username, password, shouldSaveAuthState, storagePath);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'loginAsRole', `Failed to log in as role '${this.role}'`);
+      throw error;
+    }
   }
 
   public async performLogin(
     username: string,
     password: string,
     shouldSaveAuthState: boolean = true,
+    storagePath?: string,
   ) {
     try {
       // Navigate to the portal
@@ -27,11 +56,11 @@ export class BrowserSessionManager {
       await this.loginPage.navigateToUrl(resolvedUrl);
 
       // Login
-      await this.loginPage.logintoAdminConfigurator(username, password);
+      await this.loginPage.login(username, password);
 
       if (shouldSaveAuthState) {
         await this.page.waitForLoadState('networkidle');
-        await this.saveSessionState();
+        await this.saveSessionState(storagePath);
       }
     } catch (error) {
       ErrorHandler.captureError(error, 'performLogin', 'Failed to perform login');
@@ -40,14 +69,16 @@ export class BrowserSessionManager {
   }
 
   /**
-   * Saves the current browser session state to the authentication state file
+   * Saves the current browser session state to the authentication state file of the role
+   * @param targetPath Saves to this file instead of the role's storage state file
    * @returns Promise that resolves when the storage state has been saved
    */
-  private async saveSessionState(): Promise<void> {
+  private async saveSessionState(targetPath?: string): Promise<void> {
     try {
-      const storagePath = await AuthStorageManager.resolveAuthStateFilePath();
+      const storagePath =
+        targetPath ?? (await AuthStorageManager.resolveAuthStateFilePath(false, this.role));
       await this.page.context().storageState({ path: storagePath });
-      logger.info(`Successfully saved browser session state to: ${storagePath}`);
+      logger.info(`Successfully saved '${this.role}' session state to: ${storagePath}`);
     } catch (error) {
       ErrorHandler.captureError(error, 'saveSessionState', 'Failed to save browser session state');
       throw error;
@@ -60,7 +91,7 @@ export class BrowserSessionManager {
    */
   async clearSessionState(): Promise<boolean> {
     try {
-      return await AuthStorageManager.initializeEmptyAuthStateFile();
+      return await AuthStorageManager.initializeEmptyAuthStateFile(this.role);
     } catch (error) {
       ErrorHandler.captureError(
         error,
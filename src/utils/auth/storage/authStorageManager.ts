@@ -4,10 +4,13 @@ import { AuthStorageConstants } from '../constants/authStorage.constants';
 import { FileEncoding } from '../../../config/types/enums/file-encoding.enum';
 import ErrorHandler from '../../errors/errorHandler';
 import logger from '../../logging/loggerManager';
+import UserRoleRegistry from '../roles/userRoleRegistry';
+import { DEFAULT_USER_ROLE } from '../roles/userRole.config';
+import { UserRole } from '../../../config/types/auth/user-role.types';
 
 export default class AuthStorageManager {
   static readonly isCI = EnvironmentDetector.isCI();
-  private static hasBeenReset = false;
+  private static readonly resetRoles = new Set<UserRole>();
 
   /**
    * Checks if auth storage mechanism is enabled via environment variable
@@ -43,24 +46,25 @@ export default class AuthStorageManager {
   }
 
   /**
-   * Resolves the path to the authentication state file based on the environment
-   * - CI mode: `.auth/ci-login.json`
-   * - Local mode: `.auth/local-login.json`
+   * Resolves the path to the authentication state file of a role based on the environment
+   * - CI mode: `.auth/ci-<stage>-login.json` (default role), `.auth/ci-<stage>-admin-login.json`, ...
+   * - Local mode: `.auth/local-<stage>-login.json` (default role), `.auth/local-<stage>-admin-login.json`, ...
    * Also ensures the directory exists and optionally resets file to empty state
    * @param shouldResetFile Whether to reset the file to an empty state (default: false)
+   * @param role The role whose session is stored in the file (default: DEFAULT_USER_ROLE)
    */
-  public static async resolveAuthStateFilePath(shouldResetFile: boolean = false): Promise<string> {
+  public static async resolveAuthStateFilePath(
+    shouldResetFile: boolean = false,
+    role: UserRole = DEFAULT_USER_ROLE,
+  ): Promise<string> {
     try {
       // First ensure the directory exists
       await this.createAuthDirectoryIfNeeded();
 
-      const fileName = AuthStorageManager.isCI
-        ? AuthStorageConstants.CI_AUTH_FILE
-        : AuthStorageConstants.LOCAL_AUTH_FILE;
-      const filePath = FileSystemManager.resolveFilePath(AuthStorageConstants.DIRECTORY, fileName);
+      const filePath = this.getAuthStateFilePath(role);
 
       if (shouldResetFile) {
-        await this.initializeEmptyAuthStateFile();
+        await this.initializeEmptyAuthStateFile(role);
       }
 
       return filePath;
@@ -74,6 +78,16 @@ export default class AuthStorageManager {
     }
   }
 
+  /**
+   * Returns the authentication state file path of a role without touching the file system
+   */
+  public static getAuthStateFilePath(role: UserRole = DEFAULT_USER_ROLE): string {
+    return FileSystemManager.resolveFilePath(
+      AuthStorageConstants.DIRECTORY,
+      UserRoleRegistry.getStorageStateFileName(role),
+    );
+  }
+
   /**
    * Deletes the auth state directory
    */
@@ -97,11 +111,15 @@ export default class AuthStorageManager {
   /**
    * Checks if the auth state file exists
    * @param resetIfExists Whether to reset the file to empty state if it exists (default: false)
+   * @param role The role whose session file is checked (default: DEFAULT_USER_ROLE)
    */
-  public static async doesAuthStateFileExist(resetIfExists: boolean = false): Promise<boolean> {
+  public static async doesAuthStateFileExist(
+    resetIfExists: boolean = false,
+    role: UserRole = DEFAULT_USER_ROLE,
+  ): Promise<boolean> {
     try {
       // This will ensure the directory exists first
-      const filePath = await this.resolveAuthStateFilePath(resetIfExists);
+      const filePath = await this.resolveAuthStateFilePath(resetIfExists, role);
 
       const exists = await FileSystemManager.doesFileExist(filePath);
 
@@ -114,31 +132,30 @@ export default class AuthStorageManager {
   }
 
   /**
-   * Initializes the authentication state file to an empty state.
-   * This method ensures the file reset happens only once per test run.
+   * Initializes the authentication state file of a role to an empty state.
+   * This method ensures the file reset happens only once per role per test run.
    * It creates the file with an empty JSON object if it doesn't exist,
    * or resets it if it does. The directory is created if needed.
    *
    * @returns {Promise<boolean>} true if the file was successfully initialized or had already been reset; false if an error occurred.
    */
-  public static async initializeEmptyAuthStateFile(): Promise<boolean> {
-    // This ensures the reset happens exactly once per test run
-    if (this.hasBeenReset) {
+  public static async initializeEmptyAuthStateFile(
+    role: UserRole = DEFAULT_USER_ROLE,
+  ): Promise<boolean> {
+    // This ensures the reset happens exactly once per role per test run
+    if (this.resetRoles.has(role)) {
       return true;
     }
 
     try {
       // Set the flag to prevent further resets
-      this.hasBeenReset = true;
+      this.resetRoles.add(role);
 
       // Ensure directory exists
       await this.createAuthDirectoryIfNeeded();
 
       // Get the file path
-      const fileName = AuthStorageManager.isCI
-        ? AuthStorageConstants.CI_AUTH_FILE
-        : AuthStorageConstants.LOCAL_AUTH_FILE;
-      const filePath = FileSystemManager.resolveFilePath(AuthStorageConstants.DIRECTORY, fileName);
+      const filePath = this.getAuthStateFilePath(role);
 
       // Create or reset the file with empty JSON object
       await FileSystemManager.writeFile(
@@ -152,7 +169,7 @@ export default class AuthStorageManager {
       return true;
     } catch (error) {
       logger.error(`Failed to initialize auth state file: ${error}`);
-      this.hasBeenReset = false; // Reset flag so it can try again
+      this.resetRoles.delete(role); // Reset flag so it can try again
       return false;
     }
   }
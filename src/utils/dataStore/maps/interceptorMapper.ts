@@ -0,0 +1,9 @@
+import { SharedDataStore } from '../sharedDataStore';
+
+/**
+ * Data store for values captured by the NetworkInterceptor, keyed by test id and shared
+ * with every worker of the run
+ */
+export const InterceptorDataStore = {
+  capturedValues: new SharedDataStore('capturedValues'),
+};
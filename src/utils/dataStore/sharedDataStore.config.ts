@@ -0,0 +1,15 @@
+import { TEST_DATA_TIMEOUTS } from '../../config/timeouts/timeout.config';
+import { SharedDataStoreConfig } from '../../config/types/data/data-store.types';
+
+/**
+ * Location, expiry, locking and retention of the stores shared across workers and projects
+ */
+export const SHARED_DATA_STORE_CONFIG: SharedDataStoreConfig = {
+  directory: '.testData/shared',
+  defaultTtlMs: undefined,
+  lock: {
+    timeoutMs: TEST_DATA_TIMEOUTS.lockAcquisition,
+    staleMs: TEST_DATA_TIMEOUTS.staleLock,
+  },
+  retentionMs: 7 * 24 * 60 * 60_000,
+};
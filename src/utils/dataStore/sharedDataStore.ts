@@ -0,0 +1,219 @@
+import path from 'path';
+import {
+  SharedDataEntry,
+  SharedDataFile,
+  SharedDataStoreConfig,
+  StorableValue,
+} from '../../config/types/data/data-store.types';
+import { PersistentTestDataStore } from '../../testData/store/persistentTestDataStore';
+import ErrorHandler from '../errors/errorHandler';
+import FileLock from '../fileSystem/fileLock';
+import FileSystemManager from '../fileSystem/fileSystemManager';
+import logger from '../logging/loggerManager';
+import { SHARED_DATA_STORE_CONFIG } from './sharedDataStore.config';
+
+/**
+ * File-backed store behind TestDataStoreManager, visible to every worker and
+ * project of a run (e.g. values captured in the setup project). Values are kept per scope,
+ * which is a test id or a shared key such as 'setup', and may expire after a TTL.
+ *
+ * The store is `<directory>/<runId>/<name>.json`. Writes replace it atomically behind a lock
+ * file; reads need no lock because the file is only ever replaced whole.
+ *
+ * @example
+ * await sharedDataStore.setValue('setup', 'applicant', { id: 42, products: ['loan'] });
+ * const applicant = await sharedDataStore.getValue('setup', 'applicant', true);
+ */
+export class SharedDataStore {
+  private readonly name: string;
+  private readonly runId: string;
+  private readonly workerId: string;
+  private readonly config: SharedDataStoreConfig;
+
+  constructor(
+    name: string = 'shared',
+    options: { runId?: string; workerId?: string } = {},
+    config: SharedDataStoreConfig = SHARED_DATA_STORE_CONFIG,
+  ) {
+    this.name = name;
+    this.runId = options.runId ?? PersistentTestDataStore.getRunId();
+    this.workerId = options.workerId ?? `worker-${process.env.TEST_WORKER_INDEX ?? 'main'}`;
+    this.config = config;
+  }
+
+  /**
+   * Deletes the stores of runs last written longer ago than the retention period
+   * @returns The ids of the deleted runs
+   */
+  public static async prune(
+    config: SharedDataStoreConfig = SHARED_DATA_STORE_CONFIG,
+  ): Promise<string[]> {
+    const directory = FileSystemManager.getDirectoryPath(config.directory);
+
+    if (!(await FileSystemManager.doesDirectoryExist(directory))) {
+      return [];
+    }
+
+    try {
+      const listing = await FileSystemManager.listDirectoryContents(directory, {
+        includeStats: true,
+      });
+      const expiredRuns = (listing.data ?? []).filter(
+        (entry) =>
+          entry.isDirectory && Date.now() - (entry.stats?.mtimeMs ?? 0) > config.retentionMs,
+      );
+
+      for (const run of expiredRuns) {
+        await FileSystemManager.deleteDirectory(path.join(directory, run.name));
+      }
+
+      if (expiredRuns.length > 0) {
+        logger.info(`Pruned shared data of ${expiredRuns.length} run(s) from ${config.directory}`);
+      }
+      return expiredRuns.map((run) => run.name);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'prune', 'Failed to prune the shared data stores');
+      throw error;
+    }
+  }
+
+  /**
+   * Sets a value for a scope
+   * @param testId - The test id, or a shared key such as 'setup'
+   * @param key - The key to store the value at
+   * @param value - Any storable value, including nested objects and arrays
+   * @param ttlMs - Expire the value after this many milliseconds (defaults to the config)
+   */
+  public async setValue(
+    testId: string,
+    key: string,
+    value: StorableValue,
+    ttlMs: number | undefined = this.config.defaultTtlMs,
+  ): Promise<void> {
+    const now = Date.now();
+    const entry: SharedDataEntry = {
+      value,
+      updatedAt: new Date(now).toISOString(),
+      expiresAt: ttlMs !== undefined ? new Date(now + ttlMs).toISOString() : undefined,
+      workerId: this.workerId,
+    };
+
+    await this.update('setValue', (data) => {
+      data[testId] = { ...data[testId], [key]: entry };
+    });
+    logger.info(`Key "${key}" set for "${testId}" in shared store '${this.name}'.`);
+  }
+
+  /**
+   * Retrieves an unexpired value
+   * @param testId - The test id, or a shared key such as 'setup'
+   * @param key - The key to retrieve the value for
+   * @param throwIfMissing - Whether to throw when the value is missing or expired
+   * @param defaultValue - Value returned when missing and not throwing
+   */
+  public async getValue<V extends StorableValue = StorableValue>(
+    testId: string,
+    key: string,
+    throwIfMissing: boolean = false,
+    defaultValue: V | null = null,
+  ): Promise<V | null> {
+    const entry = (await this.read())[testId]?.[key];
+
+    if (!entry) {
+      const message = `Key "${key}" is not set for "${testId}" in shared store '${this.name}'.`;
+      if (throwIfMissing) {
+        ErrorHandler.logAndThrow(message, 'getValue');
+      }
+      logger.warn(message);
+      return defaultValue;
+    }
+    return entry.value as V;
+  }
+
+  public async hasField(testId: string, key: string): Promise<boolean> {
+    return Boolean((await this.read())[testId]?.[key]);
+  }
+
+  public async hasTest(testId: string): Promise<boolean> {
+    return Boolean((await this.read())[testId]);
+  }
+
+  public async removeTest(testId: string): Promise<void> {
+    await this.update('removeTest', (data) => {
+      delete data[testId];
+    });
+  }
+
+  /**
+   * Returns the unexpired entries, e.g. to attach them to the report of a failed test
+   * @param testId - Limit the dump to one scope
+   */
+  public async dump(testId?: string): Promise<SharedDataFile> {
+    const data = await this.read();
+    return testId ? { [testId]: data[testId] ?? {} } : data;
+  }
+
+  private getFilePath(): string {
+    return path.join(
+      FileSystemManager.getDirectoryPath(this.config.directory),
+      this.runId,
+      `${this.name}.json`,
+    );
+  }
+
+  private async read(): Promise<SharedDataFile> {
+    try {
+      return this.removeExpired(await this.readFile(this.getFilePath()));
+    } catch (error) {
+      ErrorHandler.captureError(error, 'read', `Failed to read shared store '${this.name}'`);
+      throw error;
+    }
+  }
+
+  private async update(operation: string, mutate: (data: SharedDataFile) => void): Promise<void> {
+    const filePath = this.getFilePath();
+
+    try {
+      await FileLock.withLock(
+        `${filePath}.lock`,
+        async () => {
+          const data = this.removeExpired(await this.readFile(filePath));
+          mutate(data);
+          await FileSystemManager.writeFileAtomic(
+            filePath,
+            JSON.stringify(data, null, 2),
+            'sharedDataStore',
+          );
+        },
+        this.config.lock,
+      );
+    } catch (error) {
+      ErrorHandler.captureError(error, operation, `Failed to update shared store '${this.name}'`);
+      throw error;
+    }
+  }
+
+  private async readFile(filePath: string): Promise<SharedDataFile> {
+    if (!(await FileSystemManager.doesFileExist(filePath))) {
+      return {};
+    }
+
+    const content = await FileSystemManager.readFile(filePath);
+    return content.trim() ? (JSON.parse(content) as SharedDataFile) : {};
+  }
+
+  private removeExpired(data: SharedDataFile): SharedDataFile {
+    const now = Date.now();
+    const live: SharedDataFile = {};
+
+    for (const [testId, entries] of Object.entries(data)) {
+      const liveEntries = Object.entries(entries).filter(
+        ([, entry]) => !entry.expiresAt || Date.parse(entry.expiresAt) > now,
+      );
+      if (liveEntries.length > 0) {
+        live[testId] = Object.fromEntries(liveEntries);
+      }
+    }
+    return live;
+  }
+}
@@ -0,0 +1,218 @@
+import { ConnectionPool, Request, Transaction, config as SqlConfig } from 'mssql';
+import { EnvironmentResolver } from '../../config/environment/resolver/environmentResolver';
+import { DB_TIMEOUTS } from '../../config/timeouts/timeout.config';
+import { DatabaseClientOptions } from '../../config/types/database/database-client.types';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { CustomError } from '../errors/customError';
+import ErrorHandler from '../errors/errorHandler';
+import logger from '../logging/loggerManager';
+import { DatabaseQueryRunner } from './databaseQueryRunner';
+import { DatabaseTransaction } from './databaseTransaction';
+
+export class DatabaseClient extends DatabaseQueryRunner {
+  private readonly environmentResolver: EnvironmentResolver;
+  private readonly options: DatabaseClientOptions;
+  private poolPromise?: Promise<ConnectionPool>;
+  private readonly openTransactions = new Set<DatabaseTransaction>();
+
+  constructor(environmentResolver: EnvironmentResolver, options: DatabaseClientOptions = {}) {
+    super();
+    this.environmentResolver = environmentResolver;
+    this.options = options;
+  }
+
+  /**
+   * Starts a transaction on a dedicated pooled connection.
+   * Transactions still open when `rollbackOpenTransactions` is called are rolled back.
+   */
+  public async beginTransaction(): Promise<DatabaseTransaction> {
+    try {
+      const transaction = new Transaction(await this.getPool());
+      await transaction.begin();
+
+      const databaseTransaction = new DatabaseTransaction(transaction);
+      this.openTransactions.add(databaseTransaction);
+      logger.debug('Database transaction started');
+
+      return databaseTransaction;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'beginTransaction', 'Failed to begin database transaction');
+      throw new CustomError(
+        ErrorCategory.TRANSACTION,
+        undefined,
+        'Transaction could not be started',
+      );
+    }
+  }
+
+  /**
+   * Runs the work inside a transaction, committing on success and rolling back on failure
+   * or when it exceeds `DB_TIMEOUTS.transaction`.
+   * @param work - Callback receiving the transaction to run queries on
+   * @returns The value returned by the callback
+   */
+  public async withTransaction<T>(
+    work: (transaction: DatabaseTransaction) => Promise<T>,
+  ): Promise<T> {
+    const transaction = await this.beginTransaction();
+    let timer: NodeJS.Timeout | undefined;
+    let pendingWork: Promise<T> | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () =>
+            reject(
+              new CustomError(
+                ErrorCategory.TIMEOUT,
+                { timeout: DB_TIMEOUTS.transaction },
+                `Transaction exceeded ${DB_TIMEOUTS.transaction}ms`,
+              ),
+            ),
+          DB_TIMEOUTS.transaction,
+        );
+      });
+
+      pendingWork = work(transaction);
+      const result = await Promise.race([pendingWork, timeout]);
+      await transaction.commit();
+      return result;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'withTransaction', 'Transaction failed, rolling back');
+      try {
+        await transaction.rollback();
+      } catch (rollbackError) {
+        // Already captured by the transaction; the work's error is the one the caller needs
+        logger.error(
+          `Rollback after a failed transaction also failed: ${(rollbackError as Error).message}`,
+        );
+      }
+      // After a timeout the work still runs against the rolled back transaction
+      pendingWork?.catch((workError) =>
+        logger.debug(`Timed out transaction work failed: ${(workError as Error).message}`),
+      );
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      this.openTransactions.delete(transaction);
+    }
+  }
+
+  /**
+   * Rolls back every transaction started through this client that is still active
+   * @returns The number of transactions rolled back
+   */
+  public async rollbackOpenTransactions(): Promise<number> {
+    const active = [...this.openTransactions].filter((transaction) => transaction.isActive);
+    this.openTransactions.clear();
+
+    // Each rollback captures its own failure; one failing must not skip the others
+    const results = await Promise.allSettled(active.map((transaction) => transaction.rollback()));
+    const rolledBack = results.filter((result) => result.status === 'fulfilled').length;
+
+    if (rolledBack > 0) {
+      logger.info(`Rolled back ${rolledBack} open database transaction(s)`);
+    }
+    if (rolledBack < active.length) {
+      logger.warn(`Failed to roll back ${active.length - rolledBack} open database transaction(s)`);
+    }
+    return rolledBack;
+  }
+
+  /**
+   * Closes the connection pool, rolling back open transactions first
+   */
+  public async close(): Promise<void> {
+    if (!this.poolPromise) {
+      return;
+    }
+
+    const poolPromise = this.poolPromise;
+    this.poolPromise = undefined;
+
+    try {
+      await this.rollbackOpenTransactions();
+    } finally {
+      await this.closePool(poolPromise);
+    }
+  }
+
+  protected async createRequest(): Promise<Request> {
+    return new Request(await this.getPool());
+  }
+
+  /**
+   * Lazily connects the pool; concurrent callers share the same connection attempt
+   */
+  private async getPool(): Promise<ConnectionPool> {
+    if (!this.poolPromise) {
+      this.poolPromise = this.connect().catch((error) => {
+        this.poolPromise = undefined;
+        throw error;
+      });
+    }
+    return this.poolPromise;
+  }
+
+  private async closePool(poolPromise: Promise<ConnectionPool>): Promise<void> {
+    try {
+      const pool = await poolPromise;
+      await pool.close();
+      logger.debug('Database connection pool closed');
+    } catch (error) {
+      ErrorHandler.captureError(error, 'close', 'Failed to close database connection pool');
+      throw error;
+    }
+  }
+
+  private async connect(): Promise<ConnectionPool> {
+    try {
+      const config = await this.buildConfig();
+      const pool = new ConnectionPool(config);
+      pool.on('error', (error) =>
+        ErrorHandler.captureError(error, 'connectionPool', 'Database connection pool error'),
+      );
+
+      await pool.connect();
+      logger.info(`Connected to database '${config.database}' on ${config.server}`);
+
+      return pool;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'connect', 'Failed to connect to database');
+      throw new CustomError(
+        ErrorCategory.CONNECTION,
+        { cause: error instanceof Error ? error.message : String(error) },
+        'Database connection failed',
+      );
+    }
+  }
+
+  private async buildConfig(): Promise<SqlConfig> {
+    const [credentials, server, database, port] = await Promise.all([
+      this.environmentResolver.getDatabaseCredentials(),
+      this.environmentResolver.getDatabaseServer(),
+      this.environmentResolver.getDatabaseName(),
+      this.environmentResolver.getDatabasePort(),
+    ]);
+
+    return {
+      user: credentials.username,
+      password: credentials.password,
+      server,
+      database,
+      port,
+      connectionTimeout: DB_TIMEOUTS.connection,
+      requestTimeout: DB_TIMEOUTS.query,
+      pool: {
+        min: this.options.poolMin ?? 0,
+        max: this.options.poolMax ?? 10,
+        acquireTimeoutMillis: DB_TIMEOUTS.poolAcquisition,
+        idleTimeoutMillis: DB_TIMEOUTS.idle,
+      },
+      options: {
+        encrypt: this.options.encrypt ?? true,
+        trustServerCertificate: this.options.trustServerCertificate ?? false,
+      },
+    };
+  }
+}
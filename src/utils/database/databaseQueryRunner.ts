@@ -0,0 +1,126 @@
+import { ISqlType, Request } from 'mssql';
+import {
+  DatabaseRow,
+  QueryParameters,
+  RowMapper,
+  SqlParameter,
+} from '../../config/types/database/database-client.types';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { CustomError } from '../errors/customError';
+import ErrorHandler from '../errors/errorHandler';
+import logger from '../logging/loggerManager';
+
+/**
+ * Shared parameterized query execution for pooled connections and transactions
+ */
+export abstract class DatabaseQueryRunner {
+  /**
+   * Creates the mssql request the query will be executed on
+   */
+  protected abstract createRequest(): Promise<Request>;
+
+  /**
+   * Executes a parameterized query and maps every returned row
+   * @param sqlText - SQL text referencing parameters as `@name`
+   * @param parameters - Named parameter values
+   * @param mapper - Optional mapper from raw rows to a typed model
+   * @returns The mapped rows of the first record set
+   */
+  public async query<TRow = DatabaseRow>(
+    sqlText: string,
+    parameters: QueryParameters = {},
+    mapper?: RowMapper<TRow>,
+  ): Promise<TRow[]> {
+    try {
+      const request = this.bindParameters(await this.createRequest(), parameters);
+      const startedAt = Date.now();
+      const result = await request.query<DatabaseRow>(sqlText);
+      const rows = result.recordset ?? [];
+
+      logger.debug(`Query returned ${rows.length} row(s) in ${Date.now() - startedAt}ms`, {
+        sql: sqlText,
+        parameters: Object.keys(parameters),
+      });
+
+      return mapper ? rows.map(mapper) : (rows as unknown as TRow[]);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'query', 'Failed to execute database query');
+      throw this.toQueryError(error, sqlText);
+    }
+  }
+
+  /**
+   * Executes a parameterized query expected to return at most one row
+   * @returns The mapped row, or undefined when no row matched
+   */
+  public async queryOne<TRow = DatabaseRow>(
+    sqlText: string,
+    parameters: QueryParameters = {},
+    mapper?: RowMapper<TRow>,
+  ): Promise<TRow | undefined> {
+    const rows = await this.query(sqlText, parameters, mapper);
+
+    if (rows.length > 1) {
+      throw new CustomError(
+        ErrorCategory.QUERY,
+        { sql: sqlText, rowCount: rows.length },
+        `Expected at most one row but query returned ${rows.length}`,
+      );
+    }
+
+    return rows[0];
+  }
+
+  /**
+   * Executes a parameterized statement (INSERT/UPDATE/DELETE)
+   * @returns The total number of affected rows
+   */
+  public async execute(sqlText: string, parameters: QueryParameters = {}): Promise<number> {
+    try {
+      const request = this.bindParameters(await this.createRequest(), parameters);
+      const result = await request.query(sqlText);
+      const rowsAffected = result.rowsAffected.reduce((total, count) => total + count, 0);
+
+      logger.debug(`Statement affected ${rowsAffected} row(s)`, { sql: sqlText });
+
+      return rowsAffected;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'execute', 'Failed to execute database statement');
+      throw this.toQueryError(error, sqlText);
+    }
+  }
+
+  private bindParameters(request: Request, parameters: QueryParameters): Request {
+    for (const [name, parameter] of Object.entries(parameters)) {
+      if (this.isTypedParameter(parameter)) {
+        request.input(name, parameter.type as ISqlType, parameter.value);
+      } else {
+        request.input(name, parameter);
+      }
+    }
+    return request;
+  }
+
+  private isTypedParameter(
+    parameter: SqlParameter,
+  ): parameter is Extract<SqlParameter, { type: unknown }> {
+    return (
+      parameter !== null &&
+      typeof parameter === 'object' &&
+      !(parameter instanceof Date) &&
+      !Buffer.isBuffer(parameter) &&
+      'type' in parameter
+    );
+  }
+
+  private toQueryError(error: unknown, sqlText: string): unknown {
+    if (error instanceof CustomError) {
+      return error;
+    }
+    return new CustomError(
+      ErrorCategory.QUERY,
+      { sql: sqlText, cause: error instanceof Error ? error.message : String(error) },
+      'Database query failed',
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { Request, Transaction } from 'mssql';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { CustomError } from '../errors/customError';
+import ErrorHandler from '../errors/errorHandler';
+import logger from '../logging/loggerManager';
+import { DatabaseQueryRunner } from './databaseQueryRunner';
+
+/**
+ * A started transaction; every query runs on the transaction's connection
+ * until it is committed or rolled back.
+ */
+export class DatabaseTransaction extends DatabaseQueryRunner {
+  private readonly transaction: Transaction;
+  private completed = false;
+
+  constructor(transaction: Transaction) {
+    super();
+    this.transaction = transaction;
+  }
+
+  public get isActive(): boolean {
+    return !this.completed;
+  }
+
+  public async commit(): Promise<void> {
+    this.ensureActive('commit');
+    try {
+      await this.transaction.commit();
+      this.completed = true;
+      logger.debug('Database transaction committed');
+    } catch (error) {
+      ErrorHandler.captureError(error, 'commit', 'Failed to commit database transaction');
+      throw new CustomError(ErrorCategory.TRANSACTION, undefined, 'Transaction commit failed');
+    }
+  }
+
+  /**
+   * Rolls back the transaction; calling it on a completed transaction is a no-op
+   */
+  public async rollback(): Promise<void> {
+    if (this.completed) {
+      return;
+    }
+    try {
+      await this.transaction.rollback();
+      logger.debug('Database transaction rolled back');
+    } catch (error) {
+      ErrorHandler.captureError(error, 'rollback', 'Failed to roll back database transaction');
+      throw new CustomError(ErrorCategory.TRANSACTION, undefined, 'Transaction rollback failed');
+    } finally {
+      this.completed = true;
+    }
+  }
+
+  protected async createRequest(): Promise<Request> {
+    this.ensureActive('query');
+    return new Request(this.transaction);
+  }
+
+  private ensureActive(operation: string): void {
+    if (this.completed) {
+      throw new CustomError(
+        ErrorCategory.TRANSACTION,
+        { operation },
+        `Cannot ${operation}: transaction has already been completed`,
+      );
+    }
+  }
+}
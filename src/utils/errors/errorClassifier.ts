@@ -0,0 +1,99 @@
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { ErrorDetails } from '../../config/types/errors/error-handler.types';
+import {
+  ClassifiedFailure,
+  ErrorClassificationGroup,
+} from '../../config/types/reporting/error-classification.types';
+import ErrorProcessor from './errorProcessor';
+
+/**
+ * Picks the error that explains a failed test from the errors ErrorHandler captured, and
+ * groups failed tests by category and target for the error classification report.
+ */
+export default class ErrorClassifier {
+  /** Name of the attachment holding the errors captured during a failed test */
+  public static readonly ATTACHMENT_NAME = 'error-classification';
+
+  /**
+   * Picks the captured error behind a failure. The first error whose message is part of the
+   * failure message wins: it was captured closest to where the failure happened.
+   * @param capturedErrors - The errors captured during the test, oldest first
+   * @param failureMessage - The error message Playwright reported for the test
+   * @param location - Where the failure happened, used when nothing was captured
+   */
+  public static selectPrimaryError(
+    capturedErrors: ErrorDetails[],
+    failureMessage: string,
+    location = 'test',
+  ): ErrorDetails {
+    const cleanedFailure = ErrorProcessor.cleanMessage(failureMessage);
+    const matching = capturedErrors.find(
+      (details) => !!details.message && cleanedFailure.includes(details.message),
+    );
+    const primary = matching ?? capturedErrors[0];
+    if (primary) {
+      return primary;
+    }
+
+    // Plain assertion failures never pass through ErrorHandler; classify the reported error
+    return ErrorProcessor.createErrorDetails(new Error(failureMessage), location);
+  }
+
+  /**
+   * Gets what a failure is grouped under: the API path for HTTP errors, the page object for
+   * page actions, or else the method that captured the error
+   */
+  public static getTarget(details: ErrorDetails): string {
+    if (details.url) {
+      try {
+        return new URL(details.url, 'http://localhost').pathname;
+      } catch {
+        return details.url;
+      }
+    }
+    return details.source.replace(/\.performAction$/, '');
+  }
+
+  /**
+   * Gets the enum key of a category, e.g. LOCATOR for LOCATOR_NOT_FOUND_ERROR
+   */
+  public static getCategoryName(category: ErrorCategory): string {
+    const entry = Object.entries(ErrorCategory).find(([, value]) => value === category);
+    return entry ? entry[0] : String(category);
+  }
+
+  /**
+   * Groups failures by category and target, largest group first
+   */
+  public static groupFailures(failures: ClassifiedFailure[]): ErrorClassificationGroup[] {
+    const groups = new Map<string, ErrorClassificationGroup>();
+
+    for (const failure of failures) {
+      const key = `${failure.category}|${failure.target}`;
+      const group = groups.get(key) ?? {
+        category: failure.category,
+        categoryName: this.getCategoryName(failure.category),
+        target: failure.target,
+        count: 0,
+        tests: [],
+        sampleMessage: failure.message,
+      };
+      group.count++;
+      group.tests.push(failure.title);
+      groups.set(key, group);
+    }
+
+    return [...groups.values()].sort(
+      (a, b) => b.count - a.count || a.categoryName.localeCompare(b.categoryName),
+    );
+  }
+
+  /**
+   * Describes a group in one line, e.g. "14 LOCATOR failures on BranchPage"
+   */
+  public static describeGroup(group: ErrorClassificationGroup): string {
+    return `${group.count} ${group.categoryName} failure${group.count === 1 ? '' : 's'} on ${
+      group.target
+    }`;
+  }
+}
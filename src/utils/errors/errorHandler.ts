@@ -7,9 +7,13 @@ export default class ErrorHandler {
   // Cache with timestamps to enable time-based expiration
   private static loggedErrors = new Map<string, number>();
 
+  // Errors captured since the last reset, for the error classification report of the test
+  private static capturedErrors: ErrorDetails[] = [];
+
   // Configuration constants
   private static readonly MAX_CACHE_SIZE = 1000;
   private static readonly CACHE_TTL = 1000 * 60 * 20; // 20 minutes in milliseconds
+  private static readonly MAX_CAPTURED_ERRORS = 50;
 
   /**
    * Enhanced error capture with better context handling
@@ -18,6 +22,7 @@ export default class ErrorHandler {
     try {
       // Generate error details
       const details = ErrorProcessor.createErrorDetails(error, source, context);
+      this.recordCapturedError(details);
 
       // Create a cache key to avoid duplicate logging
       const cacheKey = ErrorProcessor.createCacheKey(details);
@@ -147,6 +152,29 @@ export default class ErrorHandler {
     this.captureError(error, source, context ? `${context} (non-fatal)` : 'Non-fatal error');
   }
 
+  /**
+   * Get the errors captured since the last reset, oldest first
+   */
+  public static getCapturedErrors(): ErrorDetails[] {
+    return [...this.capturedErrors];
+  }
+
+  /**
+   * Forget the captured errors, e.g. at the start of a test
+   */
+  public static resetCapturedErrors(): void {
+    this.capturedErrors = [];
+  }
+
+  /**
+   * Keep the details of a captured error, including errors that are not logged again
+   */
+  private static recordCapturedError(details: ErrorDetails): void {
+    if (this.capturedErrors.length < this.MAX_CAPTURED_ERRORS) {
+      this.capturedErrors.push(details);
+    }
+  }
+
   /**
    * Reset the logged errors cache (useful for testing)
    */
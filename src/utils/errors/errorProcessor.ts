@@ -1,3 +1,4 @@
+import axios from 'axios';
 import * as interfaces from '../../config/types/errors/error-handler.types';
 import { ErrorCategory } from '../../config/types/enums/error-category.enum';
 import { CustomError } from './customError';
@@ -31,6 +32,11 @@ export default class ErrorProcessor {
       version: process.env.APP_VERSION,
     };
 
+    if (axios.isAxiosError(error)) {
+      details.statusCode = error.response?.status;
+      details.url = error.config?.url;
+    }
+
     return details;
   }
 
@@ -312,8 +318,9 @@ export default class ErrorProcessor {
    */
   private static analyzeAppError(error: CustomError): { category: ErrorCategory; context: string } {
     return {
-      category:
-        error.category in ErrorCategory ? (error.category as ErrorCategory) : ErrorCategory.UNKNOWN,
+      category: Object.values(ErrorCategory).includes(error.category)
+        ? error.category
+        : ErrorCategory.UNKNOWN,
       context: `App Error: ${(error.category as string) || 'Unknown'}`,
     };
   }
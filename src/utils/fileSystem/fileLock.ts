@@ -0,0 +1,159 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { FileLockOptions } from '../../config/types/fileSystem/File-system-operations.types';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { CustomError } from '../errors/customError';
+import ErrorHandler from '../errors/errorHandler';
+import logger from '../logging/loggerManager';
+
+export default class FileLock {
+  private static readonly DEFAULT_RETRY_INTERVAL_MS = 250;
+
+  /**
+   * Runs a task while holding an exclusive lock file, so only one process (e.g. one
+   * Playwright worker) runs it at a time. The lock is created with `wx`, which fails when
+   * another process already holds it; waiting processes poll until it is released.
+   *
+   * @param lockPath - Path of the lock file, e.g. `.auth/local-uat-login.json.lock`
+   * @param task - The work to run while holding the lock
+   * @param options - Wait timeout, stale lock age and poll interval
+   * @throws {CustomError} If the lock could not be acquired within the timeout
+   */
+  public static async withLock<T>(
+    lockPath: string,
+    task: () => Promise<T>,
+    options: FileLockOptions,
+  ): Promise<T> {
+    const token = await this.acquire(lockPath, options);
+    const heartbeat = this.keepFresh(lockPath, options.staleMs);
+
+    try {
+      return await task();
+    } finally {
+      clearInterval(heartbeat);
+      await this.release(lockPath, token);
+    }
+  }
+
+  /**
+   * Touches the lock while it is held, so a task that runs longer than `staleMs`
+   * (e.g. a slow SSO login) is not mistaken for a crashed holder
+   */
+  private static keepFresh(lockPath: string, staleMs: number): NodeJS.Timeout {
+    const heartbeat = setInterval(
+      () => {
+        const now = new Date();
+        fs.promises.utimes(lockPath, now, now).catch((error) => {
+          logger.debug(`Could not refresh lock ${lockPath}: ${error}`);
+        });
+      },
+      Math.max(staleMs / 3, 10),
+    );
+    // The heartbeat must not keep the process alive on its own
+    heartbeat.unref();
+    return heartbeat;
+  }
+
+  /**
+   * @returns The token written into the lock file, which identifies this holder
+   */
+  private static async acquire(lockPath: string, options: FileLockOptions): Promise<string> {
+    const retryIntervalMs = options.retryIntervalMs ?? this.DEFAULT_RETRY_INTERVAL_MS;
+    const deadline = Date.now() + options.timeoutMs;
+    const token = `${process.pid}-${Date.now()}-${randomUUID()}`;
+
+    await fs.promises.mkdir(path.dirname(lockPath), { recursive: true });
+
+    while (true) {
+      try {
+        const handle = await fs.promises.open(lockPath, 'wx');
+        await handle.writeFile(JSON.stringify({ pid: process.pid, acquiredAt: Date.now(), token }));
+        await handle.close();
+        logger.debug(`Acquired lock: ${lockPath}`);
+        return token;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          ErrorHandler.captureError(error, 'acquire', `Failed to create lock file: ${lockPath}`);
+          throw error;
+        }
+      }
+
+      if (await this.breakIfStale(lockPath, options.staleMs)) {
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new CustomError(
+          ErrorCategory.TIMEOUT,
+          { lockPath, timeoutMs: options.timeoutMs },
+          `Timed out after ${options.timeoutMs}ms waiting for lock: ${lockPath}`,
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, retryIntervalMs));
+    }
+  }
+
+  /**
+   * Breaks a stale lock. The lock is renamed to a file only this waiter knows, which is atomic,
+   * so of several waiters only one takes it. If the renamed lock is not the stale one that was
+   * checked (another waiter broke it and acquired a fresh lock in between), it is put back.
+   */
+  private static async breakIfStale(lockPath: string, staleMs: number): Promise<boolean> {
+    const brokenPath = `${lockPath}.${process.pid}-${randomUUID()}.stale`;
+
+    try {
+      const { mtimeMs } = await fs.promises.stat(lockPath);
+      if (Date.now() - mtimeMs < staleMs) {
+        return false;
+      }
+      const staleContent = await fs.promises.readFile(lockPath, 'utf-8');
+
+      await fs.promises.rename(lockPath, brokenPath);
+      if ((await fs.promises.readFile(brokenPath, 'utf-8')) !== staleContent) {
+        await this.restoreLock(brokenPath, lockPath);
+        return false;
+      }
+
+      await fs.promises.rm(brokenPath, { force: true });
+      logger.warn(`Removed stale lock older than ${staleMs}ms: ${lockPath}`);
+      return true;
+    } catch (error) {
+      // Released or broken by another waiter in the meantime; retry straight away
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true;
+      }
+      throw error;
+    }
+  }
+
+  private static async restoreLock(brokenPath: string, lockPath: string): Promise<void> {
+    try {
+      // link fails instead of replacing a lock acquired in the meantime
+      await fs.promises.link(brokenPath, lockPath);
+    } catch (error) {
+      logger.warn(`Could not restore a lock taken by mistake: ${lockPath} (${error})`);
+    } finally {
+      await fs.promises.rm(brokenPath, { force: true });
+    }
+  }
+
+  /**
+   * Removes the lock, unless it was broken as stale and now belongs to another process
+   */
+  private static async release(lockPath: string, token: string): Promise<void> {
+    try {
+      const content = await fs.promises.readFile(lockPath, 'utf-8').catch(() => '');
+      if (!content.includes(token)) {
+        logger.warn(`Lock was broken as stale while it was held: ${lockPath}`);
+        return;
+      }
+
+      await fs.promises.rm(lockPath, { force: true });
+      logger.debug(`Released lock: ${lockPath}`);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'release', `Failed to release lock: ${lockPath}`);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import zlib from 'zlib';
+import { ZipEntry } from '../../config/types/fileSystem/File-system-operations.types';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { CustomError } from '../errors/customError';
+
+const SIGNATURES = {
+  LOCAL_FILE: 0x04034b50,
+  CENTRAL_DIRECTORY: 0x02014b50,
+  END_OF_CENTRAL_DIRECTORY: 0x06054b50,
+};
+
+const METHOD = { STORED: 0, DEFLATED: 8 };
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_MARKER = 0xffffffff;
+
+// zlib.crc32 only exists from Node 20.15, so the checksum is computed here
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+/**
+ * Reads and writes plain zip archives, such as Playwright trace files, with zlib.
+ * Supports stored and deflated entries; zip64 archives (over 4 GB) are rejected.
+ */
+export default class ZipArchive {
+  /**
+   * Extracts every file of an archive
+   * @param archive - The zip file contents
+   * @returns The files in archive order
+   * @throws CustomError when the archive is malformed or uses an unsupported feature
+   */
+  public static read(archive: Buffer): ZipEntry[] {
+    const endOffset = this.findEndOfCentralDirectory(archive);
+    const entryCount = archive.readUInt16LE(endOffset + 10);
+    let offset = archive.readUInt32LE(endOffset + 16);
+
+    const entries: ZipEntry[] = [];
+    for (let index = 0; index < entryCount; index++) {
+      if (archive.readUInt32LE(offset) !== SIGNATURES.CENTRAL_DIRECTORY) {
+        throw this.invalidArchive('central directory entry not found', { offset });
+      }
+
+      const method = archive.readUInt16LE(offset + 10);
+      const compressedSize = archive.readUInt32LE(offset + 20);
+      const nameLength = archive.readUInt16LE(offset + 28);
+      const extraLength = archive.readUInt16LE(offset + 30);
+      const commentLength = archive.readUInt16LE(offset + 32);
+      const localOffset = archive.readUInt32LE(offset + 42);
+      const name = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      if (compressedSize === ZIP64_MARKER || localOffset === ZIP64_MARKER) {
+        throw this.invalidArchive('zip64 archives are not supported', { name });
+      }
+
+      const dataStart =
+        localOffset +
+        30 +
+        archive.readUInt16LE(localOffset + 26) +
+        archive.readUInt16LE(localOffset + 28);
+      const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+      entries.push({ name, data: this.decompress(data, method, name) });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  }
+
+  /**
+   * Builds an archive with every file deflated
+   * @param entries - The files to store
+   * @returns The zip file contents
+   */
+  public static write(entries: ZipEntry[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    const { time, date } = this.toDosDateTime(new Date());
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name, 'utf-8');
+      const compressed = zlib.deflateRawSync(entry.data);
+      const crc = this.crc32(entry.data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(SIGNATURES.LOCAL_FILE, 0);
+      local.writeUInt16LE(20, 4); // Version needed to extract
+      local.writeUInt16LE(0x0800, 6); // UTF-8 names
+      local.writeUInt16LE(METHOD.DEFLATED, 8);
+      local.writeUInt16LE(time, 10);
+      local.writeUInt16LE(date, 12);
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(entry.data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(SIGNATURES.CENTRAL_DIRECTORY, 0);
+      central.writeUInt16LE(20, 4); // Version made by
+      local.copy(central, 6, 4, 26); // Version needed, flags, method, time, date, crc, sizes
+      central.writeUInt16LE(name.length, 28);
+      central.writeUInt32LE(offset, 42);
+
+      localParts.push(local, name, compressed);
+      centralParts.push(central, name);
+      offset += local.length + name.length + compressed.length;
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+    end.writeUInt32LE(SIGNATURES.END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+  }
+
+  private static findEndOfCentralDirectory(archive: Buffer): number {
+    // The record is at the end, followed by a comment of at most 64 KB
+    const lowest = Math.max(0, archive.length - END_OF_CENTRAL_DIRECTORY_SIZE - 0xffff);
+    for (let offset = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowest; offset--) {
+      if (archive.readUInt32LE(offset) === SIGNATURES.END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw this.invalidArchive('end of central directory not found', { size: archive.length });
+  }
+
+  private static decompress(data: Buffer, method: number, name: string): Buffer {
+    switch (method) {
+      case METHOD.STORED:
+        return Buffer.from(data);
+      case METHOD.DEFLATED:
+        return zlib.inflateRawSync(data);
+      default:
+        throw this.invalidArchive(`compression method ${method} is not supported`, { name });
+    }
+  }
+
+  private static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static toDosDateTime(value: Date): { time: number; date: number } {
+    return {
+      time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1),
+      date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    };
+  }
+
+  private static invalidArchive(reason: string, details: Record<string, unknown>): CustomError {
+    return new CustomError(ErrorCategory.PARSING, details, `Invalid zip archive: ${reason}`);
+  }
+}
@@ -0,0 +1,61 @@
+import { FlakyTestConfig, TestRunRecord } from '../../config/types/reporting/flaky-test.types';
+import { FLAKY_TEST_CONFIG } from './flakyTest.config';
+
+/**
+ * Scores how often a test passes only on retry or flips between passing and failing from one
+ * run to the next, and decides whether it counts as flaky.
+ */
+export default class FlakinessAnalyzer {
+  public static readonly SEPARATOR = ' › ';
+
+  /**
+   * Gets the title a test is listed and quarantined under, the same in every project
+   * @param titlePath - The title path starting with the file, e.g. `testInfo.titlePath`
+   */
+  public static getTitle(titlePath: string[]): string {
+    return titlePath
+      .filter(Boolean)
+      .map((part) => part.replace(/\\/g, '/'))
+      .join(this.SEPARATOR);
+  }
+
+  /**
+   * Gets the key of the outcome history of a test in one project
+   */
+  public static getTestKey(project: string, title: string): string {
+    return `${project}${this.SEPARATOR}${title}`;
+  }
+
+  /**
+   * Gets the share of runs that passed only on retry, or whose pass or fail differs from the
+   * run before
+   * @returns A score from 0 (stable) to 1
+   */
+  public static calculateScore(runs: TestRunRecord[]): number {
+    if (runs.length === 0) return 0;
+
+    const unstableRuns = runs.filter(
+      (run, index) =>
+        run.outcome === 'flaky' ||
+        (index > 0 && (run.outcome === 'failed') !== (runs[index - 1].outcome === 'failed')),
+    ).length;
+    return Math.round((unstableRuns / runs.length) * 100) / 100;
+  }
+
+  /**
+   * Decides whether a test is flaky. A test that passed first time in each of the last
+   * `stableRuns` runs is stable again, whatever its score.
+   */
+  public static isFlaky(
+    runs: TestRunRecord[],
+    config: FlakyTestConfig = FLAKY_TEST_CONFIG,
+  ): boolean {
+    if (runs.length < config.minRuns) return false;
+
+    const recentRuns = runs.slice(-config.stableRuns);
+    const isStableAgain =
+      recentRuns.length === config.stableRuns &&
+      recentRuns.every((run) => run.outcome === 'passed');
+    return !isStableAgain && this.calculateScore(runs) >= config.flakyThreshold;
+  }
+}
@@ -0,0 +1,19 @@
+import { TEST_DATA_TIMEOUTS } from '../../config/timeouts/timeout.config';
+import { FlakyTestConfig } from '../../config/types/reporting/flaky-test.types';
+
+/**
+ * Where outcome history and the quarantine list are kept, and when a test counts as flaky
+ */
+export const FLAKY_TEST_CONFIG: FlakyTestConfig = {
+  historyPath: '.testData/flaky/history.json',
+  summaryPath: '.testData/flaky/summary.json',
+  quarantinePath: 'src/config/quarantine/flakyQuarantine.json',
+  maxHistory: 20,
+  minRuns: 5,
+  flakyThreshold: 0.2,
+  stableRuns: 5,
+  lock: {
+    timeoutMs: TEST_DATA_TIMEOUTS.lockAcquisition,
+    staleMs: TEST_DATA_TIMEOUTS.staleLock,
+  },
+};
@@ -0,0 +1,111 @@
+import {
+  FlakyTestConfig,
+  FlakyTestHistoryFile,
+  FlakyTestSummary,
+  FlakyTestSummaryEntry,
+  TestHistory,
+  TestRunInput,
+} from '../../config/types/reporting/flaky-test.types';
+import ErrorHandler from '../errors/errorHandler';
+import FileLock from '../fileSystem/fileLock';
+import FileSystemManager from '../fileSystem/fileSystemManager';
+import FlakinessAnalyzer from './flakinessAnalyzer';
+import { FLAKY_TEST_CONFIG } from './flakyTest.config';
+
+/**
+ * Outcome history of every test across runs, kept in `historyPath` (JSON). Each run appends
+ * one record per test and rescores it. Writes replace the file atomically behind a lock file,
+ * so shards on the same machine can record their runs at the same time.
+ */
+export class FlakyTestHistory {
+  private readonly config: FlakyTestConfig;
+
+  constructor(config: FlakyTestConfig = FLAKY_TEST_CONFIG) {
+    this.config = config;
+  }
+
+  public async read(): Promise<FlakyTestHistoryFile> {
+    try {
+      return await this.readFile();
+    } catch (error) {
+      ErrorHandler.captureError(error, 'read', 'Failed to read the flaky test history');
+      throw error;
+    }
+  }
+
+  /**
+   * Appends the outcomes of a run and rescores the tests that ran
+   * @param runId - The run the outcomes belong to
+   * @param outcomes - The final outcome of each test that ran and was not skipped
+   * @returns The flaky tests, and the tests that became flaky or stable with this run
+   */
+  public async record(runId: string, outcomes: TestRunInput[]): Promise<FlakyTestSummary> {
+    const filePath = FileSystemManager.getDirectoryPath(this.config.historyPath);
+    const summary: FlakyTestSummary = { runId, flaky: [], newlyFlaky: [], newlyStable: [] };
+
+    try {
+      await FileLock.withLock(
+        `${filePath}.lock`,
+        async () => {
+          const history = await this.readFile();
+          const timestamp = new Date().toISOString();
+
+          for (const outcome of outcomes) {
+            const key = FlakinessAnalyzer.getTestKey(outcome.project, outcome.title);
+            const previous = history.tests[key];
+            const runs = [
+              ...(previous?.runs ?? []),
+              { runId, timestamp, outcome: outcome.outcome, retries: outcome.retries },
+            ].slice(-this.config.maxHistory);
+
+            const test: TestHistory = {
+              title: outcome.title,
+              file: outcome.file,
+              project: outcome.project,
+              runs,
+              flakinessScore: FlakinessAnalyzer.calculateScore(runs),
+              isFlaky: FlakinessAnalyzer.isFlaky(runs, this.config),
+            };
+            history.tests[key] = test;
+
+            if (test.isFlaky && !previous?.isFlaky) summary.newlyFlaky.push(this.toEntry(test));
+            if (!test.isFlaky && previous?.isFlaky) summary.newlyStable.push(this.toEntry(test));
+          }
+
+          summary.flaky = Object.values(history.tests)
+            .filter((test) => test.isFlaky)
+            .map((test) => this.toEntry(test))
+            .sort((a, b) => b.flakinessScore - a.flakinessScore);
+
+          history.updatedAt = timestamp;
+          await FileSystemManager.writeFileAtomic(
+            filePath,
+            JSON.stringify(history, null, 2),
+            'flakyTestHistory',
+          );
+        },
+        this.config.lock,
+      );
+      return summary;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'record', 'Failed to record the flaky test history');
+      throw error;
+    }
+  }
+
+  private async readFile(): Promise<FlakyTestHistoryFile> {
+    const filePath = FileSystemManager.getDirectoryPath(this.config.historyPath);
+    if (!(await FileSystemManager.doesFileExist(filePath))) {
+      return { updatedAt: '', tests: {} };
+    }
+
+    const content = await FileSystemManager.readFile(filePath);
+    return content.trim()
+      ? (JSON.parse(content) as FlakyTestHistoryFile)
+      : { updatedAt: '', tests: {} };
+  }
+
+  private toEntry(test: TestHistory): FlakyTestSummaryEntry {
+    return { title: test.title, project: test.project, flakinessScore: test.flakinessScore };
+  }
+}
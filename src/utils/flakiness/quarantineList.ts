@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { CustomError } from '../errors/customError';
+import { ErrorCategory } from '../../config/types/enums/error-category.enum';
+import { FlakyTestConfig, QuarantineEntry } from '../../config/types/reporting/flaky-test.types';
+import ErrorHandler from '../errors/errorHandler';
+import FlakinessAnalyzer from './flakinessAnalyzer';
+import { FLAKY_TEST_CONFIG } from './flakyTest.config';
+
+/**
+ * The tests quarantined by hand in `quarantinePath`. The test fixture marks them as fixme,
+ * and playwright.quarantine.config.ts runs them in their own project. Read synchronously
+ * because that config selects the project's tests with it.
+ */
+export default class QuarantineList {
+  /** The non-blocking project of playwright.quarantine.config.ts */
+  public static readonly PROJECT_NAME = 'quarantine';
+
+  private static readonly entries = new Map<string, QuarantineEntry[]>();
+
+  public static getEntries(config: FlakyTestConfig = FLAKY_TEST_CONFIG): QuarantineEntry[] {
+    const filePath = path.resolve(process.cwd(), config.quarantinePath);
+    const cached = this.entries.get(filePath);
+    if (cached) return cached;
+
+    const entries = this.readEntries(filePath);
+    this.entries.set(filePath, entries);
+    return entries;
+  }
+
+  /**
+   * Finds the quarantine entry of a test
+   * @param title - The title from FlakinessAnalyzer.getTitle
+   */
+  public static find(
+    title: string,
+    config: FlakyTestConfig = FLAKY_TEST_CONFIG,
+  ): QuarantineEntry | undefined {
+    return this.getEntries(config).find((entry) => entry.title === title);
+  }
+
+  /**
+   * Gets the files holding quarantined tests, relative to the test directory
+   */
+  public static getFiles(config: FlakyTestConfig = FLAKY_TEST_CONFIG): string[] {
+    return [
+      ...new Set(
+        this.getEntries(config).map((entry) => entry.title.split(FlakinessAnalyzer.SEPARATOR)[0]),
+      ),
+    ];
+  }
+
+  /**
+   * Gets one pattern per quarantined test, for the `grep` of the quarantine project.
+   * Playwright greps `<project> <file> <describes…> <title>` with the tags of each part after
+   * it, and the file path uses the separators of the OS.
+   */
+  public static getTitlePatterns(config: FlakyTestConfig = FLAKY_TEST_CONFIG): RegExp[] {
+    return this.getEntries(config).map((entry) => this.toTitlePattern(entry.title));
+  }
+
+  private static toTitlePattern(title: string): RegExp {
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const tags = '(?:\\s@\\S+)*';
+    const [file, ...titles] = title.split(FlakinessAnalyzer.SEPARATOR);
+    const parts = [file.split('/').map(escape).join('[\\\\/]'), ...titles.map(escape)];
+
+    return new RegExp(`(?:^|\\s)${parts.join(`${tags}\\s`)}${tags}$`);
+  }
+
+  private static readEntries(filePath: string): QuarantineEntry[] {
+    if (!fs.existsSync(filePath)) return [];
+
+    try {
+      const { tests } = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as {
+        tests?: QuarantineEntry[];
+      };
+      if (!Array.isArray(tests)) {
+        throw new CustomError(
+          ErrorCategory.CONFIGURATION,
+          { filePath },
+          `Quarantine list must hold a "tests" array: ${filePath}`,
+        );
+      }
+      return tests;
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'readEntries',
+        `Failed to read quarantine list: ${filePath}`,
+      );
+      throw error;
+    }
+  }
+}
@@ -2,8 +2,13 @@ import winston, { format } from 'winston';
 import moment from 'moment-timezone';
 import path from 'path';
 import fs from 'fs';
-import { DEFAULT_LOGGER_CONFIG } from '../../../src/config/types/config/logger.types';
+import {
+  DEFAULT_LOGGER_CONFIG,
+  LogFormat,
+  TEST_LOG_CONTEXT_KEYS,
+} from '../../../src/config/types/config/logger.types';
 import type { EnvironmentStage } from '../../../src/config/environment/dotenv/types';
+import SanitizationConfig from '../sanitization/sanitizationConfig';
 
 export default class WinstonLoggerFactory {
   /**
@@ -12,24 +17,70 @@ export default class WinstonLoggerFactory {
    */
   public static logCustomFormat() {
     return winston.format.printf(({ level, message, timestamp, ...meta }) => {
-      const metaStr = Object.keys(meta).length ? ` ${JSON.stringify(meta)}` : '';
-      return `${timestamp} [${level}]: ${message}${metaStr}`;
+      const { correlation, rest } = this.splitTestContext(meta);
+      const metaStr = Object.keys(rest).length ? ` ${JSON.stringify(rest)}` : '';
+      return `${timestamp} [${level}]${correlation}: ${message}${metaStr}`;
     });
   }
 
+  /**
+   * Creates a JSON Lines format: one JSON object per line, including the test context
+   * @returns {winston.Logform.Format} A winston format object
+   */
+  public static logJsonFormat() {
+    return winston.format.json();
+  }
+
+  /**
+   * Creates the format of the log files, chosen by LOG_FORMAT
+   * @returns {winston.Logform.Format} A winston format object
+   */
+  public static createFileFormat() {
+    return winston.format.combine(
+      winston.format.uncolorize(), // Ensure no colors in files
+      this.customTimestampFormat(),
+      this.getLogFormat() === 'json' ? this.logJsonFormat() : this.logCustomFormat(),
+    );
+  }
+
+  /**
+   * Returns the log file format from LOG_FORMAT ('text' or 'json')
+   */
+  public static getLogFormat(): LogFormat {
+    const format = process.env.LOG_FORMAT?.toLowerCase();
+    return format === 'json' || format === 'text' ? format : DEFAULT_LOGGER_CONFIG.LOG_FORMAT;
+  }
+
   /**
    * Creates a custom log format for console with colors
    * @returns {winston.Logform.Format} A winston format object
    */
   public static logCustomFormatColored() {
     return winston.format.printf(({ level, message, timestamp, ...meta }) => {
-      const metaStr = Object.keys(meta).length ? ` ${JSON.stringify(meta)}` : '';
+      const { correlation, rest } = this.splitTestContext(meta);
+      const metaStr = Object.keys(rest).length ? ` ${JSON.stringify(rest)}` : '';
       // Apply colors only to the level part, keep timestamp and message structure intact
       const coloredLevel = winston.format.colorize().colorize(level, level.toUpperCase());
-      return `${timestamp} [${coloredLevel}]: ${message}${metaStr}`;
+      return `${timestamp} [${coloredLevel}]${correlation}: ${message}${metaStr}`;
     });
   }
 
+  /**
+   * Creates a format that masks sensitive keys and secrets in the message and metadata,
+   * applied before any transport formats the entry
+   * @returns {winston.Logform.Format} A winston format object
+   */
+  public static redactionFormat() {
+    let sanitize: ReturnType<typeof SanitizationConfig.createLogSanitizer> | undefined;
+
+    return winston.format((info) => {
+      // Created on first use: SanitizationConfig imports this logger, so it may still be
+      // loading when the format is built
+      sanitize ??= SanitizationConfig.createLogSanitizer();
+      return Object.assign(info, sanitize(info));
+    })();
+  }
+
   /**
    * Creates a custom timestamp format using winston's format.timestamp()
    * @returns {winston.Logform.Format} A winston format object
@@ -47,16 +98,11 @@ export default class WinstonLoggerFactory {
    * @returns Object containing all file transports
    */
   public static createFileTransports(loggingDir: string) {
-    const timestampFormat = this.customTimestampFormat();
-    const customFormat = this.logCustomFormat();
+    const fileFormat = this.createFileFormat();
 
     const baseTransportConfig = {
       maxsize: DEFAULT_LOGGER_CONFIG.LOG_FILE_LIMIT,
-      format: winston.format.combine(
-        winston.format.uncolorize(), // Ensure no colors in files
-        timestampFormat,
-        customFormat,
-      ),
+      format: fileFormat,
     };
 
     return {
@@ -66,9 +112,7 @@ export default class WinstonLoggerFactory {
         level: DEFAULT_LOGGER_CONFIG.LOG_LEVEL_INFO,
         format: winston.format.combine(
           this.levelFilter(DEFAULT_LOGGER_CONFIG.LOG_LEVEL_INFO),
-          winston.format.uncolorize(),
-          timestampFormat,
-          customFormat,
+          fileFormat,
         ),
       }),
       warn: new winston.transports.File({
@@ -77,9 +121,7 @@ export default class WinstonLoggerFactory {
         level: DEFAULT_LOGGER_CONFIG.LOG_LEVEL_WARN,
         format: winston.format.combine(
           this.levelFilter(DEFAULT_LOGGER_CONFIG.LOG_LEVEL_WARN),
-          winston.format.uncolorize(),
-          timestampFormat,
-          customFormat,
+          fileFormat,
         ),
       }),
       error: new winston.transports.File({
@@ -88,9 +130,7 @@ export default class WinstonLoggerFactory {
         level: DEFAULT_LOGGER_CONFIG.LOG_LEVEL_ERROR,
         format: winston.format.combine(
           this.levelFilter(DEFAULT_LOGGER_CONFIG.LOG_LEVEL_ERROR),
-          winston.format.uncolorize(),
-          timestampFormat,
-          customFormat,
+          fileFormat,
         ),
       }),
       debug: new winston.transports.File({
@@ -99,9 +139,7 @@ export default class WinstonLoggerFactory {
         level: DEFAULT_LOGGER_CONFIG.LOG_LEVEL_DEBUG,
         format: winston.format.combine(
           this.levelFilter(DEFAULT_LOGGER_CONFIG.LOG_LEVEL_DEBUG),
-          winston.format.uncolorize(),
-          timestampFormat,
-          customFormat,
+          fileFormat,
         ),
       }),
     };
@@ -140,6 +178,7 @@ export default class WinstonLoggerFactory {
 
     return winston.createLogger({
       level: DEFAULT_LOGGER_CONFIG.LOG_LEVEL_DEBUG, // Set to lowest level, let transports filter
+      format: this.redactionFormat(),
       transports: [
         fileTransports.info,
         fileTransports.warn,
@@ -151,21 +190,13 @@ export default class WinstonLoggerFactory {
       exceptionHandlers: [
         new winston.transports.File({
           filename: this.resolvePath(loggingDir, 'exceptions.log'),
-          format: winston.format.combine(
-            winston.format.uncolorize(),
-            this.customTimestampFormat(),
-            this.logCustomFormat(),
-          ),
+          format: winston.format.combine(this.redactionFormat(), this.createFileFormat()),
         }),
       ],
       rejectionHandlers: [
         new winston.transports.File({
           filename: this.resolvePath(loggingDir, 'rejections.log'),
-          format: winston.format.combine(
-            winston.format.uncolorize(),
-            this.customTimestampFormat(),
-            this.logCustomFormat(),
-          ),
+          format: winston.format.combine(this.redactionFormat(), this.createFileFormat()),
         }),
       ],
     });
@@ -199,6 +230,20 @@ export default class WinstonLoggerFactory {
     }
   }
 
+  /**
+   * Separates the test context from the rest of the metadata, so text lines show only the
+   * correlation id of the test instead of the full context
+   */
+  private static splitTestContext(meta: Record<string, unknown>): {
+    correlation: string;
+    rest: Record<string, unknown>;
+  } {
+    const rest = Object.fromEntries(
+      Object.entries(meta).filter(([key]) => !TEST_LOG_CONTEXT_KEYS.includes(key)),
+    );
+    return { correlation: meta.correlationId ? ` [${meta.correlationId}]` : '', rest };
+  }
+
   /**
    * Creates a level filter format
    */
@@ -1,9 +1,15 @@
 import winston from 'winston';
 import WinstonLoggerFactory from './loggerFactory';
-import { DEFAULT_LOGGER_CONFIG, LoggerMetadata } from '../../config/types/config/logger.types';
+import { TestLogCollector } from './testLogCollector';
+import {
+  DEFAULT_LOGGER_CONFIG,
+  LoggerMetadata,
+  TestLogContext,
+} from '../../config/types/config/logger.types';
 
-class LoggerManager {
+export class LoggerManager {
   private static instance: winston.Logger;
+  private static testLogCollector?: TestLogCollector;
 
   /**
    * Retrieves the singleton logger instance
@@ -38,6 +44,59 @@ class LoggerManager {
     return this.getLogger().child(meta);
   }
 
+  /**
+   * Tags every line logged until stopTestLogging() with the test context, and starts
+   * collecting those lines for the per-test log file
+   * @param context - The test the following lines belong to
+   * @returns {winston.Logger} Child logger carrying the test context
+   */
+  public static startTestLogging(context: TestLogContext): winston.Logger {
+    if (this.testLogCollector) {
+      this.getLogger().remove(this.testLogCollector.transport);
+    }
+
+    const meta: LoggerMetadata = {
+      correlationId: context.testId,
+      sessionId: process.env.TEST_RUN_ID,
+      testTitle: context.title,
+      project: context.project,
+      workerIndex: context.workerIndex,
+      retry: context.retry,
+      shard: context.shard,
+    };
+
+    // Tests in a worker run one at a time, so module loggers can share the context
+    const logger = this.getLogger();
+    logger.defaultMeta = meta;
+    this.testLogCollector = new TestLogCollector(
+      DEFAULT_LOGGER_CONFIG.LOG_LEVEL_DEBUG,
+      WinstonLoggerFactory.createFileFormat(),
+    );
+    logger.add(this.testLogCollector.transport);
+
+    return this.createChildLogger(meta);
+  }
+
+  /**
+   * Stops tagging and collecting the lines of the current test
+   * @returns The formatted lines logged since startTestLogging()
+   */
+  public static async stopTestLogging(): Promise<string[]> {
+    const collector = this.testLogCollector;
+    if (!collector) {
+      return [];
+    }
+
+    // Let lines still passing through the logger stream reach the collector
+    await new Promise<void>((resolve) => setImmediate(resolve));
+
+    const logger = this.getLogger();
+    logger.remove(collector.transport);
+    logger.defaultMeta = undefined;
+    this.testLogCollector = undefined;
+    return collector.getLines();
+  }
+
   /**
    * Safely closes the logger and all its transports
    */
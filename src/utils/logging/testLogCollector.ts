@@ -0,0 +1,25 @@
+import { Writable } from 'stream';
+import winston from 'winston';
+
+/**
+ * Keeps the formatted lines logged during one test in memory, so they can be written to a
+ * per-test log file and attached to the report.
+ */
+export class TestLogCollector {
+  public readonly transport: winston.transport;
+  private readonly lines: string[] = [];
+
+  constructor(level: string, format: winston.Logform.Format) {
+    const stream = new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        this.lines.push(chunk.toString().trimEnd());
+        callback();
+      },
+    });
+    this.transport = new winston.transports.Stream({ stream, level, format });
+  }
+
+  public getLines(): string[] {
+    return [...this.lines];
+  }
+}
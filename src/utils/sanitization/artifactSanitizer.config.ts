@@ -0,0 +1,14 @@
+import { ArtifactSanitizerConfig } from '../../config/types/reporting/artifact-sanitizer.types';
+import SanitizationConfig from './sanitizationConfig';
+import { DefaultSecretPatterns } from './sanitizationDefaults';
+
+export const ARTIFACT_SANITIZER_CONFIG: ArtifactSanitizerConfig = {
+  sanitizationParams: {
+    ...SanitizationConfig.getDefaultParams(),
+    customPatterns: DefaultSecretPatterns.map(({ pattern }) => pattern),
+    maxStringLength: undefined, // Truncating would corrupt bodies and snapshots
+    truncateUrls: false,
+  },
+  sensitiveSelectorHints: ['password', 'secret', 'token', 'otp', 'cvv'],
+  typingActions: ['fill', 'type', 'pressSequentially'],
+};
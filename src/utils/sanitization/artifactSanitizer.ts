@@ -0,0 +1,376 @@
+import path from 'path';
+import {
+  ArtifactSanitizerConfig,
+  HarBody,
+  HarEntry,
+  NameValuePair,
+} from '../../config/types/reporting/artifact-sanitizer.types';
+import { FileEncoding } from '../../config/types/enums/file-encoding.enum';
+import ErrorHandler from '../errors/errorHandler';
+import FileSystemManager from '../fileSystem/fileSystemManager';
+import ZipArchive from '../fileSystem/zipArchive';
+import logger from '../logging/loggerManager';
+import { ARTIFACT_SANITIZER_CONFIG } from './artifactSanitizer.config';
+import SanitizationConfig from './sanitizationConfig';
+
+/**
+ * Rewrites test artifacts so they can be published: Playwright trace zips (network entries,
+ * action parameters, input values in DOM snapshots and request/response bodies), HAR files
+ * and JSON attachments. Headers, cookies and fields with sensitive names are masked, and
+ * secrets in text are redacted through SanitizationConfig.
+ */
+export default class ArtifactSanitizer {
+  /**
+   * Sanitizes a trace, HAR or JSON file in place
+   * @param filePath - The artifact to rewrite
+   * @returns Whether the file type is supported and was rewritten
+   */
+  public static async sanitizeFile(
+    filePath: string,
+    config: ArtifactSanitizerConfig = ARTIFACT_SANITIZER_CONFIG,
+  ): Promise<boolean> {
+    const extension = path.extname(filePath).toLowerCase();
+
+    try {
+      if (extension === '.zip') {
+        const archive = Buffer.from(
+          await FileSystemManager.readFile(filePath, FileEncoding.BASE64),
+          'base64',
+        );
+        const sanitized = this.sanitizeTrace(archive, config);
+        await this.writeFile(filePath, sanitized.toString('base64'), FileEncoding.BASE64);
+        return true;
+      }
+
+      if (extension === '.har' || extension === '.json') {
+        const content = await FileSystemManager.readFile(filePath);
+        await this.writeFile(filePath, this.sanitizeJson(content, config), FileEncoding.UTF8);
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'sanitizeFile', `Failed to sanitize artifact: ${filePath}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Sanitizes the network entries, actions, snapshots and bodies of a Playwright trace
+   * @param archive - The trace zip contents
+   * @returns The rewritten trace zip
+   */
+  public static sanitizeTrace(
+    archive: Buffer,
+    config: ArtifactSanitizerConfig = ARTIFACT_SANITIZER_CONFIG,
+  ): Buffer {
+    const entries = ZipArchive.read(archive);
+    const bodyMimeTypes = new Map<string, string | undefined>();
+
+    // Event files first: they name the resources that hold request and response bodies
+    for (const entry of entries) {
+      if (entry.name.endsWith('.trace') || entry.name.endsWith('.network')) {
+        const events = this.sanitizeTraceEvents(
+          entry.data.toString('utf-8'),
+          bodyMimeTypes,
+          config,
+        );
+        entry.data = Buffer.from(events, 'utf-8');
+      }
+    }
+
+    for (const entry of entries) {
+      if (bodyMimeTypes.has(entry.name)) {
+        const mimeType = bodyMimeTypes.get(entry.name);
+        if (this.isTextMimeType(mimeType)) {
+          const body = this.sanitizeBody(entry.data.toString('utf-8'), mimeType, config);
+          entry.data = Buffer.from(body, 'utf-8');
+        }
+      }
+    }
+
+    return ZipArchive.write(entries);
+  }
+
+  /**
+   * Sanitizes a HAR file, or any other JSON document
+   * @param content - The JSON text
+   * @returns The sanitized JSON text
+   */
+  public static sanitizeJson(
+    content: string,
+    config: ArtifactSanitizerConfig = ARTIFACT_SANITIZER_CONFIG,
+  ): string {
+    const document = JSON.parse(content) as { log?: { entries?: HarEntry[] } };
+
+    if (Array.isArray(document.log?.entries)) {
+      document.log.entries.forEach((entry) => this.sanitizeHarEntry(entry, config));
+      return JSON.stringify(document, null, 2);
+    }
+    return JSON.stringify(
+      SanitizationConfig.sanitizeData(document, config.sanitizationParams),
+      null,
+      2,
+    );
+  }
+
+  /**
+   * Masks headers, cookies, query and form parameters and bodies of a HAR entry in place
+   * @param bodyMimeTypes - Collects the trace resources holding the bodies, with their types
+   */
+  public static sanitizeHarEntry(
+    entry: HarEntry,
+    config: ArtifactSanitizerConfig = ARTIFACT_SANITIZER_CONFIG,
+    bodyMimeTypes?: Map<string, string | undefined>,
+  ): void {
+    const { request, response } = entry;
+    const maskValue = config.sanitizationParams.maskValue;
+
+    if (request) {
+      if (request.url) request.url = this.sanitizeUrl(request.url, config);
+      request.headers = this.maskSensitivePairs(request.headers, config);
+      request.queryString = this.maskSensitivePairs(request.queryString, config);
+      request.cookies = request.cookies?.map((cookie) => ({ ...cookie, value: maskValue }));
+      if (request.postData) this.sanitizeHarBody(request.postData, config, bodyMimeTypes);
+    }
+
+    if (response) {
+      response.headers = this.maskSensitivePairs(response.headers, config);
+      response.cookies = response.cookies?.map((cookie) => ({ ...cookie, value: maskValue }));
+      if (response.content) this.sanitizeHarBody(response.content, config, bodyMimeTypes);
+    }
+  }
+
+  private static sanitizeTraceEvents(
+    content: string,
+    bodyMimeTypes: Map<string, string | undefined>,
+    config: ArtifactSanitizerConfig,
+  ): string {
+    return content
+      .split('\n')
+      .map((line) => {
+        if (!line.trim()) return line;
+
+        let event: Record<string, unknown>;
+        try {
+          event = JSON.parse(line) as Record<string, unknown>;
+        } catch {
+          return line;
+        }
+
+        switch (event.type) {
+          case 'resource-snapshot':
+            this.sanitizeHarEntry(event.snapshot as HarEntry, config, bodyMimeTypes);
+            break;
+          case 'before':
+            event.params = this.sanitizeActionParams(
+              String(event.method),
+              event.params as Record<string, unknown> | undefined,
+              config,
+            );
+            break;
+          case 'after':
+            event.result = this.sanitizeActionResult(event.result, config);
+            break;
+          case 'log':
+            event.message = this.sanitizeLogMessage(String(event.message ?? ''), config);
+            break;
+          case 'frame-snapshot':
+            this.maskSnapshotInputs((event.snapshot as { html?: unknown })?.html, config);
+            break;
+        }
+        for (const key of ['title', 'subtitle']) {
+          if (typeof event[key] === 'string') {
+            event[key] = this.sanitizeUrl(event[key], config);
+          }
+        }
+        return JSON.stringify(event);
+      })
+      .join('\n');
+  }
+
+  /**
+   * Masks the typed value of actions on sensitive fields, and sensitive request parameters
+   */
+  private static sanitizeActionParams(
+    method: string,
+    params: Record<string, unknown> | undefined,
+    config: ArtifactSanitizerConfig,
+  ): Record<string, unknown> | undefined {
+    if (!params) return params;
+
+    const sanitized = SanitizationConfig.sanitizeData(params, config.sanitizationParams);
+    if (typeof params.url === 'string') {
+      sanitized.url = this.sanitizeUrl(params.url, config);
+    }
+    if (Array.isArray(params.headers)) {
+      sanitized.headers = this.maskSensitivePairs(params.headers as NameValuePair[], config);
+    }
+    if (typeof params.jsonData === 'string') {
+      sanitized.jsonData = this.sanitizeBody(params.jsonData, 'application/json', config);
+    }
+    if (
+      config.typingActions.includes(method) &&
+      this.matchesHint(String(params.selector ?? ''), config)
+    ) {
+      for (const key of ['value', 'text']) {
+        if (key in sanitized) sanitized[key] = config.sanitizationParams.maskValue;
+      }
+    }
+    return sanitized;
+  }
+
+  /**
+   * Masks the url and headers of the response returned by an API request
+   */
+  private static sanitizeActionResult(result: unknown, config: ArtifactSanitizerConfig): unknown {
+    const response = (result as { response?: Record<string, unknown> } | undefined)?.response;
+    if (!response) return result;
+
+    if (typeof response.url === 'string') {
+      response.url = this.sanitizeUrl(response.url, config);
+    }
+    if (Array.isArray(response.headers)) {
+      response.headers = this.maskSensitivePairs(response.headers as NameValuePair[], config);
+    }
+    return result;
+  }
+
+  /**
+   * Masks the request line and `name: value` header lines logged by API requests
+   */
+  private static sanitizeLogMessage(message: string, config: ArtifactSanitizerConfig): string {
+    const header = /^(\s*)([\w-]+): (.*)$/.exec(message);
+    if (header && this.isSensitiveName(header[2], config)) {
+      return `${header[1]}${header[2]}: ${config.sanitizationParams.maskValue}`;
+    }
+    return this.sanitizeUrl(message, config);
+  }
+
+  /**
+   * Masks the recorded value of inputs whose name, id or type is sensitive. Snapshot nodes
+   * are `[tagName, attributes?, ...children]`.
+   */
+  private static maskSnapshotInputs(node: unknown, config: ArtifactSanitizerConfig): void {
+    if (!Array.isArray(node) || typeof node[0] !== 'string') return;
+
+    const attributes =
+      node[1] && typeof node[1] === 'object' && !Array.isArray(node[1])
+        ? (node[1] as Record<string, string>)
+        : undefined;
+
+    if (attributes && ['INPUT', 'TEXTAREA'].includes(node[0].toUpperCase())) {
+      const identity = ['name', 'id', 'type', 'formcontrolname', 'autocomplete']
+        .map((attribute) => attributes[attribute] ?? '')
+        .join(' ');
+      if (this.matchesHint(identity, config)) {
+        for (const attribute of ['value', '__playwright_value_']) {
+          if (attribute in attributes) attributes[attribute] = config.sanitizationParams.maskValue;
+        }
+      }
+    }
+
+    node.slice(attributes ? 2 : 1).forEach((child) => this.maskSnapshotInputs(child, config));
+  }
+
+  private static sanitizeHarBody(
+    body: HarBody,
+    config: ArtifactSanitizerConfig,
+    bodyMimeTypes?: Map<string, string | undefined>,
+  ): void {
+    body.params = this.maskSensitivePairs(body.params, config);
+    if (typeof body.text === 'string' && body.encoding !== 'base64') {
+      body.text = this.sanitizeBody(body.text, body.mimeType, config);
+    }
+    if (body._file) {
+      bodyMimeTypes?.set(body._file, body.mimeType);
+    } else if (body._sha1) {
+      bodyMimeTypes?.set(`resources/${body._sha1}`, body.mimeType);
+    }
+  }
+
+  private static sanitizeBody(
+    text: string,
+    mimeType: string | undefined,
+    config: ArtifactSanitizerConfig,
+  ): string {
+    const type = mimeType?.toLowerCase() ?? '';
+
+    if (type.includes('json') || /^\s*[[{]/.test(text)) {
+      try {
+        const sanitized = SanitizationConfig.sanitizeData(
+          JSON.parse(text),
+          config.sanitizationParams,
+        );
+        return JSON.stringify(sanitized);
+      } catch {
+        // Not JSON after all; sanitized as text below
+      }
+    }
+
+    if (type.includes('x-www-form-urlencoded')) {
+      const params = new URLSearchParams(text);
+      for (const [name] of params) {
+        if (this.isSensitiveName(name, config))
+          params.set(name, config.sanitizationParams.maskValue);
+      }
+      return params.toString();
+    }
+
+    return SanitizationConfig.sanitizeData(text, config.sanitizationParams);
+  }
+
+  /**
+   * Masks sensitive query parameters in a url, or in text containing urls
+   */
+  private static sanitizeUrl(text: string, config: ArtifactSanitizerConfig): string {
+    const masked = text.replace(
+      /([?&])([^=&#\s"]+)=([^&#\s"]*)/g,
+      (match: string, separator: string, name: string) =>
+        this.isSensitiveName(name, config)
+          ? `${separator}${name}=${config.sanitizationParams.maskValue}`
+          : match,
+    );
+    return SanitizationConfig.sanitizeData(masked, config.sanitizationParams);
+  }
+
+  private static maskSensitivePairs(
+    pairs: NameValuePair[] | undefined,
+    config: ArtifactSanitizerConfig,
+  ): NameValuePair[] | undefined {
+    return pairs?.map((pair) => ({
+      ...pair,
+      value: this.isSensitiveName(pair.name, config)
+        ? config.sanitizationParams.maskValue
+        : SanitizationConfig.sanitizeData(pair.value, config.sanitizationParams),
+    }));
+  }
+
+  private static isSensitiveName(name: string, config: ArtifactSanitizerConfig): boolean {
+    const normalize = (value: string) => value.toLowerCase().replace(/[_-]/g, '');
+    return config.sanitizationParams.sensitiveKeys.some((key) =>
+      normalize(name).includes(normalize(key)),
+    );
+  }
+
+  private static matchesHint(value: string, config: ArtifactSanitizerConfig): boolean {
+    return config.sensitiveSelectorHints.some((hint) =>
+      value.toLowerCase().includes(hint.toLowerCase()),
+    );
+  }
+
+  private static isTextMimeType(mimeType: string | undefined): boolean {
+    return !!mimeType && /json|text\/|x-www-form-urlencoded|xml|javascript/i.test(mimeType);
+  }
+
+  private static async writeFile(
+    filePath: string,
+    content: string,
+    encoding: FileEncoding,
+  ): Promise<void> {
+    await FileSystemManager.writeFileAtomic(filePath, content, 'sanitizedArtifact', encoding, {
+      throwOnError: true,
+    });
+    logger.debug(`Sanitized artifact: ${filePath}`);
+  }
+}
@@ -1,21 +1,49 @@
 import { SanitizationParams } from '../../models/utils/sanitization.interface';
-import { DefaultSensitiveKeys, MaskValue, neverTruncateDefaultKeys } from './sanitizationDefaults';
+import {
+  EnhancedSanitizationParams,
+  SanitizationReport,
+  SanitizationResult,
+  SecretPattern,
+} from '../../config/types/config/sanitization.types';
+import {
+  DefaultSecretPatterns,
+  DefaultSensitiveKeys,
+  DefaultSensitiveValuePatterns,
+  MaskValue,
+  neverTruncateDefaultKeys,
+} from './sanitizationDefaults';
 import logger from '../logging/loggerManager';
 
+/**
+ * State carried through one sanitization pass
+ */
+interface SanitizationContext {
+  ancestors: Set<object>;
+  sensitiveKeys: Set<string>;
+  patterns: SecretPattern[];
+  report: SanitizationReport;
+}
+
 export default class SanitizationConfig {
-  private static defaultSanitizationParams: SanitizationParams = {
+  private static defaultSanitizationParams: EnhancedSanitizationParams = {
     sensitiveKeys: DefaultSensitiveKeys,
     maskValue: MaskValue,
     truncateUrls: false,
     maxStringLength: 1000,
     neverTruncateKeys: neverTruncateDefaultKeys,
+    enablePatternDetection: false,
+    reportingEnabled: false,
+    maxDepth: 20,
+    chunkSize: 1000,
   };
 
+  private static secretDetections = new Map<string, number>();
+
   /**
    * Updates the default sanitization parameters
    * @param params Partial sanitization parameters to update
    */
-  public static updateDefaultParams(params: Partial<SanitizationParams>): void {
+  public static updateDefaultParams(params: Partial<EnhancedSanitizationParams>): void {
     this.defaultSanitizationParams = {
       ...this.defaultSanitizationParams,
       ...params,
@@ -26,32 +54,88 @@ export default class SanitizationConfig {
    * Get current default sanitization parameters
    * @returns Current default sanitization parameters
    */
-  public static getDefaultParams(): SanitizationParams {
+  public static getDefaultParams(): EnhancedSanitizationParams {
     return { ...this.defaultSanitizationParams };
   }
 
   /**
-   * Sanitizes sensitive data from an object or error
+   * Sanitizes sensitive data from an object or error.
+   * With `enablePatternDetection`, values are also scanned for emails, card numbers, SA ID
+   * numbers, JWTs and API keys; `customPatterns` are always applied. Objects nested deeper
+   * than `maxDepth` and circular references are replaced with a placeholder.
    * @param data - The data to sanitize
    * @param config - Sanitization configuration
    * @returns Sanitized data
    */
   public static sanitizeData<T>(
     data: T,
-    config: SanitizationParams = this.defaultSanitizationParams,
+    config: EnhancedSanitizationParams = this.defaultSanitizationParams,
   ): T {
-    // Handle null, undefined, or primitive types
-    if (data === null || data === undefined || typeof data !== 'object') {
-      return this.handlePrimitiveValue(data, config);
+    const context = this.createContext(config);
+    const sanitized = this.sanitizeValue(data, config, context, '', 0) as T;
+
+    if (config.reportingEnabled) {
+      this.logReport(context.report);
+    }
+    return sanitized;
+  }
+
+  /**
+   * Sanitizes data like sanitizeData() and reports what was masked
+   * @param data - The data to sanitize
+   * @param config - Sanitization configuration
+   * @returns The sanitized data and the report
+   */
+  public static sanitizeDataWithReport<T>(
+    data: T,
+    config: EnhancedSanitizationParams = this.defaultSanitizationParams,
+  ): SanitizationResult<T> {
+    const context = this.createContext(config);
+    const sanitized = this.sanitizeValue(data, config, context, '', 0) as T;
+    return { data: sanitized, report: context.report };
+  }
+
+  /**
+   * Sanitizes a large array or object `chunkSize` entries at a time, yielding to the event
+   * loop between chunks so big payloads do not block other work
+   * @param data - The data to sanitize
+   * @param config - Sanitization configuration
+   * @returns The sanitized data and the report
+   */
+  public static async sanitizeDataInChunks<T>(
+    data: T,
+    config: EnhancedSanitizationParams = this.defaultSanitizationParams,
+  ): Promise<SanitizationResult<T>> {
+    const context = this.createContext(config);
+
+    if (data === null || typeof data !== 'object') {
+      return {
+        data: this.sanitizeValue(data, config, context, '', 0) as T,
+        report: context.report,
+      };
     }
 
-    // Handle arrays - with proper type preservation
-    if (Array.isArray(data)) {
-      return this.sanitizeArray(data, config) as unknown as T;
+    const chunkSize = Math.max(1, config.chunkSize ?? 1000);
+    const result = (Array.isArray(data) ? [...data] : { ...data }) as Record<string, unknown>;
+    if (!Array.isArray(data)) {
+      this.processSkipProperties(result, config);
     }
+    const keys = Object.keys(result);
 
-    // Handle objects
-    return this.sanitizeObject(data, config);
+    context.ancestors.add(data);
+    for (let start = 0; start < keys.length; start += chunkSize) {
+      for (const key of keys.slice(start, start + chunkSize)) {
+        if (Array.isArray(data)) {
+          result[key] = this.sanitizeArrayItem(result[key], config, context, `[${key}]`, 1);
+        } else {
+          this.sanitizeProperty(result, key, config, context, key, 1);
+        }
+      }
+      await new Promise<void>((resolve) => setImmediate(resolve));
+    }
+    context.ancestors.delete(data);
+
+    return { data: result as T, report: context.report };
   }
 
   /**
@@ -180,48 +264,268 @@ export default class SanitizationConfig {
   }
 
   /**
-   * Creates a sanitization function that can be used with Winston logger
+   * Creates a sanitization function that can be used with Winston logger.
+   * Sensitive keys are masked, then secrets in the remaining text are redacted.
+   * Messages and stack traces are never truncated.
    * @returns A function that sanitizes objects for logging
    */
   public static createLogSanitizer(): (info: Record<string, unknown>) => Record<string, unknown> {
-    return (info: Record<string, unknown>) => this.sanitizeData(info);
+    return (info: Record<string, unknown>) => {
+      const config = this.defaultSanitizationParams;
+      const sanitized = this.sanitizeData(info, {
+        ...config,
+        neverTruncateKeys: [...(config.neverTruncateKeys ?? []), 'message', 'stack'],
+        reportingEnabled: false, // Reporting logs, which would run this sanitizer again
+      });
+      return this.redactSecretsDeep(sanitized) as Record<string, unknown>;
+    };
+  }
+
+  /**
+   * Masks secrets found in free text, e.g. a JWT or connection string inside a log message,
+   * and counts each one by pattern name
+   * @param value - The text to scan
+   * @param patterns - The secret patterns to look for
+   * @returns The text with every secret masked
+   */
+  public static redactSecrets(
+    value: string,
+    patterns: SecretPattern[] = DefaultSecretPatterns,
+  ): string {
+    const maskValue = this.defaultSanitizationParams.maskValue || MaskValue;
+
+    return this.maskPatterns(value, patterns, maskValue, (name) =>
+      this.secretDetections.set(name, (this.secretDetections.get(name) ?? 0) + 1),
+    );
+  }
+
+  /**
+   * Returns how many secrets redactSecrets() masked in this process, by pattern name
+   */
+  public static getSecretDetections(): Record<string, number> {
+    return Object.fromEntries(this.secretDetections);
+  }
+
+  public static resetSecretDetections(): void {
+    this.secretDetections.clear();
   }
 
   // =================== HELPER METHODS ===================
 
+  private static createContext(config: EnhancedSanitizationParams): SanitizationContext {
+    const customPatterns = (config.customPatterns ?? []).map((pattern) => ({
+      name: `custom:${pattern.source}`,
+      pattern: pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+    }));
+
+    return {
+      ancestors: new Set<object>(),
+      // Create a Set for O(1) lookups of sensitive keys
+      sensitiveKeys: new Set(config.sensitiveKeys.map((key) => key.toLowerCase())),
+      patterns: [
+        ...(config.enablePatternDetection ? DefaultSensitiveValuePatterns : []),
+        ...customPatterns,
+      ],
+      report: {
+        keysProcessed: 0,
+        keysSanitized: 0,
+        sanitizedKeys: [],
+        patternsFound: [],
+        circularReferences: 0,
+      },
+    };
+  }
+
+  /**
+   * Masks every match of the patterns, keeping the `keep` group of each match
+   */
+  private static maskPatterns(
+    value: string,
+    patterns: SecretPattern[],
+    maskValue: string,
+    onMatch: (name: string) => void,
+  ): string {
+    return patterns.reduce(
+      (text, { name, pattern, validate }) =>
+        text.replace(pattern, (match: string, ...args: unknown[]) => {
+          const groups = args[args.length - 1];
+          const keep =
+            typeof groups === 'object' && groups !== null
+              ? ((groups as { keep?: string }).keep ?? '')
+              : '';
+          if (validate && !validate(match.substring(keep.length))) {
+            return match;
+          }
+          onMatch(name);
+          return `${keep}${maskValue}`;
+        }),
+      value,
+    );
+  }
+
+  /**
+   * Sanitizes any value, guarding against circular references and excessive depth
+   */
+  private static sanitizeValue(
+    data: unknown,
+    config: EnhancedSanitizationParams,
+    context: SanitizationContext,
+    path: string,
+    depth: number,
+  ): unknown {
+    // Handle null, undefined, or primitive types
+    if (data === null || data === undefined || typeof data !== 'object') {
+      return this.handlePrimitiveValue(data, config, context, path);
+    }
+
+    if (context.ancestors.has(data)) {
+      context.report.circularReferences++;
+      return '[Circular]';
+    }
+    if (config.maxDepth !== undefined && depth > config.maxDepth) {
+      return '[Max depth exceeded]';
+    }
+
+    context.ancestors.add(data);
+    try {
+      // Handle arrays - with proper type preservation
+      if (Array.isArray(data)) {
+        return this.sanitizeArray(data, config, context, path, depth);
+      }
+
+      // Handle objects
+      return this.sanitizeObject(data, config, context, path, depth);
+    } finally {
+      context.ancestors.delete(data);
+    }
+  }
+
+  /**
+   * Masks the pattern matches in a string value and records them in the report
+   */
+  private static detectPatterns(
+    value: string,
+    config: EnhancedSanitizationParams,
+    context: SanitizationContext,
+    path: string,
+  ): string {
+    if (context.patterns.length === 0) return value;
+
+    const { report } = context;
+    let found = false;
+    const masked = this.maskPatterns(value, context.patterns, config.maskValue, (name) => {
+      found = true;
+      if (!report.patternsFound.includes(name)) report.patternsFound.push(name);
+    });
+
+    if (found) {
+      this.recordSanitizedKey(context, path);
+    }
+    return masked;
+  }
+
+  private static recordSanitizedKey(context: SanitizationContext, path: string): void {
+    context.report.keysSanitized++;
+    if (path && !context.report.sanitizedKeys.includes(path)) {
+      context.report.sanitizedKeys.push(path);
+    }
+  }
+
+  private static logReport(report: SanitizationReport): void {
+    logger.debug(`Sanitization masked ${report.keysSanitized} of ${report.keysProcessed} keys`, {
+      sanitizedPaths: report.sanitizedKeys,
+      patternsFound: report.patternsFound,
+      circularReferences: report.circularReferences,
+    });
+  }
+
+  /**
+   * Redacts secrets in every string of a value, including nested objects and arrays
+   */
+  private static redactSecretsDeep(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redactSecrets(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactSecretsDeep(item));
+    }
+    if (value !== null && typeof value === 'object') {
+      const redacted = value as Record<string, unknown>;
+      for (const key of Object.keys(redacted)) {
+        redacted[key] = this.redactSecretsDeep(redacted[key]);
+      }
+      return redacted;
+    }
+    return value;
+  }
+
   /**
    * Handles primitive values during sanitization process
    */
-  private static handlePrimitiveValue<T>(data: T, config: SanitizationParams): T {
+  private static handlePrimitiveValue(
+    data: unknown,
+    config: EnhancedSanitizationParams,
+    context: SanitizationContext,
+    path: string,
+  ): unknown {
+    if (typeof data !== 'string') return data;
+
+    const detected = this.detectPatterns(data, config, context, path);
+
     // Handle string truncation for primitive string values
-    if (typeof data === 'string' && config.maxStringLength) {
-      return this.truncateString(data, config.maxStringLength) as unknown as T;
+    if (config.maxStringLength) {
+      return this.truncateString(detected, config.maxStringLength);
     }
-    return data;
+    return detected;
   }
 
   /**
    * Sanitizes an array by processing each element
    */
-  private static sanitizeArray<T>(data: T[], config: SanitizationParams): T[] {
-    return data.map((item) =>
-      typeof item === 'object' && item !== null ? this.sanitizeData(item, config) : item,
+  private static sanitizeArray(
+    data: unknown[],
+    config: EnhancedSanitizationParams,
+    context: SanitizationContext,
+    path: string,
+    depth: number,
+  ): unknown[] {
+    return data.map((item, index) =>
+      this.sanitizeArrayItem(item, config, context, `${path}[${index}]`, depth + 1),
     );
   }
 
+  private static sanitizeArrayItem(
+    item: unknown,
+    config: EnhancedSanitizationParams,
+    context: SanitizationContext,
+    path: string,
+    depth: number,
+  ): unknown {
+    if (typeof item === 'object' && item !== null) {
+      return this.sanitizeValue(item, config, context, path, depth);
+    }
+    return typeof item === 'string' ? this.detectPatterns(item, config, context, path) : item;
+  }
+
   /**
    * Sanitizes an object by processing its properties
    */
-  private static sanitizeObject<T>(data: T, config: SanitizationParams): T {
-    const sanitizedObject = { ...(data as object) } as Record<string, unknown>;
+  private static sanitizeObject(
+    data: object,
+    config: EnhancedSanitizationParams,
+    context: SanitizationContext,
+    path: string,
+    depth: number,
+  ): Record<string, unknown> {
+    const sanitizedObject = { ...data } as Record<string, unknown>;
 
     // Handle skip properties first
     this.processSkipProperties(sanitizedObject, config);
 
     // Process remaining properties
-    this.processObjectProperties(sanitizedObject, config);
+    this.processObjectProperties(sanitizedObject, config, context, path, depth);
 
-    return sanitizedObject as T;
+    return sanitizedObject;
   }
 
   /**
@@ -251,26 +555,46 @@ export default class SanitizationConfig {
    */
   private static processObjectProperties(
     obj: Record<string, unknown>,
-    config: SanitizationParams,
+    config: EnhancedSanitizationParams,
+    context: SanitizationContext,
+    path: string,
+    depth: number,
   ): void {
-    // Create a Set for O(1) lookups of sensitive keys
-    const sensitiveKeysSet = new Set(config.sensitiveKeys.map((key) => key.toLowerCase()));
-
     Object.keys(obj).forEach((key) => {
-      const value = obj[key];
-
-      // Check if key matches sensitive keys (case-insensitive)
-      if (this.isSensitiveKey(key, sensitiveKeysSet, config.sensitiveKeys)) {
-        obj[key] = config.maskValue;
-      } else if (typeof value === 'string') {
-        obj[key] = this.processStringValue(value, key, config);
-      } else if (typeof value === 'object' && value !== null) {
-        // Recursively sanitize nested objects
-        obj[key] = this.sanitizeData(value, config);
-      }
+      this.sanitizeProperty(obj, key, config, context, path ? `${path}.${key}` : key, depth + 1);
     });
   }
 
+  /**
+   * Sanitizes one property of an object in place
+   */
+  private static sanitizeProperty(
+    obj: Record<string, unknown>,
+    key: string,
+    config: EnhancedSanitizationParams,
+    context: SanitizationContext,
+    path: string,
+    depth: number,
+  ): void {
+    const value = obj[key];
+    context.report.keysProcessed++;
+
+    // Check if key matches sensitive keys (case-insensitive)
+    if (this.isSensitiveKey(key, context.sensitiveKeys, config.sensitiveKeys)) {
+      obj[key] = config.maskValue;
+      this.recordSanitizedKey(context, path);
+    } else if (typeof value === 'string') {
+      obj[key] = this.processStringValue(
+        this.detectPatterns(value, config, context, path),
+        key,
+        config,
+      );
+    } else if (typeof value === 'object' && value !== null) {
+      // Recursively sanitize nested objects
+      obj[key] = this.sanitizeValue(value, config, context, path, depth);
+    }
+  }
+
   /**
    * Checks if a key should be considered sensitive
    */
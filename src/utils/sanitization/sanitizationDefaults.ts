@@ -1,3 +1,5 @@
+import { SecretPattern } from '../../config/types/config/sanitization.types';
+
 /**
  * List of sensitive keys to sanitize
  */
@@ -21,6 +23,75 @@ export const neverTruncateDefaultKeys = [
   'timestamp',
 ];
 
+/**
+ * Secrets detected in free text such as log messages
+ */
+export const DefaultSecretPatterns: SecretPattern[] = [
+  { name: 'jwt', pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g },
+  { name: 'bearerToken', pattern: /(?<keep>\bBearer\s+)[\w\-.~+/]+=*/gi },
+  { name: 'encryptedValue', pattern: /\bENC[23]:[\w+/=:-]+/g },
+  {
+    name: 'connectionString',
+    pattern: /(?<keep>\b(?:Password|Pwd)\s*=\s*)[^;'"\s*][^;'"\s]*/gi,
+  },
+  {
+    name: 'connectionString',
+    pattern: /(?<keep>\b[a-z][\w+.-]*:\/\/[^:/\s@]+:)[^@\s*][^@\s]*(?=@)/gi,
+  },
+];
+
+/**
+ * Checks a digit string against the Luhn checksum used by card and SA ID numbers
+ */
+function passesLuhnCheck(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Checks the YYMMDD birth date, the citizenship digit and the checksum of an SA ID number
+ */
+function isSouthAfricanIdNumber(value: string): boolean {
+  const month = Number(value.substring(2, 4));
+  const day = Number(value.substring(4, 6));
+  return (
+    month >= 1 &&
+    month <= 12 &&
+    day >= 1 &&
+    day <= 31 &&
+    /[012]/.test(value[10]) &&
+    passesLuhnCheck(value)
+  );
+}
+
+/**
+ * Personal data and credentials detected inside values when pattern detection is enabled
+ */
+export const DefaultSensitiveValuePatterns: SecretPattern[] = [
+  { name: 'email', pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g },
+  { name: 'saIdNumber', pattern: /\b\d{13}\b/g, validate: isSouthAfricanIdNumber },
+  {
+    name: 'cardNumber',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => passesLuhnCheck(match.replace(/\D/g, '')),
+  },
+  { name: 'jwt', pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g },
+  {
+    name: 'apiKey',
+    pattern:
+      /\b(?:[sp]k_(?:live|test)_[A-Za-z0-9]{16,}|AKIA[0-9A-Z]{16}|AIza[\w-]{35}|gh[pousr]_[A-Za-z0-9]{36})\b/g,
+  },
+  { name: 'apiKey', pattern: /(?<keep>\bapi[_-]?key["']?\s*[:=]\s*["']?)[\w-]{16,}/gi },
+];
+
 /**
  * Default mask value for sensitive data
  */
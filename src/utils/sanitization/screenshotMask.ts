@@ -0,0 +1,32 @@
+import { Locator, Page } from '@playwright/test';
+import { ExamplePage } from '../../ui/pages/examplePage';
+import { LoginPage } from '../../ui/pages/loginPage';
+import { ARTIFACT_SANITIZER_CONFIG } from './artifactSanitizer.config';
+
+/**
+ * The fields hidden in screenshots attached to a test: the sensitive locators of the page
+ * objects, plus any input whose name or id matches a sensitive selector hint (OTP, token…).
+ */
+export default class ScreenshotMask {
+  /**
+   * @param page - The page the screenshot is taken of
+   * @returns The locators to pass as the `mask` of `page.screenshot`
+   */
+  public static getLocators(page: Page): Locator[] {
+    return [
+      ...new LoginPage(page).getSensitiveLocators(),
+      ...new ExamplePage(page).getSensitiveLocators(),
+      page.locator(this.getHintSelector()),
+    ];
+  }
+
+  private static getHintSelector(): string {
+    const hintSelectors = ARTIFACT_SANITIZER_CONFIG.sensitiveSelectorHints.flatMap((hint) => [
+      `input[name*="${hint}" i]`,
+      `input[id*="${hint}" i]`,
+    ]);
+    return ['input[type="password"]', 'input[autocomplete="one-time-code"]', ...hintSelectors].join(
+      ', ',
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { SharedDataStore } from '../dataStore/sharedDataStore';
+import ErrorHandler from '../errors/errorHandler';
+import logger from '../logging/loggerManager';
+import SanitizationConfig from './sanitizationConfig';
+
+/**
+ * Adds up the secrets redacted from log text by every worker, so the run can end with one
+ * warning instead of the secrets going unnoticed.
+ */
+export default class SecretDetectionReport {
+  private static readonly STORE_NAME = 'secretDetections';
+
+  /**
+   * Publishes the counts of this worker for the global teardown
+   * @param workerId - The worker the counts belong to
+   */
+  public static async publish(workerId: string): Promise<void> {
+    const detections = SanitizationConfig.getSecretDetections();
+    if (Object.keys(detections).length === 0) {
+      return;
+    }
+
+    try {
+      await new SharedDataStore(this.STORE_NAME).setValue(workerId, 'detections', detections);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'publish', 'Failed to publish secret detections');
+    }
+  }
+
+  /**
+   * Sums the published counts of every worker and the counts of this process
+   * @returns The number of redacted secrets by pattern name
+   */
+  public static async collect(): Promise<Record<string, number>> {
+    const totals: Record<string, number> = { ...SanitizationConfig.getSecretDetections() };
+    const published = await new SharedDataStore(this.STORE_NAME).dump();
+
+    for (const entries of Object.values(published)) {
+      const detections = (entries.detections?.value ?? {}) as Record<string, number>;
+      for (const [name, count] of Object.entries(detections)) {
+        totals[name] = (totals[name] ?? 0) + count;
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Logs a warning with the number of secrets redacted during the run
+   */
+  public static async logSummary(): Promise<void> {
+    const totals = await this.collect();
+    const total = Object.values(totals).reduce((sum, count) => sum + count, 0);
+
+    if (total > 0) {
+      const byPattern = Object.entries(totals)
+        .map(([name, count]) => `${name}: ${count}`)
+        .join(', ');
+      logger.warn(
+        `Redacted ${total} secret(s) from log text (${byPattern}). ` +
+          'Log secrets under a sensitive metadata key, or leave them out of messages.',
+      );
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { EnvironmentResolver } from '../../src/config/environment/resolver/environmentResolver';
+import { StorageStateCookie } from '../../src/config/types/api/api-client.types';
+import { ApiClient } from '../../src/utils/api/apiClient';
+import ApiTestExpectation from '../../src/utils/api/apiTestExpectation';
+import ErrorHandler from '../../src/utils/errors/errorHandler';
+
+/**
+ * Echoes the method, path and request headers of every request. `/status/<code>` answers
+ * with that status.
+ */
+function startServer(): Promise<http.Server> {
+  const server = http.createServer((request, response) => {
+    const status = Number(/^\/status\/(\d{3})/.exec(request.url ?? '')?.[1] ?? 200);
+    response.writeHead(status, { 'Content-Type': 'application/json', 'X-Request-Id': 'req-1' });
+    response.end(
+      JSON.stringify({ method: request.method, path: request.url, headers: request.headers }),
+    );
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+interface EchoBody {
+  method: string;
+  path: string;
+  headers: Record<string, string | undefined>;
+}
+
+test.describe('API client @api', () => {
+  let server: http.Server;
+  let apiClient: ApiClient;
+
+  test.beforeAll(async () => {
+    server = await startServer();
+  });
+
+  test.afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test.beforeEach(() => {
+    const { port } = server.address() as AddressInfo;
+    // The base URL option means the resolver is never asked for one
+    apiClient = new ApiClient({} as EnvironmentResolver, {
+      baseUrl: `http://127.0.0.1:${port}`,
+      defaultHeaders: { 'X-Client': 'tests' },
+    });
+    ErrorHandler.resetCapturedErrors();
+  });
+
+  test('sends auth and default headers and maps the response', async () => {
+    apiClient.setBearerToken('token-1');
+
+    const response = await apiClient.post<EchoBody>('/users?active=true', { name: 'Ann' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['x-request-id']).toBe('req-1');
+    expect(response.durationMs).toBeGreaterThanOrEqual(0);
+    expect(response.data).toMatchObject({
+      method: 'POST',
+      path: '/users?active=true',
+      headers: { authorization: 'Bearer token-1', 'x-client': 'tests' },
+    });
+
+    const anonymous = await apiClient.get<EchoBody>('/users', { skipAuth: true });
+    expect(anonymous.data.headers.authorization).toBeUndefined();
+  });
+
+  test('uses only unexpired session cookies of the API host', async () => {
+    const inAnHour = Date.now() / 1000 + 3600;
+    const cookies: StorageStateCookie[] = [
+      { name: 'session', value: 'abc', domain: '127.0.0.1', expires: -1 },
+      { name: 'token', value: 'xyz', domain: '.127.0.0.1', expires: inAnHour },
+      { name: 'expired', value: 'old', domain: '127.0.0.1', expires: 1 },
+      { name: 'tracking', value: 'other', domain: '.example.com', expires: inAnHour },
+    ];
+    const storagePath = test.info().outputPath('auth.json');
+    await fs.writeFile(storagePath, JSON.stringify({ cookies, origins: [] }));
+
+    expect(await apiClient.useStorageStateAuth(storagePath)).toBe(true);
+    const response = await apiClient.get<EchoBody>('/me');
+
+    expect(response.data.headers.cookie).toBe('session=abc; token=xyz');
+  });
+
+  test('keeps requests unauthenticated without usable session cookies', async () => {
+    const storagePath = test.info().outputPath('auth.json');
+    await fs.writeFile(
+      storagePath,
+      JSON.stringify({ cookies: [{ name: 'a', value: 'b', domain: 'example.com', expires: -1 }] }),
+    );
+
+    expect(await apiClient.useStorageStateAuth(test.info().outputPath('missing.json'))).toBe(false);
+    expect(await apiClient.useStorageStateAuth(storagePath)).toBe(false);
+    expect((await apiClient.get<EchoBody>('/me')).data.headers.cookie).toBeUndefined();
+  });
+
+  test('returns registered expected statuses instead of throwing', async () => {
+    const contextKey = `${test.info().testId} create invalid user`;
+    ApiTestExpectation.registerExpectation(contextKey, [422], true);
+
+    try {
+      const response = await apiClient.post<EchoBody>('/status/422', {}, { contextKey });
+      expect(response.status).toBe(422);
+      expect(response.data.path).toBe('/status/422');
+
+      // Other statuses of the same context still fail
+      await expect(apiClient.post('/status/409', {}, { contextKey })).rejects.toThrow(/409/);
+    } finally {
+      ApiTestExpectation.removeExpectation(contextKey);
+    }
+  });
+
+  test('routes unexpected failures through the error handler', async () => {
+    await expect(apiClient.get('/status/500')).rejects.toThrow(/500/);
+
+    const { port } = server.address() as AddressInfo;
+    const unreachable = new ApiClient({} as EnvironmentResolver, {
+      baseUrl: `http://127.0.0.1:${port + 1}`,
+    });
+    await expect(unreachable.delete('/users/1')).rejects.toThrow(/ECONNREFUSED/);
+
+    expect(ErrorHandler.getCapturedErrors().map((error) => error.source)).toEqual([
+      'GET /status/500',
+      'DELETE /users/1',
+    ]);
+  });
+
+  test('does not log expected negative test failures as errors', async () => {
+    const contextKey = `${test.info().testId} missing user`;
+    ApiTestExpectation.registerExpectation(contextKey, [404], true);
+
+    try {
+      // Registered as expected, so the 404 is returned rather than thrown or captured
+      expect((await apiClient.get('/status/404', { contextKey })).status).toBe(404);
+      expect(ErrorHandler.getCapturedErrors()).toEqual([]);
+    } finally {
+      ApiTestExpectation.removeExpectation(contextKey);
+    }
+  });
+});
@@ -1,8 +1,11 @@
-import { test } from '@playwright/test';
+import { test, expect } from '../../fixtures/configurator.fixture';
 
 test.describe('Users API Tests @api @regression', () => {
-  test.skip(
-    'Template placeholder - replace with application-specific API tests',
-    async () => {},
-  );
+  // Template: replace the endpoint and response shape with application-specific ones
+  test.skip('Verify users can be retrieved', async ({ apiClient }) => {
+    const response = await apiClient.get<Array<{ id: string }>>('/users');
+
+    expect(response.status).toBe(200);
+    expect(Array.isArray(response.data)).toBe(true);
+  });
 });
@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import { test as configuratorTest } from '../../fixtures/configurator.fixture';
+import { describeNegativeMatrix } from '../../fixtures/negativeMatrix';
+import { NegativeTestMatrixDefinition } from '../../src/config/types/data/negative-test.types';
+import { Branch, SuperBusinessUnit } from '../../src/models/ui/configurator.interface';
+import { TestDataCleanupRegistry } from '../../src/testData/cleanup/testDataCleanupRegistry';
+import NegativeTestMatrix from '../../src/testData/negative/negativeTestMatrix';
+import {
+  BRANCH_NEGATIVE_MATRIX,
+  SUPER_BUSINESS_UNIT_NEGATIVE_MATRIX,
+} from '../../src/testData/negative/negativeTestMatrix.config';
+import { BRANCH_FORM_FIELDS } from '../../src/ui/components/configuratorForm.config';
+import { ConfiguratorApiService } from '../../src/utils/api/configuratorApiService';
+
+test.describe('Negative test matrix @negative-matrix', () => {
+  test('expands each invalid field and rule into a case', () => {
+    const cases = NegativeTestMatrix.expand(SUPER_BUSINESS_UNIT_NEGATIVE_MATRIX);
+
+    expect(cases.map((testCase) => `${testCase.field}:${testCase.rule}`)).toEqual([
+      'name:empty',
+      'name:tooLong',
+      'contactName:empty',
+      'contactName:tooLong',
+      'contactSurname:empty',
+      'contactSurname:tooLong',
+      'cellphoneNumber:empty',
+      'cellphoneNumber:badFormat',
+      'emailAddress:empty',
+      'emailAddress:badFormat',
+    ]);
+    expect(new Set(cases.map((testCase) => testCase.title)).size).toBe(cases.length);
+  });
+
+  test('invalidates only the field under test', () => {
+    const cases = NegativeTestMatrix.expand(SUPER_BUSINESS_UNIT_NEGATIVE_MATRIX);
+    const tooLongName = cases.find((c) => c.field === 'name' && c.rule === 'tooLong')!;
+    const badEmail = cases.find((c) => c.field === 'emailAddress' && c.rule === 'badFormat')!;
+
+    expect(tooLongName.payload.name).toHaveLength(101);
+    expect(tooLongName.payload.contactName).toBeTruthy();
+    expect(tooLongName.expectedMessage).toBe('exceeds the maximum length');
+    expect(tooLongName.expectedStatusCodes).toEqual([400, 422]);
+
+    expect(badEmail.payload.emailAddress).toBe('invalid-email');
+    expect(badEmail.payload.name).toBeTruthy();
+    expect(badEmail.expectedMessage).toBe('Please enter a valid email address');
+  });
+
+  test('rejects rules that miss their configuration', () => {
+    const matrix: NegativeTestMatrixDefinition<SuperBusinessUnit> = {
+      ...SUPER_BUSINESS_UNIT_NEGATIVE_MATRIX,
+      fields: { cellphoneNumber: { rules: ['badFormat'] } },
+    };
+
+    expect(() => NegativeTestMatrix.expand(matrix)).toThrow(/badFormatValue is required/);
+  });
+
+  test('leaves empty select fields out of the form payload', () => {
+    const cases = NegativeTestMatrix.expand(BRANCH_NEGATIVE_MATRIX);
+    const emptyRegion = cases.find((c) => c.field === 'region' && c.rule === 'empty')!;
+    const emptyName = cases.find((c) => c.field === 'name' && c.rule === 'empty')!;
+
+    const regionPayload = NegativeTestMatrix.getFormPayload(emptyRegion, BRANCH_FORM_FIELDS);
+    expect('region' in regionPayload).toBe(false);
+    expect(regionPayload.name).toBe(emptyRegion.payload.name);
+
+    expect(NegativeTestMatrix.getFormPayload(emptyName, BRANCH_FORM_FIELDS).name).toBe('');
+  });
+});
+
+configuratorTest.describe('Negative test matrix declaration @negative-matrix', () => {
+  const submitted: Partial<Branch>[] = [];
+  const registered: string[] = [];
+
+  configuratorTest.describe.configure({ mode: 'serial' });
+  configuratorTest.use({
+    configuratorApiService: async ({}, use) => {
+      await use({
+        submitInvalidEntity: async (_entityType: string, payload: Partial<Branch>) => {
+          submitted.push(payload);
+          // The API accepts the too long name, so the entity has to be cleaned up
+          return payload.name && payload.name.length > 100
+            ? { status: 201, data: { id: 'accepted-branch' } }
+            : { status: 422, data: {} };
+        },
+      } as unknown as ConfiguratorApiService);
+    },
+    testDataCleanup: async ({}, use) => {
+      await use({
+        register: async (entityType: string, id: string) => {
+          registered.push(`${entityType}:${id}`);
+        },
+      } as unknown as TestDataCleanupRegistry);
+    },
+  });
+
+  describeNegativeMatrix(
+    {
+      ...BRANCH_NEGATIVE_MATRIX,
+      // The too long name is accepted above; expect that here so its test passes
+      expectedStatusCodes: [201, 422],
+    },
+    { via: 'api' },
+  );
+
+  configuratorTest('submits each case and registers accepted entities', () => {
+    expect(submitted).toHaveLength(NegativeTestMatrix.expand(BRANCH_NEGATIVE_MATRIX).length);
+    expect(submitted.map((payload) => payload.region === '' || payload.name === '')).toEqual([
+      true,
+      false,
+      true,
+    ]);
+    expect(registered).toEqual(['branch:accepted-branch']);
+  });
+});
@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { TestDataStoreConfig } from '../../src/config/types/data/persistent-test-data.types';
+import { PersistentTestDataStore } from '../../src/testData/store/persistentTestDataStore';
+import { TEST_DATA_STORE_CONFIG } from '../../src/testData/store/testDataStore.config';
+
+test.describe('Persistent test data store @test-data', () => {
+  let config: TestDataStoreConfig;
+
+  test.beforeEach(async ({}, testInfo) => {
+    config = { ...TEST_DATA_STORE_CONFIG, directory: testInfo.outputPath('store') };
+  });
+
+  test('keeps every value saved concurrently by several workers', async () => {
+    const stores = [0, 1, 2].map(
+      (worker) =>
+        new PersistentTestDataStore({ runId: 'run-a', workerId: `worker-${worker}` }, config),
+    );
+
+    await Promise.all(
+      stores.flatMap((store, worker) =>
+        Array.from({ length: 10 }, (_, index) => store.save('branches', `${worker}-${index}`)),
+      ),
+    );
+
+    const records = await stores[0].query('branches', { runId: 'run-a' });
+    expect(records).toHaveLength(30);
+    expect(await stores[0].query('branches', { workerId: 'worker-1' })).toHaveLength(10);
+  });
+
+  test('queries by run, test and age', async () => {
+    const firstRun = new PersistentTestDataStore(
+      { runId: 'run-1', workerId: 'worker-0', testId: 'test-1' },
+      config,
+    );
+    const secondRun = new PersistentTestDataStore(
+      { runId: 'run-2', workerId: 'worker-0', testId: 'test-2' },
+      config,
+    );
+
+    await firstRun.save('users', 'first-user');
+    await secondRun.save('users', 'second-user');
+
+    expect(await firstRun.getLatest('users')).toBe('second-user');
+    expect(await firstRun.getLatest('users', { runId: 'run-1' })).toBe('first-user');
+    expect(await secondRun.getLatest('users', { testId: 'test-1' })).toBe('first-user');
+    await expect(firstRun.getLatest('roles')).rejects.toThrow(/No test data found/);
+
+    const runFile = path.join(config.directory, 'run-1', 'worker-0.json');
+    const [record] = JSON.parse(fs.readFileSync(runFile, 'utf-8'));
+    record.createdAt = new Date(Date.now() - 60_000).toISOString();
+    fs.writeFileSync(runFile, JSON.stringify([record]));
+
+    const recent = await firstRun.query('users', { maxAgeMs: 30_000 });
+    expect(recent.map((entry) => entry.value)).toEqual(['second-user']);
+  });
+
+  test('recovers from a stale lock left by a crashed worker', async () => {
+    const store = new PersistentTestDataStore({ runId: 'run-b', workerId: 'worker-0' }, config);
+    const lockPath = path.join(config.directory, 'run-b', 'worker-0.json.lock');
+    fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+    fs.writeFileSync(lockPath, '{}');
+    const staleTime = new Date(Date.now() - config.lock.staleMs - 1_000);
+    fs.utimesSync(lockPath, staleTime, staleTime);
+
+    await store.save('roles', 'role-after-crash');
+
+    expect(await store.getLatest('roles')).toBe('role-after-crash');
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs/promises';
+import path from 'path';
+import { SharedDataStoreConfig } from '../../src/config/types/data/data-store.types';
+import { SharedDataStore } from '../../src/utils/dataStore/sharedDataStore';
+import { SHARED_DATA_STORE_CONFIG } from '../../src/utils/dataStore/sharedDataStore.config';
+import TestDataStoreManager from '../../src/utils/dataStore/testDataStoreManager';
+
+test.describe('Shared data store @test-data', () => {
+  let config: SharedDataStoreConfig;
+
+  test.beforeEach(async ({}, testInfo) => {
+    config = { ...SHARED_DATA_STORE_CONFIG, directory: testInfo.outputPath('shared') };
+  });
+
+  test('shares nested values between workers of the same run', async () => {
+    const setupWorker = new SharedDataStore(
+      'shared',
+      { runId: 'run-a', workerId: 'worker-0' },
+      config,
+    );
+    const otherWorker = new SharedDataStore(
+      'shared',
+      { runId: 'run-a', workerId: 'worker-1' },
+      config,
+    );
+    const otherRun = new SharedDataStore(
+      'shared',
+      { runId: 'run-b', workerId: 'worker-0' },
+      config,
+    );
+
+    const applicant = { id: 42, products: ['loan', 'card'], address: { city: 'Durban' } };
+    await Promise.all([
+      setupWorker.setValue('setup', 'applicant', applicant),
+      otherWorker.setValue('setup', 'token', 'abc'),
+    ]);
+
+    expect(await otherWorker.getValue('setup', 'applicant')).toEqual(applicant);
+    expect(await setupWorker.getValue('setup', 'token')).toBe('abc');
+    expect(await otherRun.hasTest('setup')).toBe(false);
+
+    await otherWorker.removeTest('setup');
+    expect(await setupWorker.hasField('setup', 'applicant')).toBe(false);
+  });
+
+  test('expires values after their TTL', async () => {
+    const store = new SharedDataStore('shared', { runId: 'run-ttl' }, config);
+
+    await store.setValue('test-1', 'otp', '123456', 50);
+    await store.setValue('test-1', 'userId', 7);
+    expect(await store.getValue('test-1', 'otp')).toBe('123456');
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(await store.getValue('test-1', 'otp', false, 'expired')).toBe('expired');
+    await expect(store.getValue('test-1', 'otp', true)).rejects.toThrow(/is not set/);
+    expect(await store.getValue('test-1', 'userId')).toBe(7);
+  });
+
+  test('dumps the entries of one scope for a report attachment', async () => {
+    const store = new SharedDataStore(
+      'shared',
+      { runId: 'run-dump', workerId: 'worker-3' },
+      config,
+    );
+
+    await store.setValue('test-1', 'branch', { name: 'North' });
+    await store.setValue('test-2', 'branch', { name: 'South' });
+
+    const dump = await store.dump('test-1');
+    expect(Object.keys(dump)).toEqual(['test-1']);
+    expect(dump['test-1'].branch).toMatchObject({ value: { name: 'North' }, workerId: 'worker-3' });
+  });
+
+  test('keeps TestDataStoreManager values visible to other workers', async () => {
+    const worker0 = new SharedDataStore(
+      'captured',
+      { runId: 'run-m', workerId: 'worker-0' },
+      config,
+    );
+    const worker1 = new SharedDataStore(
+      'captured',
+      { runId: 'run-m', workerId: 'worker-1' },
+      config,
+    );
+
+    expect(await TestDataStoreManager.setValue(worker0, 'test-1', 'applicationId', 'A-1')).toBe(
+      true,
+    );
+
+    expect(await TestDataStoreManager.hasField(worker1, 'test-1', 'applicationId')).toBe(true);
+    expect(await TestDataStoreManager.getValue(worker1, 'test-1', 'applicationId')).toBe('A-1');
+    await expect(TestDataStoreManager.getValue(worker1, 'test-1', 'missing', true)).rejects.toThrow(
+      /is not set/,
+    );
+    await expect(TestDataStoreManager.setValue(worker1, '', 'key', 1)).rejects.toThrow(
+      /Invalid testId or key/,
+    );
+
+    expect(await TestDataStoreManager.removeTest(worker1, 'test-1')).toBe(true);
+    expect(await TestDataStoreManager.hasTest(worker0, 'test-1')).toBe(false);
+    expect(await TestDataStoreManager.removeTest(worker1, 'test-1')).toBe(false);
+  });
+
+  test('prunes the stores of runs older than the retention period', async () => {
+    const expired = new SharedDataStore('shared', { runId: 'run-old' }, config);
+    const current = new SharedDataStore('shared', { runId: 'run-new' }, config);
+    await expired.setValue('setup', 'token', 'old');
+    await current.setValue('setup', 'token', 'new');
+
+    const lastWeek = new Date(Date.now() - 8 * 24 * 60 * 60_000);
+    await fs.utimes(path.join(config.directory, 'run-old'), lastWeek, lastWeek);
+
+    expect(await SharedDataStore.prune(config)).toEqual(['run-old']);
+    expect(await expired.hasTest('setup')).toBe(false);
+    expect(await current.getValue('setup', 'token')).toBe('new');
+  });
+});
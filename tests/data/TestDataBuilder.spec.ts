@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+import { ConfiguratorEntityCreator } from '../../src/config/types/data/test-data-builder.types';
+import { ConfiguratorEntityType } from '../../src/config/types/data/test-data-cleanup.types';
+import { ConfiguratorTestDataBuilder } from '../../src/testData/builder/configuratorTestDataBuilder';
+import { TestDataCleanupRegistry } from '../../src/testData/cleanup/testDataCleanupRegistry';
+
+/**
+ * Records created and deleted entities instead of calling the API
+ */
+class RecordingCreator implements ConfiguratorEntityCreator {
+  public readonly created: Array<{ entityType: ConfiguratorEntityType; payload: object }> = [];
+  public readonly deleted: string[] = [];
+
+  public async createEntity<T extends { id?: string }>(
+    entityType: ConfiguratorEntityType,
+    payload: T,
+  ): Promise<T & { id: string }> {
+    this.created.push({ entityType, payload });
+    return { ...payload, id: `${entityType}-${this.created.length}` };
+  }
+
+  public async deleteEntity(entityType: ConfiguratorEntityType, id: string): Promise<void> {
+    this.deleted.push(id);
+  }
+}
+
+test.describe('Test data builder @test-data', () => {
+  test('creates the hierarchy in dependency order and cleans it up children first', async ({}, testInfo) => {
+    const creator = new RecordingCreator();
+    const cleanup = new TestDataCleanupRegistry('test', testInfo.testId);
+
+    const tree = await new ConfiguratorTestDataBuilder(creator, cleanup)
+      .superBusinessUnit({ name: 'Builder SBU' })
+      .withBusinessUnits(2)
+      .eachWithBranches(3)
+      .andUser({ role: { permissions: ['Read'] } })
+      .create();
+
+    expect(creator.created.map((entry) => entry.entityType)).toEqual([
+      'role',
+      'superBusinessUnit',
+      ...Array(2).fill(['businessUnit', 'branch', 'branch', 'branch', 'user']).flat(),
+    ]);
+    expect(tree.superBusinessUnit).toMatchObject({
+      id: 'superBusinessUnit-2',
+      name: 'Builder SBU',
+    });
+    expect(tree.roles).toHaveLength(1);
+    expect(tree.roles[0].permissions).toEqual(['Read']);
+
+    for (const node of tree.businessUnits) {
+      expect(node.businessUnit.superBusinessUnitId).toBe(tree.superBusinessUnit.id);
+      expect(node.branches).toHaveLength(3);
+      expect(node.branches.every((branch) => branch.businessUnitId === node.businessUnit.id)).toBe(
+        true,
+      );
+      expect(node.users[0]).toMatchObject({
+        businessUnitId: node.businessUnit.id,
+        roleId: tree.roles[0].id,
+      });
+    }
+
+    const result = await cleanup.runCleanup();
+    expect(result).toEqual({ cleaned: 12, failed: [] });
+    expect(creator.deleted.slice(0, 2)).toEqual(['user-12', 'user-7']);
+    expect(creator.deleted.slice(-2)).toEqual(['superBusinessUnit-2', 'role-1']);
+  });
+
+  test('rejects branches without business units', async ({}, testInfo) => {
+    const builder = new ConfiguratorTestDataBuilder(
+      new RecordingCreator(),
+      new TestDataCleanupRegistry('test', testInfo.testId),
+    );
+
+    await expect(builder.superBusinessUnit().eachWithBranches(2).create()).rejects.toThrow(
+      /call withBusinessUnits\(\) first/,
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  CleanupEntry,
+  ConfiguratorEntityType,
+} from '../../src/config/types/data/test-data-cleanup.types';
+import CleanupJournal from '../../src/testData/cleanup/cleanupJournal';
+import { TestDataCleanupConstants } from '../../src/testData/cleanup/testDataCleanup.constants';
+import { TestDataCleanupRegistry } from '../../src/testData/cleanup/testDataCleanupRegistry';
+import { ConfiguratorApiService } from '../../src/utils/api/configuratorApiService';
+
+const CRASHED_PID = 2 ** 22 + 1;
+
+/** Records deletions instead of calling the configurator API; ids in `failingIds` fail */
+function createApiService(deleted: string[], failingIds: string[] = []): ConfiguratorApiService {
+  return {
+    deleteEntity: async (entityType: ConfiguratorEntityType, id: string) => {
+      if (failingIds.includes(id)) {
+        throw new Error(`${entityType} ${id} is still in use`);
+      }
+      deleted.push(`${entityType}:${id}`);
+    },
+  } as unknown as ConfiguratorApiService;
+}
+
+function toEntry(entityType: ConfiguratorEntityType, id: string): CleanupEntry {
+  return {
+    key: `crashed-${id}`,
+    entityType,
+    id,
+    scope: 'test',
+    ownerId: 'crashed-test',
+    registeredAt: new Date(0).toISOString(),
+  };
+}
+
+async function readOwnJournal(ownerId: string): Promise<CleanupEntry[]> {
+  const journals = await CleanupJournal.readAllJournals();
+  const filePath = path.resolve(
+    TestDataCleanupConstants.DIRECTORY,
+    `${TestDataCleanupConstants.JOURNAL_FILE_PREFIX}${process.pid}.json`,
+  );
+  return (journals.get(filePath) ?? []).filter((entry) => entry.ownerId === ownerId);
+}
+
+test.describe('Test data cleanup @test-data', () => {
+  test('deletes children before parents and newest first within a type', async () => {
+    const deleted: string[] = [];
+    const registry = new TestDataCleanupRegistry(
+      'test',
+      test.info().testId,
+      createApiService(deleted),
+    );
+
+    await registry.register('businessUnit', 'bu-1');
+    await registry.register('user', 'user-1');
+    await registry.register('branch', 'branch-1');
+    await registry.register('user', 'user-2');
+    await registry.register('role', 'role-1');
+    await registry.register('superBusinessUnit', 'sbu-1', {
+      cleanup: async () => {
+        deleted.push('superBusinessUnit:sbu-1 (UI)');
+      },
+    });
+
+    expect(await registry.runCleanup()).toEqual({ cleaned: 6, failed: [] });
+    expect(deleted).toEqual([
+      'user:user-2',
+      'user:user-1',
+      'branch:branch-1',
+      'businessUnit:bu-1',
+      'superBusinessUnit:sbu-1 (UI)',
+      'role:role-1',
+    ]);
+    expect(await registry.runCleanup()).toEqual({ cleaned: 0, failed: [] });
+  });
+
+  test('journals registrations until they are cleaned up', async () => {
+    const ownerId = test.info().testId;
+    const registry = new TestDataCleanupRegistry(
+      'test',
+      ownerId,
+      createApiService([], ['branch-1']),
+    );
+
+    await registry.register('branch', 'branch-1', { name: 'North' });
+    await registry.register('user', 'user-1');
+    expect((await readOwnJournal(ownerId)).map((entry) => entry.id)).toEqual([
+      'branch-1',
+      'user-1',
+    ]);
+
+    const result = await registry.runCleanup();
+
+    expect(result.cleaned).toBe(1);
+    expect(result.failed).toEqual([
+      {
+        entry: expect.objectContaining({ entityType: 'branch', id: 'branch-1', name: 'North' }),
+        error: 'branch branch-1 is still in use',
+      },
+    ]);
+    // The failed entity is left for the global teardown sweep
+    expect((await readOwnJournal(ownerId)).map((entry) => entry.id)).toEqual(['branch-1']);
+
+    await CleanupJournal.remove(result.failed[0].entry.key);
+    expect(await readOwnJournal(ownerId)).toEqual([]);
+  });
+
+  test('refuses to register an entity without an id', async () => {
+    const registry = new TestDataCleanupRegistry('worker', '0');
+
+    await expect(registry.register('branch', '')).rejects.toThrow(/without an id/);
+  });
+
+  test('sweeps the journals left by crashed workers', async () => {
+    const directory = test.info().outputPath('cleanup');
+    await fs.mkdir(directory, { recursive: true });
+    const writeJournal = (fileName: string, entries: CleanupEntry[]) =>
+      fs.writeFile(path.join(directory, fileName), JSON.stringify(entries));
+
+    // Above the Linux pid limit, so no process runs under these pids
+    await writeJournal(`pending-${CRASHED_PID}.json`, [
+      toEntry('businessUnit', 'bu-1'),
+      toEntry('branch', 'branch-1'),
+      toEntry('user', 'user-1'),
+    ]);
+    await writeJournal(`pending-${CRASHED_PID + 1}.json`, [toEntry('role', 'role-1')]);
+    await writeJournal('notes.json', [toEntry('user', 'not-a-journal')]);
+    // The parent process stands in for a worker of another shard that is still running
+    await writeJournal(`pending-${process.ppid}.json`, [toEntry('user', 'other-shard-user')]);
+
+    const deleted: string[] = [];
+    const result = await TestDataCleanupRegistry.sweep(
+      async () => createApiService(deleted, ['bu-1']),
+      directory,
+    );
+
+    expect(result.cleaned).toBe(3);
+    expect(result.failed.map(({ entry }) => entry.id)).toEqual(['bu-1']);
+    expect(deleted).toEqual(['user:user-1', 'branch:branch-1', 'role:role-1']);
+
+    // Only what could not be deleted stays journaled; emptied journals are removed
+    const journals = await CleanupJournal.readAllJournals(directory);
+    expect(
+      Object.fromEntries(
+        [...journals].map(([filePath, entries]) => [
+          path.basename(filePath),
+          entries.map((entry) => entry.id),
+        ]),
+      ),
+    ).toEqual({
+      [`pending-${CRASHED_PID}.json`]: ['bu-1'],
+      [`pending-${process.ppid}.json`]: ['other-shard-user'],
+    });
+  });
+
+  test('sweeps without creating an API service when nothing is pending', async () => {
+    const directory = test.info().outputPath('empty');
+    let created = false;
+
+    const result = await TestDataCleanupRegistry.sweep(async () => {
+      created = true;
+      return createApiService([]);
+    }, directory);
+
+    expect(result).toEqual({ cleaned: 0, failed: [] });
+    expect(created).toBe(false);
+  });
+});
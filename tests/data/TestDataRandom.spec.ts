@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test';
+import TestDataRandom from '../../src/testData/random/testDataRandom';
+import { ConfiguratorDataGenerator } from '../../src/testData/testDataGenerator';
+
+test.describe('Seeded test data @test-data', () => {
+  const dataGenerator = ConfiguratorDataGenerator.getInstance();
+
+  const generateData = (seed: number) => {
+    TestDataRandom.useSeed(seed);
+    dataGenerator.resetCounter();
+    return {
+      superBusinessUnit: dataGenerator.generateSuperBusinessUnit(),
+      role: dataGenerator.generateRole(),
+      address: dataGenerator.generateAddress(),
+    };
+  };
+
+  // Drops the run-unique suffix after the seeded digits of identifiers and emails
+  const seededPart = (data: object) =>
+    JSON.stringify(data).replace(/([_.]\d{6}[_.])[0-9a-z]+/g, '$1');
+
+  test('generates the same data for the same seed', () => {
+    expect(seededPart(generateData(1234))).toEqual(seededPart(generateData(1234)));
+    expect(seededPart(generateData(1234))).not.toEqual(seededPart(generateData(5678)));
+  });
+
+  test('keeps names and emails unique when a seed is replayed', () => {
+    const first = generateData(1234).superBusinessUnit;
+    const replay = generateData(1234).superBusinessUnit;
+
+    expect(replay.contactName).toBe(first.contactName);
+    expect(replay.name).not.toBe(first.name);
+    expect(replay.emailAddress).not.toBe(first.emailAddress);
+    expect(replay.emailAddress).toMatch(/^contact1\.\d{6}\.[0-9a-z]+@/);
+  });
+
+  test('derives a stable seed per key from the run seed', () => {
+    const seed = TestDataRandom.seedFor('test-a');
+
+    expect(TestDataRandom.getCurrentSeed()).toBe(seed);
+    expect(TestDataRandom.seedFor('test-a')).toBe(seed);
+    expect(TestDataRandom.seedFor('test-b')).not.toBe(seed);
+  });
+
+  test('generates South African mobile numbers and addresses', () => {
+    TestDataRandom.useSeed(42);
+
+    for (let attempt = 0; attempt < 20; attempt++) {
+      expect(dataGenerator.generateValidPhoneNumber()).toMatch(/^0[678]\d{8}$/);
+    }
+    expect(dataGenerator.generateAddress().postalCode).toMatch(/^\d{4}$/);
+  });
+});
@@ -1,8 +1,30 @@
-import { test } from '@playwright/test';
+import { test, expect } from '../../fixtures/configurator.fixture';
 
 test.describe('Database Tests @db @regression', () => {
-  test.skip(
-    'Template placeholder - replace with application-specific database tests',
-    async () => {},
-  );
+  test('Verify parameterized queries return mapped rows', async ({ databaseClient }) => {
+    const rows = await databaseClient.query(
+      'SELECT @name AS name, @count AS count',
+      { name: 'branch', count: 3 },
+      (row) => ({ name: String(row.name), count: Number(row.count) }),
+    );
+
+    expect(rows).toEqual([{ name: 'branch', count: 3 }]);
+  });
+
+  test('Verify failed transactions are rolled back', async ({ databaseClient }) => {
+    const tableName = `##rollback_check_${Date.now()}`;
+
+    await expect(
+      databaseClient.withTransaction(async (transaction) => {
+        await transaction.execute(`CREATE TABLE ${tableName} (id INT)`);
+        throw new Error('Force rollback');
+      }),
+    ).rejects.toThrow('Force rollback');
+
+    const table = await databaseClient.queryOne<{ objectId: number | null }>(
+      'SELECT OBJECT_ID(@tableName) AS objectId',
+      { tableName: `tempdb..${tableName}` },
+    );
+    expect(table?.objectId).toBeNull();
+  });
 });
@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test';
+import { ConnectionPool, Transaction } from 'mssql';
+import { EnvironmentResolver } from '../../src/config/environment/resolver/environmentResolver';
+import { DatabaseClient } from '../../src/utils/database/databaseClient';
+import { DatabaseTransaction } from '../../src/utils/database/databaseTransaction';
+
+/** Hands out a fake transaction instead of opening one on a connection pool */
+class FakeTransactionClient extends DatabaseClient {
+  public readonly calls: string[] = [];
+
+  constructor(private readonly failRollback: boolean) {
+    super({} as EnvironmentResolver);
+  }
+
+  public override async beginTransaction(): Promise<DatabaseTransaction> {
+    return {
+      commit: async () => {
+        this.calls.push('commit');
+      },
+      rollback: async () => {
+        this.calls.push('rollback');
+        if (this.failRollback) {
+          throw new Error('Transaction rollback failed');
+        }
+      },
+    } as unknown as DatabaseTransaction;
+  }
+}
+
+/** The client state `beginTransaction` and `getPool` fill in against a real server */
+interface ClientInternals {
+  openTransactions: Set<DatabaseTransaction>;
+  poolPromise?: Promise<ConnectionPool>;
+}
+
+function createTransaction(calls: string[], name: string, failRollback = false) {
+  return new DatabaseTransaction({
+    rollback: async () => {
+      calls.push(`rollback ${name}`);
+      if (failRollback) {
+        throw new Error('Connection lost');
+      }
+    },
+  } as unknown as Transaction);
+}
+
+test.describe('Database client transactions @db', () => {
+  test('commits the work and returns its result', async () => {
+    const client = new FakeTransactionClient(false);
+
+    expect(await client.withTransaction(async () => 42)).toBe(42);
+    expect(client.calls).toEqual(['commit']);
+  });
+
+  test('rethrows the error of the work after rolling back', async () => {
+    const client = new FakeTransactionClient(false);
+
+    await expect(
+      client.withTransaction(async () => {
+        throw new Error('Insert failed');
+      }),
+    ).rejects.toThrow('Insert failed');
+    expect(client.calls).toEqual(['rollback']);
+  });
+
+  test('keeps the error of the work when the rollback fails too', async () => {
+    const client = new FakeTransactionClient(true);
+
+    await expect(
+      client.withTransaction(async () => {
+        throw new Error('Insert failed');
+      }),
+    ).rejects.toThrow('Insert failed');
+    expect(client.calls).toEqual(['rollback']);
+  });
+
+  test('rolls back every open transaction and closes the pool when one rollback fails', async () => {
+    const calls: string[] = [];
+    const client = new DatabaseClient({} as EnvironmentResolver);
+    const internals = client as unknown as ClientInternals;
+    internals.openTransactions = new Set([
+      createTransaction(calls, 'first', true),
+      createTransaction(calls, 'second'),
+    ]);
+    internals.poolPromise = Promise.resolve({
+      close: async () => {
+        calls.push('close pool');
+      },
+    } as unknown as ConnectionPool);
+
+    await client.close();
+
+    expect(calls).toEqual(['rollback first', 'rollback second', 'close pool']);
+    expect(await client.rollbackOpenTransactions()).toBe(0);
+  });
+});
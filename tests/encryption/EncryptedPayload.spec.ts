@@ -0,0 +1,110 @@
+import { test, expect } from '@playwright/test';
+import { EncryptedPayloadHeader } from '../../src/config/types/config/security.types';
+import { SECURITY_CONFIG } from '../../src/cryptography/constants/security.constant';
+import SecureKeyGenerator from '../../src/cryptography/key/secureKeyGenerator';
+import { CryptoManager } from '../../src/cryptography/manager/cryptoManager';
+import { CryptoService } from '../../src/cryptography/service/cryptoService';
+
+const SECRET_KEY = SecureKeyGenerator.generateBase64SecretKey();
+
+/** Encrypts a value the way ENC2 values were written before the ENC3 format */
+async function encryptAsEnc2(value: string, secretKey: string): Promise<string> {
+  const { salt, webCryptoIv, encryptionKey, hmacKey } =
+    await CryptoManager.generateEncryptionComponents(secretKey);
+  const iv = Buffer.from(webCryptoIv).toString('base64');
+  const cipherText = Buffer.from(
+    await CryptoManager.encryptBuffer(webCryptoIv, encryptionKey, value),
+  ).toString('base64');
+  const hmac = await CryptoManager.computeHMAC(
+    hmacKey,
+    CryptoManager.prepareHMACData(salt, iv, cipherText),
+  );
+  return `ENC2:${salt}:${iv}:${cipherText}:${hmac}`;
+}
+
+/** Replaces the raw header of an ENC3 value */
+function withRawHeader(value: string, rawHeader: string): string {
+  const [prefix, , ...parts] = value.split(':');
+  return [prefix, rawHeader, ...parts].join(':');
+}
+
+function withHeader(value: string, header: Partial<EncryptedPayloadHeader>): string {
+  return withRawHeader(value, Buffer.from(JSON.stringify(header)).toString('base64'));
+}
+
+test.describe('Encrypted payload formats @encryption', () => {
+  let encrypted: string;
+  let header: EncryptedPayloadHeader;
+
+  test.beforeAll(async () => {
+    encrypted = await CryptoService.encryptWithKey('portal-password', SECRET_KEY);
+    header = CryptoManager.createPayloadHeader(SECRET_KEY);
+  });
+
+  test('still decrypts legacy ENC2 values', async () => {
+    const legacy = await encryptAsEnc2('legacy-password', SECRET_KEY);
+    const payload = CryptoManager.parseEncryptedData(legacy);
+
+    expect(CryptoManager.getFormatVersion(legacy)).toBe(2);
+    expect(CryptoManager.isEncrypted(legacy)).toBe(true);
+    expect(payload.header).toBeUndefined();
+    expect(CryptoManager.getArgon2Parameters(payload)).toEqual(SECURITY_CONFIG.ARGON2_PARAMETERS);
+    expect(await CryptoService.decryptWithKey(legacy, SECRET_KEY)).toBe('legacy-password');
+  });
+
+  test('writes new values as ENC3 with the key id and Argon2 parameters', async () => {
+    const payload = CryptoManager.parseEncryptedData(encrypted);
+
+    expect(CryptoManager.getFormatVersion(encrypted)).toBe(3);
+    expect(CryptoManager.isEncrypted(encrypted)).toBe(true);
+    expect(payload.header).toEqual({
+      keyId: CryptoManager.getKeyId(SECRET_KEY),
+      memoryCost: SECURITY_CONFIG.ARGON2_PARAMETERS.MEMORY_COST,
+      timeCost: SECURITY_CONFIG.ARGON2_PARAMETERS.TIME_COST,
+      parallelism: SECURITY_CONFIG.ARGON2_PARAMETERS.PARALLELISM,
+    });
+    expect(await CryptoService.decryptWithKey(encrypted, SECRET_KEY)).toBe('portal-password');
+  });
+
+  test('rejects malformed ENC3 headers', () => {
+    const parse = (value: string) => () => CryptoManager.parseEncryptedData(value);
+
+    expect(parse(withRawHeader(encrypted, 'not*base64'))).toThrow('Invalid header format');
+    expect(parse(withRawHeader(encrypted, Buffer.from('{"keyId":').toString('base64')))).toThrow(
+      'header is not valid JSON',
+    );
+    expect(parse(withHeader(encrypted, { ...header, keyId: undefined }))).toThrow(
+      'missing key id or Argon2 parameters',
+    );
+    expect(parse(withHeader(encrypted, { ...header, timeCost: 1.5 }))).toThrow(
+      'missing key id or Argon2 parameters',
+    );
+  });
+
+  test('rejects out-of-bounds Argon2 parameters before deriving keys', async () => {
+    const expensive = withHeader(encrypted, { ...header, memoryCost: 64 * 1024 * 1024 });
+
+    expect(() => CryptoManager.parseEncryptedData(expensive)).toThrow(
+      'Argon2 parameters out of bounds - memoryCost 67108864 (expected 1024-1048576)',
+    );
+    expect(() =>
+      CryptoManager.parseEncryptedData(
+        withHeader(encrypted, { ...header, timeCost: 0, parallelism: 64 }),
+      ),
+    ).toThrow(/timeCost 0 .*parallelism 64/);
+    await expect(CryptoService.decryptWithKey(expensive, SECRET_KEY)).rejects.toThrow(
+      'out of bounds',
+    );
+  });
+
+  test('detects a tampered header and a different key', async () => {
+    const tampered = withHeader(encrypted, { ...header, timeCost: header.timeCost + 1 });
+
+    await expect(CryptoService.decryptWithKey(tampered, SECRET_KEY)).rejects.toThrow(
+      'HMAC mismatch',
+    );
+    await expect(
+      CryptoService.decryptWithKey(encrypted, SecureKeyGenerator.generateBase64SecretKey()),
+    ).rejects.toThrow('Key mismatch');
+  });
+});
@@ -7,6 +7,21 @@ import {
 import EncryptionVerification from '../../src/cryptography/manager/encryptionVerification';
 import { EnvironmentFilePaths } from '../../src/config/environment/dotenv/mapping';
 import EnvironmentVariables from '../../src/config/environment/variables/variables';
+import { CryptoService } from '../../src/cryptography/service/cryptoService';
+import { EnvironmentFileParser } from '../../src/cryptography/manager/environmentFileParser';
+
+async function decryptPortalCredentials(parser: EnvironmentFileParser): Promise<string[]> {
+  const lines = await parser.readEnvironmentFileAsLines(
+    EnvironmentConstants.ENV_DIR,
+    EnvironmentFilePaths.uat,
+  );
+  const variables = parser.extractEnvironmentVariables(lines);
+
+  return CryptoService.decryptMultiple(
+    [variables.PORTAL_USERNAME, variables.PORTAL_PASSWORD],
+    EnvironmentSecretKeys.UAT,
+  );
+}
 
 test.describe.serial('Encryption Flow @full-encryption', () => {
   test('Generate secret key', async ({ cryptoOrchestrator }) => {
@@ -34,4 +49,30 @@ test.describe.serial('Encryption Flow @full-encryption', () => {
     expect(results.PORTAL_USERNAME).toBe(true);
     expect(results.PORTAL_PASSWORD).toBe(true);
   });
+
+  test('Rotate secret key and roll back', async ({
+    cryptoOrchestrator,
+    cryptoMetadataManager,
+    environmentFileParser,
+  }) => {
+    const originalValues = await decryptPortalCredentials(environmentFileParser);
+
+    const rotation = await cryptoOrchestrator.rotateSecretKey('uat');
+    expect(rotation.newKeyId).not.toBe(rotation.previousKeyId);
+    expect(rotation.reEncryptedVariables).toEqual(
+      expect.arrayContaining(['PORTAL_USERNAME', 'PORTAL_PASSWORD']),
+    );
+    expect(await decryptPortalCredentials(environmentFileParser)).toEqual(originalValues);
+
+    const metadata = await cryptoMetadataManager.getStageMetadata('uat');
+    expect(metadata?.currentKey.keyId).toBe(rotation.newKeyId);
+    expect(metadata?.previousKeys[0]).toMatchObject({
+      keyId: rotation.previousKeyId,
+      archiveFile: rotation.archiveFile,
+    });
+
+    const restoredKeyId = await cryptoOrchestrator.rollbackSecretKeyRotation('uat');
+    expect(restoredKeyId).toBe(rotation.previousKeyId);
+    expect(await decryptPortalCredentials(environmentFileParser)).toEqual(originalValues);
+  });
 });
@@ -0,0 +1,139 @@
+import { test, expect } from '@playwright/test';
+import { PassThrough, Readable } from 'stream';
+import { EnvironmentFilePaths } from '../../src/config/environment/dotenv/mapping';
+import { EnvironmentStage } from '../../src/config/environment/dotenv/types';
+import { EnvironmentCryptoCli } from '../../src/cryptography/cli/envCryptoCli';
+import { CryptoManager } from '../../src/cryptography/manager/cryptoManager';
+import { EnvironmentFileParser } from '../../src/cryptography/manager/environmentFileParser';
+import { CryptoOrchestrator } from '../../src/cryptography/service/cryptoOrchestrator';
+
+const SECRET_KEY = 'cli-test-secret-key-0123456789';
+const PARTS = ['c2FsdA==', 'aXY=', 'Y2lwaGVy', 'aG1hYw=='].join(':');
+const ENC2_VALUE = `ENC2:${PARTS}`;
+const ENC3_VALUE = `ENC3:${CryptoManager.encodePayloadHeader(
+  CryptoManager.createPayloadHeader(SECRET_KEY),
+)}:${PARTS}`;
+const MALFORMED_ENC3_VALUE = `ENC3:${Buffer.from('{"keyId":').toString('base64')}:${PARTS}`;
+
+test.describe('Environment crypto CLI @encryption', () => {
+  let files: Record<string, string[]>;
+  let encrypted: Array<[EnvironmentStage, string, string]>;
+
+  const createCli = (input: Readable = Readable.from([])) => {
+    const output = new PassThrough();
+    const parser = new EnvironmentFileParser();
+    parser.readEnvironmentFileAsLines = async (_directory, fileName) => files[fileName] ?? [];
+
+    const orchestrator = {
+      setEncryptedEnvironmentVariable: async (
+        stage: EnvironmentStage,
+        key: string,
+        value: string,
+      ) => {
+        encrypted.push([stage, key, value]);
+      },
+      migrateEncryptedEnvironmentFile: async () => ({
+        migratedVariables: ['PORTAL_USERNAME'],
+        alreadyMigratedVariables: ['PORTAL_PASSWORD'],
+      }),
+    } as unknown as CryptoOrchestrator;
+
+    const cli = new EnvironmentCryptoCli(orchestrator, parser, output, input);
+    // --verbose keeps the console logging of this worker switched on
+    const run = async (...args: string[]) => ({
+      exitCode: await cli.run([...args, '--verbose']),
+      text: output.read()?.toString() ?? '',
+    });
+    return run;
+  };
+
+  test.beforeEach(() => {
+    encrypted = [];
+    files = {
+      [EnvironmentFilePaths.dev]: ['PORTAL_URL=https://dev.example.com', 'SHARED=same'],
+      [EnvironmentFilePaths.uat]: [
+        'PORTAL_URL=https://uat.example.com',
+        'SHARED=same',
+        `PORTAL_USERNAME=${ENC2_VALUE}`,
+        `PORTAL_PASSWORD=${ENC3_VALUE}`,
+        `API_KEY=${MALFORMED_ENC3_VALUE}`,
+        'BROKEN=ENC2:not-base64',
+      ],
+    };
+  });
+
+  test('lists the encryption status of every variable', async () => {
+    const { exitCode, text } = await createCli()('list', 'uat');
+    const rows = text.trimEnd().split('\n');
+
+    expect(exitCode).toBe(0);
+    expect(rows).toHaveLength(6);
+    expect(rows[0]).toMatch(/^PORTAL_URL\s+plain$/);
+    expect(rows[2]).toMatch(/^PORTAL_USERNAME\s+ENC2$/);
+    expect(rows[3]).toMatch(
+      new RegExp(`^PORTAL_PASSWORD\\s+ENC3\\s+key ${CryptoManager.getKeyId(SECRET_KEY)}$`),
+    );
+    expect(rows[5]).toMatch(/^BROKEN\s+invalid$/);
+  });
+
+  test('reports a malformed ENC3 header instead of failing the listing', async () => {
+    const { exitCode, text } = await createCli()('list', 'uat');
+
+    expect(exitCode).toBe(0);
+    expect(text).toMatch(/^API_KEY\s+invalid\s+Invalid header format: header is not valid JSON$/m);
+  });
+
+  test('encrypts a value read from stdin', async () => {
+    const { exitCode, text } = await createCli(Readable.from(['s3cr3t value\n']))(
+      'set',
+      'uat',
+      'PORTAL_PASSWORD',
+    );
+
+    expect(exitCode).toBe(0);
+    expect(text).toBe(`Encrypted 'PORTAL_PASSWORD' in ${EnvironmentFilePaths.uat}\n`);
+    expect(encrypted).toEqual([['uat', 'PORTAL_PASSWORD', 's3cr3t value']]);
+  });
+
+  test('refuses a value passed as an argument or an empty value', async () => {
+    const run = createCli(Readable.from(['']));
+
+    expect((await run('set', 'uat', 'PORTAL_PASSWORD', 's3cr3t')).exitCode).toBe(2);
+    expect((await run('set', 'uat', 'PORTAL_PASSWORD')).exitCode).toBe(2);
+    expect(encrypted).toEqual([]);
+  });
+
+  test('migrates ENC2 values of a stage', async () => {
+    const { exitCode, text } = await createCli()('migrate', 'uat');
+
+    expect(exitCode).toBe(0);
+    expect(text).toBe(
+      `Migrated 1 variables to ENC3 in ${EnvironmentFilePaths.uat}: PORTAL_USERNAME\n`,
+    );
+  });
+
+  test('compares stage files by key without printing values', async () => {
+    files[EnvironmentFilePaths.uat] = ['PORTAL_URL=https://uat.example.com', 'SHARED=same'];
+    files[EnvironmentFilePaths.dev].push('DEV_ONLY=1');
+
+    const { exitCode, text } = await createCli()('diff', 'dev', 'uat');
+
+    expect(exitCode).toBe(0);
+    expect(text).not.toContain('example.com');
+    expect(text.trimEnd().split('\n')).toEqual([
+      'DEV_ONLY    only in dev',
+      'PORTAL_URL  different',
+      'SHARED      same',
+    ]);
+  });
+
+  test('rejects invalid usage with exit code 2', async () => {
+    const run = createCli();
+
+    expect((await run('list', 'staging')).exitCode).toBe(2);
+    expect((await run('unknown', 'uat')).exitCode).toBe(2);
+    expect((await run('show', 'uat')).exitCode).toBe(2);
+    expect((await run('--help')).exitCode).toBe(0);
+    expect((await run('show', 'uat', 'MISSING')).exitCode).toBe(1);
+  });
+});
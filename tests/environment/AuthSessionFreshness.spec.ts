@@ -0,0 +1,167 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Browser, test, expect } from '@playwright/test';
+import { AuthSessionManager } from '../../src/utils/auth/state/authSessionManager';
+import { AUTH_SESSION_CONFIG } from '../../src/utils/auth/state/authSession.config';
+import { EnvironmentResolver } from '../../src/config/environment/resolver/environmentResolver';
+import { FetchCIEnvironmentVariables } from '../../src/config/environment/resolver/fetch/fetchCIEnvironmentVariables';
+import { FetchLocalEnvironmentVariables } from '../../src/config/environment/resolver/fetch/fetchLocalEnvironmentVariables';
+import FileLock from '../../src/utils/fileSystem/fileLock';
+
+test.describe('Auth session freshness @auth-session', () => {
+  let directory: string;
+
+  test.beforeAll(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'auth-session-'));
+  });
+
+  test.afterAll(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  test('treats missing, empty and expired sessions as stale', async () => {
+    // Without a probe URL the check only reads the file, so no browser is launched
+    const authSessionManager = new AuthSessionManager(
+      {} as Browser,
+      new EnvironmentResolver(
+        new FetchCIEnvironmentVariables(),
+        new FetchLocalEnvironmentVariables(),
+      ),
+      { ...AUTH_SESSION_CONFIG, probeUrl: undefined, sessionCookieNames: ['session'] },
+    );
+    const nowInSeconds = Math.floor(Date.now() / 1000);
+    const writeState = async (fileName: string, cookies: object[]) => {
+      const filePath = path.join(directory, fileName);
+      await fs.promises.writeFile(filePath, JSON.stringify({ cookies, origins: [] }));
+      return filePath;
+    };
+    const cookie = (name: string, expires: number) => ({
+      name,
+      value: 'x',
+      domain: 'app',
+      expires,
+    });
+
+    const fresh = await writeState('fresh.json', [
+      cookie('session', nowInSeconds + 3600),
+      cookie('tracking', nowInSeconds - 10),
+    ]);
+    const expired = await writeState('expired.json', [cookie('session', nowInSeconds + 30)]);
+    const empty = await writeState('empty.json', []);
+
+    expect(await authSessionManager.checkFreshness('portal', fresh)).toEqual({ isFresh: true });
+    expect(await authSessionManager.checkFreshness('portal', expired)).toMatchObject({
+      isFresh: false,
+      reason: expect.stringContaining("cookie 'session' expired"),
+    });
+    expect(await authSessionManager.checkFreshness('portal', empty)).toMatchObject({
+      isFresh: false,
+    });
+    expect(
+      await authSessionManager.checkFreshness('portal', path.join(directory, 'missing.json')),
+    ).toEqual({ isFresh: false, reason: 'no saved session' });
+  });
+
+  test('lets one holder in at a time and breaks stale locks', async () => {
+    const lockPath = path.join(directory, 'session.json.lock');
+    const lockOptions = { timeoutMs: 5_000, staleMs: 60_000, retryIntervalMs: 10 };
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all(
+      [1, 2, 3].map(() =>
+        FileLock.withLock(
+          lockPath,
+          async () => {
+            maxActive = Math.max(maxActive, ++active);
+            await new Promise((resolve) => setTimeout(resolve, 30));
+            active--;
+          },
+          lockOptions,
+        ),
+      ),
+    );
+    expect(maxActive).toBe(1);
+    expect(fs.existsSync(lockPath)).toBe(false);
+
+    // A lock left behind by a crashed worker
+    await fs.promises.writeFile(lockPath, '{}');
+    const anHourAgo = new Date(Date.now() - 3_600_000);
+    await fs.promises.utimes(lockPath, anHourAgo, anHourAgo);
+
+    expect(await FileLock.withLock(lockPath, async () => 'acquired', lockOptions)).toBe('acquired');
+  });
+
+  test('lets only one of several waiters break a stale lock', async () => {
+    const lockPath = path.join(directory, 'contended.json.lock');
+    const lockOptions = { timeoutMs: 5_000, staleMs: 60_000, retryIntervalMs: 5 };
+    await fs.promises.writeFile(lockPath, '{}');
+    const anHourAgo = new Date(Date.now() - 3_600_000);
+    await fs.promises.utimes(lockPath, anHourAgo, anHourAgo);
+
+    let active = 0;
+    let maxActive = 0;
+    await Promise.all(
+      [1, 2, 3, 4].map(() =>
+        FileLock.withLock(
+          lockPath,
+          async () => {
+            maxActive = Math.max(maxActive, ++active);
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            active--;
+          },
+          lockOptions,
+        ),
+      ),
+    );
+
+    expect(maxActive).toBe(1);
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(
+      (await fs.promises.readdir(directory)).filter((name) => name.endsWith('.stale')),
+    ).toEqual([]);
+  });
+
+  test('keeps a lock held longer than the stale age', async () => {
+    const lockPath = path.join(directory, 'slow-login.json.lock');
+    const lockOptions = { timeoutMs: 5_000, staleMs: 60, retryIntervalMs: 5 };
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all(
+      [1, 2].map(() =>
+        FileLock.withLock(
+          lockPath,
+          async () => {
+            maxActive = Math.max(maxActive, ++active);
+            // A sign-in that outlasts staleMs several times over
+            await new Promise((resolve) => setTimeout(resolve, 300));
+            active--;
+          },
+          lockOptions,
+        ),
+      ),
+    );
+
+    expect(maxActive).toBe(1);
+  });
+
+  test('keeps the lock of the next holder when a broken holder releases', async () => {
+    const lockPath = path.join(directory, 'taken-over.json.lock');
+    const lockOptions = { timeoutMs: 5_000, staleMs: 60_000, retryIntervalMs: 5 };
+
+    await FileLock.withLock(
+      lockPath,
+      async () => {
+        // Another process broke this lock as stale and now holds its own
+        await fs.promises.writeFile(lockPath, JSON.stringify({ token: 'other-holder' }));
+      },
+      lockOptions,
+    );
+
+    expect(JSON.parse(await fs.promises.readFile(lockPath, 'utf-8'))).toEqual({
+      token: 'other-holder',
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { test, expect } from '@playwright/test';
+import AuthenticationFilter from '../../src/utils/auth/authenticationFilter';
+
+test.describe('Auth tags @auth-tags', () => {
+  test('reuses the saved session of the option role by default', async ({}, testInfo) => {
+    expect(AuthenticationFilter.resolveAuthMode(testInfo, 'approver')).toEqual({
+      type: 'storageState',
+      role: 'approver',
+      source: 'option',
+    });
+  });
+
+  test('runs as the tagged role @role:admin', async ({}, testInfo) => {
+    const authMode = AuthenticationFilter.resolveAuthMode(testInfo, 'approver');
+
+    expect(authMode).toEqual({ type: 'storageState', role: 'admin', source: 'tag' });
+    expect(AuthenticationFilter.describeAuthMode(authMode)).toBe('storageState as admin (tag)');
+  });
+
+  test('signs in for this test only @fresh-session @role:readOnly', async ({}, testInfo) => {
+    expect(AuthenticationFilter.resolveAuthMode(testInfo)).toMatchObject({
+      type: 'freshSession',
+      role: 'readOnly',
+    });
+  });
+
+  test('starts signed out @noauth', async ({}, testInfo) => {
+    expect(AuthenticationFilter.resolveAuthMode(testInfo).type).toBe('noAuth');
+  });
+
+  test('rejects unknown auth tags @no-auth @role:auditor', async ({}, testInfo) => {
+    expect(() => AuthenticationFilter.resolveAuthMode(testInfo)).toThrow(
+      /Unknown auth tag\(s\) @no-auth, @role:auditor/,
+    );
+  });
+
+  test('rejects conflicting auth tags @noauth @fresh-session', async ({}, testInfo) => {
+    expect(() => AuthenticationFilter.resolveAuthMode(testInfo)).toThrow(/Conflicting auth tags/);
+  });
+});
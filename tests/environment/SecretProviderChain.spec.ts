@@ -0,0 +1,90 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { test, expect } from '@playwright/test';
+import { SecretProviderChain } from '../../src/config/environment/secrets/secretProviderChain';
+import { ProcessEnvSecretProvider } from '../../src/config/environment/secrets/providers/processEnvSecretProvider';
+import { VaultSecretProvider } from '../../src/config/environment/secrets/providers/vaultSecretProvider';
+
+/**
+ * Serves `GET /secrets/{name}` like Azure Key Vault from an in-memory map
+ */
+function startVaultStandIn(secrets: Record<string, string>) {
+  const requests: string[] = [];
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const name = decodeURIComponent(url.pathname.replace(/^\/secrets\//, ''));
+    requests.push(name);
+
+    if (name === 'BROKEN-SECRET') {
+      response.writeHead(500).end();
+    } else if (name in secrets) {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ value: secrets[name] }));
+    } else {
+      response.writeHead(404).end();
+    }
+  });
+
+  return { server, requests };
+}
+
+test.describe('Secret provider chain @secrets', () => {
+  const { server, requests } = startVaultStandIn({ 'VAULT-ONLY-SECRET': 'from-vault' });
+  let vaultUrl: string;
+
+  test.beforeAll(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    vaultUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.CI_CHAIN_TEST_SECRET = 'from-process-env';
+  });
+
+  test.afterAll(async () => {
+    delete process.env.CI_CHAIN_TEST_SECRET;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test.beforeEach(() => {
+    requests.length = 0;
+  });
+
+  test('resolves from the first provider holding the secret and caches it', async () => {
+    const chain = new SecretProviderChain([
+      new ProcessEnvSecretProvider('dev'),
+      new VaultSecretProvider({ vaultUrl }),
+    ]);
+
+    expect(await chain.resolve('CHAIN_TEST_SECRET')).toEqual({
+      value: 'from-process-env',
+      provider: 'processEnv',
+    });
+    expect(await chain.resolve('VAULT_ONLY_SECRET')).toEqual({
+      value: 'from-vault',
+      provider: 'vault',
+    });
+
+    await chain.getSecret('VAULT_ONLY_SECRET');
+    expect(requests).toEqual(['VAULT-ONLY-SECRET']);
+  });
+
+  test('applies the per-variable provider order', async () => {
+    const chain = new SecretProviderChain(
+      [new ProcessEnvSecretProvider('dev'), new VaultSecretProvider({ vaultUrl })],
+      { defaultOrder: ['processEnv', 'vault'], variables: { CHAIN_TEST_SECRET: ['vault'] } },
+    );
+
+    await expect(chain.getSecret('CHAIN_TEST_SECRET')).rejects.toThrow(
+      'CHAIN_TEST_SECRET was not found by any secret provider (tried: vault)',
+    );
+  });
+
+  test('names the provider that failed', async () => {
+    const chain = new SecretProviderChain([
+      new ProcessEnvSecretProvider('dev'),
+      new VaultSecretProvider({ vaultUrl }),
+    ]);
+
+    await expect(chain.getSecret('BROKEN_SECRET')).rejects.toMatchObject({
+      details: { variableName: 'BROKEN_SECRET', provider: 'vault' },
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import { EnvironmentResolver } from '../../src/config/environment/resolver/environmentResolver';
+import { FetchCIEnvironmentVariables } from '../../src/config/environment/resolver/fetch/fetchCIEnvironmentVariables';
+import { FetchLocalEnvironmentVariables } from '../../src/config/environment/resolver/fetch/fetchLocalEnvironmentVariables';
+import { SecretProviderChain } from '../../src/config/environment/secrets/secretProviderChain';
+import { ProcessEnvSecretProvider } from '../../src/config/environment/secrets/providers/processEnvSecretProvider';
+import EnvironmentDetector from '../../src/config/environment/detector/detector';
+import { UserRole } from '../../src/config/types/auth/user-role.types';
+import UserRoleRegistry from '../../src/utils/auth/roles/userRoleRegistry';
+import AuthStorageManager from '../../src/utils/auth/storage/authStorageManager';
+
+test.describe('User roles @roles', () => {
+  const roleVariables = {
+    ROLE_TEST_ADMIN_USERNAME: 'admin@example.com',
+    ROLE_TEST_ADMIN_PASSWORD: 'admin-password',
+  };
+
+  test.beforeAll(() => {
+    Object.assign(process.env, roleVariables);
+  });
+
+  test.afterAll(() => {
+    Object.keys(roleVariables).forEach((name) => delete process.env[name]);
+  });
+
+  test('resolves the credentials of a role through the secret provider chain', async () => {
+    const environmentResolver = new EnvironmentResolver(
+      new FetchCIEnvironmentVariables(),
+      new FetchLocalEnvironmentVariables(),
+      new SecretProviderChain([new ProcessEnvSecretProvider('dev', { prefixes: ['ROLE_TEST_'] })]),
+    );
+
+    expect(await environmentResolver.getRoleCredentials('admin')).toEqual({
+      username: 'admin@example.com',
+      password: 'admin-password',
+    });
+    await expect(environmentResolver.getRoleCredentials('approver')).rejects.toThrow(
+      /APPROVER_USERNAME was not found/,
+    );
+  });
+
+  test('stores every role in its own session file', async () => {
+    const filePaths = UserRoleRegistry.getRoles().map((role) =>
+      AuthStorageManager.getAuthStateFilePath(role),
+    );
+
+    expect(new Set(filePaths).size).toBe(filePaths.length);
+    const stage = EnvironmentDetector.getCurrentStage();
+    expect(AuthStorageManager.getAuthStateFilePath()).toMatch(
+      new RegExp(`[\\\\/]\\.auth[\\\\/](ci|local)-${stage}-login\\.json$`),
+    );
+    expect(() => UserRoleRegistry.getRole('auditor' as UserRole)).toThrow(/Unknown user role/);
+  });
+});
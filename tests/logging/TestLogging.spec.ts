@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test';
+import logger, { LoggerManager } from '../../src/utils/logging/loggerManager';
+
+test.describe('Per-test logging @logging', () => {
+  const context = {
+    testId: 'abc123-def456',
+    title: 'Branches > creates a branch',
+    project: 'chromium',
+    workerIndex: 2,
+    retry: 1,
+    shard: '1/4',
+  };
+
+  test.afterEach(async () => {
+    delete process.env.LOG_FORMAT;
+    await LoggerManager.stopTestLogging();
+  });
+
+  test('collects JSON lines tagged with the test context', async () => {
+    process.env.LOG_FORMAT = 'json';
+    const testLogger = LoggerManager.startTestLogging(context);
+
+    logger.info('from a module logger');
+    testLogger.warn('from the test logger', { branchId: 7 });
+
+    const lines = (await LoggerManager.stopTestLogging()).map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      level: 'info',
+      message: 'from a module logger',
+      correlationId: 'abc123-def456',
+      testTitle: 'Branches > creates a branch',
+      project: 'chromium',
+      workerIndex: 2,
+      retry: 1,
+      shard: '1/4',
+    });
+    expect(lines[1]).toMatchObject({ level: 'warn', branchId: 7, correlationId: 'abc123-def456' });
+  });
+
+  test('shows only the correlation id in text lines and stops tagging after the test', async () => {
+    LoggerManager.startTestLogging(context);
+    logger.info('inside the test', { step: 'create' });
+    const [line] = await LoggerManager.stopTestLogging();
+
+    expect(line).toMatch(/\[info\] \[abc123-def456\]: inside the test \{"step":"create"\}$/);
+    expect(line).not.toContain('chromium');
+
+    logger.info('after the test');
+    expect(await LoggerManager.stopTestLogging()).toEqual([]);
+    expect(logger.defaultMeta).toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+import { test, expect, Page, Response } from '@playwright/test';
+import { EventEmitter } from 'events';
+import { CaptureRule } from '../../src/config/types/network/network-interceptor.types';
+import { NetworkInterceptor } from '../../src/networkInterceptors/networkInterceptor';
+
+interface FakeResponse {
+  url: string;
+  method?: string;
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  requestHeaders?: Record<string, string>;
+}
+
+/** Emits responses the way a Playwright page does, without a browser */
+class FakePage extends EventEmitter {
+  public respond(response: FakeResponse): void {
+    this.emit('response', {
+      url: () => response.url,
+      status: () => response.status ?? 200,
+      headers: () => response.headers ?? {},
+      json: async () => response.body,
+      request: () => ({
+        method: () => response.method ?? 'GET',
+        headers: () => response.requestHeaders ?? {},
+      }),
+    } as unknown as Response);
+  }
+}
+
+const APPLICANT_RULE: CaptureRule = {
+  name: 'applicant',
+  url: '**/api/applicants/*',
+  method: 'POST',
+  captures: [
+    { source: 'responseBody', path: '$.applicants[0].applicantId', storeAs: 'applicantId' },
+    { source: 'responseBody', path: 'address', storeAs: 'address' },
+    { source: 'responseHeader', path: 'X-Request-Id', storeAs: 'requestId' },
+    { source: 'requestHeader', path: 'Authorization', storeAs: 'authorization' },
+  ],
+};
+
+test.describe('Network interceptor @network', () => {
+  let page: FakePage;
+  let interceptor: NetworkInterceptor;
+
+  const createInterceptor = (rules: CaptureRule[]) => {
+    interceptor = new NetworkInterceptor(page as unknown as Page, test.info().testId, rules);
+    return interceptor;
+  };
+
+  test.beforeEach(() => {
+    page = new FakePage();
+  });
+
+  test.afterEach(async () => {
+    await interceptor?.dispose();
+  });
+
+  test('captures body paths and headers of matching responses', async () => {
+    createInterceptor([APPLICANT_RULE]);
+
+    page.respond({
+      url: 'https://portal.example.com/api/applicants/42',
+      method: 'POST',
+      body: { applicants: [{ applicantId: 'A-42' }], address: { city: 'Durban' } },
+      headers: { 'x-request-id': 'req-1' },
+      requestHeaders: { authorization: 'Bearer token' },
+    });
+
+    expect(await interceptor.waitForValue('applicantId')).toBe('A-42');
+    expect(await interceptor.getCapturedValue('address')).toBe('{"city":"Durban"}');
+    expect(await interceptor.getCapturedValue('requestId')).toBe('req-1');
+    expect(await interceptor.getCapturedValue('authorization')).toBe('Bearer token');
+  });
+
+  test('skips responses with another URL, method or status', async () => {
+    createInterceptor([APPLICANT_RULE, { ...APPLICANT_RULE, name: 'rejected', status: 422 }]);
+    const body = { applicants: [{ applicantId: 'A-1' }] };
+
+    page.respond({
+      url: 'https://portal.example.com/api/applicants/1/documents',
+      method: 'POST',
+      body,
+    });
+    page.respond({ url: 'https://portal.example.com/api/applicants/1', method: 'GET', body });
+    page.respond({
+      url: 'https://portal.example.com/api/applicants/1',
+      method: 'POST',
+      body,
+      status: 500,
+    });
+    await interceptor.flush();
+    expect(await interceptor.getCapturedValue('applicantId')).toBeNull();
+
+    page.respond({
+      url: 'https://portal.example.com/api/applicants/1',
+      method: 'POST',
+      body,
+      status: 422,
+    });
+    expect(await interceptor.waitForValue('applicantId')).toBe('A-1');
+  });
+
+  test('matches every response with a global regex', async () => {
+    const url = /\/api\/quotes\/\d+$/g;
+    createInterceptor([
+      {
+        name: 'quote',
+        url,
+        captures: [{ source: 'responseBody', path: 'id', storeAs: 'quoteId' }],
+      },
+    ]);
+
+    for (const id of [1, 2, 3]) {
+      page.respond({ url: `https://portal.example.com/api/quotes/${id}`, body: { id } });
+      await interceptor.flush();
+      expect(await interceptor.getCapturedValue('quoteId')).toBe(id);
+    }
+    expect(url.lastIndex).toBe(0);
+  });
+
+  test('shares captured values with other interceptors of the same test', async () => {
+    createInterceptor([APPLICANT_RULE]);
+    page.respond({
+      url: 'https://portal.example.com/api/applicants/7',
+      method: 'POST',
+      body: { applicants: [{ applicantId: 'A-7' }] },
+    });
+    await interceptor.flush();
+
+    // Another worker of the run reads the same shared store
+    const reader = new NetworkInterceptor(new FakePage() as unknown as Page, test.info().testId);
+    expect(await reader.getCapturedValue('applicantId')).toBe('A-7');
+
+    await interceptor.dispose();
+    expect(await reader.getCapturedValue('applicantId')).toBeNull();
+    await reader.dispose();
+  });
+
+  test('stops capturing once disposed', async () => {
+    createInterceptor([APPLICANT_RULE]);
+    await interceptor.dispose();
+
+    page.respond({
+      url: 'https://portal.example.com/api/applicants/9',
+      method: 'POST',
+      body: { applicants: [{ applicantId: 'A-9' }] },
+    });
+
+    expect(page.listenerCount('response')).toBe(0);
+    await expect(interceptor.waitForValue('applicantId', 300)).rejects.toThrow(
+      /was not captured within 300ms/,
+    );
+  });
+
+  test('rejects rules without capture targets', () => {
+    expect(
+      () =>
+        new NetworkInterceptor(page as unknown as Page, test.info().testId, [
+          { ...APPLICANT_RULE, captures: [] },
+        ]),
+    ).toThrow(/has no capture targets/);
+  });
+});
@@ -0,0 +1,117 @@
+import { test, expect } from '@playwright/test';
+import type { TestCase, TestResult } from '@playwright/test/reporter';
+import { AxiosError, AxiosHeaders } from 'axios';
+import fs from 'fs';
+import { ErrorCategory } from '../../src/config/types/enums/error-category.enum';
+import { ErrorClassificationReport } from '../../src/config/types/reporting/error-classification.types';
+import ErrorClassificationReporter from '../../src/reporters/errorClassificationReporter';
+import { CustomError } from '../../src/utils/errors/customError';
+import ErrorClassifier from '../../src/utils/errors/errorClassifier';
+import ErrorHandler from '../../src/utils/errors/errorHandler';
+
+function fakeTest(id: string, title: string): TestCase {
+  return {
+    id,
+    expectedStatus: 'passed',
+    location: { file: `${process.cwd()}/tests/ui/Branches.spec.ts`, line: 1, column: 1 },
+    titlePath: () => ['', 'Branches', title],
+    parent: { project: () => ({ name: 'chromium' }) },
+  } as unknown as TestCase;
+}
+
+function fakeResult(
+  status: TestResult['status'],
+  message?: string,
+  captured?: unknown,
+): TestResult {
+  return {
+    status,
+    retry: 0,
+    error: message ? { message } : undefined,
+    attachments: captured
+      ? [
+          {
+            name: ErrorClassifier.ATTACHMENT_NAME,
+            contentType: 'application/json',
+            body: Buffer.from(JSON.stringify(captured)),
+          },
+        ]
+      : [],
+  } as unknown as TestResult;
+}
+
+function captureErrors(...errors: [unknown, string][]) {
+  ErrorHandler.resetCapturedErrors();
+  ErrorHandler.resetCache();
+  errors.forEach(([error, source]) => ErrorHandler.captureError(error, source));
+  return ErrorHandler.getCapturedErrors();
+}
+
+test.describe('Error classification reporter @reporting', () => {
+  test('groups failed tests by category and target', async ({}, testInfo) => {
+    const outputDir = testInfo.outputPath('error-report');
+    const reporter = new ErrorClassificationReporter({ outputDir });
+
+    const locatorError = new CustomError(ErrorCategory.LOCATOR, {}, 'Save button not found');
+    for (const id of ['t1', 't2']) {
+      reporter.onTestEnd(
+        fakeTest(id, `edits branch ${id}`),
+        fakeResult(
+          'failed',
+          'Error: Save button not found',
+          captureErrors([locatorError, 'BranchPage.performAction'], [locatorError, 'saveBranch']),
+        ),
+      );
+    }
+
+    const timeout = new AxiosError('timeout of 5000ms exceeded', 'ECONNABORTED', {
+      url: 'https://portal.test/api/users?page=2',
+      headers: new AxiosHeaders(),
+    });
+    reporter.onTestEnd(
+      fakeTest('t3', 'lists users'),
+      fakeResult(
+        'timedOut',
+        'Test timeout of 30000ms exceeded.',
+        captureErrors([timeout, 'getUsers']),
+      ),
+    );
+    reporter.onTestEnd(fakeTest('t4', 'shows the title'), fakeResult('failed', 'Title differs'));
+
+    // A retry that passes is not a failure
+    reporter.onTestEnd(fakeTest('t5', 'retried'), fakeResult('failed', 'Flaky'));
+    reporter.onTestEnd(fakeTest('t5', 'retried'), fakeResult('passed'));
+
+    await reporter.onEnd();
+
+    const report: ErrorClassificationReport = JSON.parse(
+      fs.readFileSync(`${outputDir}/error-classification.json`, 'utf-8'),
+    );
+    expect(report.totalFailures).toBe(4);
+    expect(report.groups.map(ErrorClassifier.describeGroup)).toEqual([
+      '2 LOCATOR failures on BranchPage',
+      '1 TIMEOUT failure on /api/users',
+      '1 UNKNOWN failure on test',
+    ]);
+    expect(report.failures[0]).toMatchObject({
+      title: 'Branches > edits branch t1',
+      source: 'BranchPage.performAction',
+      capturedErrors: [{ source: 'BranchPage.performAction' }, { source: 'saveBranch' }],
+    });
+    expect(fs.readFileSync(`${outputDir}/error-classification.html`, 'utf-8')).toContain(
+      'BranchPage',
+    );
+  });
+
+  test('groups HTTP errors by API path', () => {
+    const error = new AxiosError('Request failed with status code 503', 'ERR_BAD_RESPONSE', {
+      url: 'https://portal.test/api/users?page=2',
+      headers: new AxiosHeaders(),
+    });
+
+    const [details] = captureErrors([error, 'getUsers']);
+
+    expect(details.url).toBe('https://portal.test/api/users?page=2');
+    expect(ErrorClassifier.getTarget(details)).toBe('/api/users');
+  });
+});
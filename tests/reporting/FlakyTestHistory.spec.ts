@@ -0,0 +1,87 @@
+import { test, expect } from '@playwright/test';
+import {
+  FlakyTestConfig,
+  TestRunOutcome,
+  TestRunRecord,
+} from '../../src/config/types/reporting/flaky-test.types';
+import FlakinessAnalyzer from '../../src/utils/flakiness/flakinessAnalyzer';
+import { FLAKY_TEST_CONFIG } from '../../src/utils/flakiness/flakyTest.config';
+import { FlakyTestHistory } from '../../src/utils/flakiness/flakyTestHistory';
+
+function toRuns(...outcomes: TestRunOutcome[]): TestRunRecord[] {
+  return outcomes.map((outcome, index) => ({
+    runId: `run-${index}`,
+    timestamp: new Date(0).toISOString(),
+    outcome,
+    retries: outcome === 'flaky' ? 1 : 0,
+  }));
+}
+
+test.describe('Flaky test history @reporting', () => {
+  let config: FlakyTestConfig;
+
+  test.beforeEach(async ({}, testInfo) => {
+    config = {
+      ...FLAKY_TEST_CONFIG,
+      historyPath: testInfo.outputPath('flaky/history.json'),
+      minRuns: 3,
+      stableRuns: 3,
+    };
+  });
+
+  test('scores retries and flips between runs', () => {
+    expect(FlakinessAnalyzer.calculateScore(toRuns('passed', 'passed', 'passed', 'passed'))).toBe(
+      0,
+    );
+    expect(FlakinessAnalyzer.calculateScore(toRuns('passed', 'flaky', 'passed', 'passed'))).toBe(
+      0.25,
+    );
+    // Two flips: passed -> failed -> passed
+    expect(FlakinessAnalyzer.calculateScore(toRuns('passed', 'failed', 'passed', 'passed'))).toBe(
+      0.5,
+    );
+    // Failing every run is broken, not flaky
+    expect(FlakinessAnalyzer.calculateScore(toRuns('failed', 'failed', 'failed', 'failed'))).toBe(
+      0,
+    );
+
+    expect(FlakinessAnalyzer.isFlaky(toRuns('flaky', 'passed'), config)).toBe(false);
+    expect(FlakinessAnalyzer.isFlaky(toRuns('passed', 'flaky', 'passed'), config)).toBe(true);
+    expect(
+      FlakinessAnalyzer.isFlaky(toRuns('flaky', 'flaky', 'passed', 'passed', 'passed'), config),
+    ).toBe(false);
+  });
+
+  test('reports tests that become flaky and stable again', async () => {
+    const history = new FlakyTestHistory(config);
+    const title = FlakinessAnalyzer.getTitle(['ui/Login.spec.ts', 'Login', 'logs in']);
+    const record = (outcome: TestRunOutcome, runId: string) =>
+      history.record(runId, [
+        { title, file: 'tests/ui/Login.spec.ts', project: 'chromium', outcome, retries: 0 },
+      ]);
+
+    await record('passed', 'run-1');
+    await record('flaky', 'run-2');
+    const flakySummary = await record('passed', 'run-3');
+
+    expect(flakySummary.newlyFlaky).toEqual([
+      { title: 'ui/Login.spec.ts › Login › logs in', project: 'chromium', flakinessScore: 0.33 },
+    ]);
+    expect(flakySummary.flaky).toHaveLength(1);
+
+    await record('passed', 'run-4');
+    const stableSummary = await record('passed', 'run-5');
+
+    expect(stableSummary.newlyStable.map((entry) => entry.title)).toEqual([title]);
+    expect(stableSummary.flaky).toEqual([]);
+
+    const stored = (await history.read()).tests[FlakinessAnalyzer.getTestKey('chromium', title)];
+    expect(stored.runs.map((run) => run.runId)).toEqual([
+      'run-1',
+      'run-2',
+      'run-3',
+      'run-4',
+      'run-5',
+    ]);
+  });
+});
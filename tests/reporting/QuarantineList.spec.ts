@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import {
+  FlakyTestConfig,
+  QuarantineEntry,
+} from '../../src/config/types/reporting/flaky-test.types';
+import { FLAKY_TEST_CONFIG } from '../../src/utils/flakiness/flakyTest.config';
+import QuarantineList from '../../src/utils/flakiness/quarantineList';
+
+const LOGIN_TEST = 'ui/Login.spec.ts › Login › logs in';
+const ROLE_TEST = 'ui/Login.spec.ts › Login › roles (admin) › logs in as admin';
+const COMPONENT_TEST = 'ui/Components.spec.ts › opens the menu';
+
+test.describe('Quarantine list @reporting', () => {
+  const writeList = (tests: QuarantineEntry[]): FlakyTestConfig => {
+    const quarantinePath = test.info().outputPath('flakyQuarantine.json');
+    fs.mkdirSync(path.dirname(quarantinePath), { recursive: true });
+    fs.writeFileSync(quarantinePath, JSON.stringify({ tests }));
+    return { ...FLAKY_TEST_CONFIG, quarantinePath };
+  };
+
+  /** The title Playwright greps: `<project> <file> <describes…> <title>`, tags after each part */
+  const matches = (patterns: RegExp[], grepTitle: string) =>
+    patterns.some((pattern) => pattern.test(grepTitle));
+
+  test('finds entries by title and lists their files once', () => {
+    const config = writeList([
+      { title: LOGIN_TEST, reason: 'Times out on the OTP step' },
+      { title: ROLE_TEST, reason: 'Role seeding races' },
+      { title: COMPONENT_TEST, reason: 'Animation' },
+    ]);
+
+    expect(QuarantineList.find(LOGIN_TEST, config)?.reason).toBe('Times out on the OTP step');
+    expect(QuarantineList.find('ui/Login.spec.ts › Login › logs out', config)).toBeUndefined();
+    expect(QuarantineList.getFiles(config)).toEqual(['ui/Login.spec.ts', 'ui/Components.spec.ts']);
+  });
+
+  test('selects only the listed tests, with tags and either path separator', () => {
+    const patterns = QuarantineList.getTitlePatterns(
+      writeList([
+        { title: LOGIN_TEST, reason: 'Flaky' },
+        { title: ROLE_TEST, reason: 'Flaky' },
+      ]),
+    );
+
+    expect(matches(patterns, ' chromium ui/Login.spec.ts Login logs in')).toBe(true);
+    expect(matches(patterns, ' quarantine ui\\Login.spec.ts Login @smoke logs in @slow')).toBe(
+      true,
+    );
+    expect(
+      matches(patterns, ' chromium ui/Login.spec.ts Login roles (admin) logs in as admin'),
+    ).toBe(true);
+
+    expect(matches(patterns, ' chromium ui/Login.spec.ts Login logs in twice')).toBe(false);
+    expect(matches(patterns, ' chromium ui/Login.spec.ts Login roles (admin) logs in')).toBe(false);
+    expect(matches(patterns, ' chromium other/ui/Login.spec.ts Login logs in')).toBe(false);
+    expect(matches(patterns, ' chromium ui/Components.spec.ts opens the menu')).toBe(false);
+  });
+
+  test('selects nothing when the list is empty or missing', () => {
+    expect(QuarantineList.getTitlePatterns(writeList([]))).toEqual([]);
+    expect(
+      QuarantineList.getTitlePatterns({
+        ...FLAKY_TEST_CONFIG,
+        quarantinePath: test.info().outputPath('missing.json'),
+      }),
+    ).toEqual([]);
+  });
+
+  test('rejects a list without a tests array', () => {
+    const quarantinePath = test.info().outputPath('invalid.json');
+    fs.mkdirSync(path.dirname(quarantinePath), { recursive: true });
+    fs.writeFileSync(quarantinePath, JSON.stringify({ entries: [] }));
+
+    expect(() => QuarantineList.getEntries({ ...FLAKY_TEST_CONFIG, quarantinePath })).toThrow(
+      /must hold a "tests" array/,
+    );
+  });
+});
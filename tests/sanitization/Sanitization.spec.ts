@@ -0,0 +1,88 @@
+import { test, expect } from '@playwright/test';
+import SanitizationConfig from '../../src/utils/sanitization/sanitizationConfig';
+
+const detecting = { ...SanitizationConfig.getDefaultParams(), enablePatternDetection: true };
+
+test.describe('Sanitization @sanitization', () => {
+  test('detects personal data and credentials inside values and reports them', async () => {
+    const { data, report } = SanitizationConfig.sanitizeDataWithReport(
+      {
+        applicant: {
+          email: 'thandi.nkosi@example.co.za',
+          idNumber: '8001015009087',
+          note: 'Paid with 4111 1111 1111 1111, ref 1234567890123',
+        },
+        integrations: ['key: sk_test_abcdefghijklmnop1234', 'status ok'],
+        password: 'hunter2',
+      },
+      detecting,
+    );
+
+    expect(data).toEqual({
+      applicant: {
+        email: '********',
+        idNumber: '********',
+        note: 'Paid with ********, ref 1234567890123',
+      },
+      integrations: ['key: ********', 'status ok'],
+      password: '********',
+    });
+    expect(report).toMatchObject({ keysProcessed: 6, keysSanitized: 5, circularReferences: 0 });
+    expect(report.sanitizedKeys).toEqual([
+      'applicant.email',
+      'applicant.idNumber',
+      'applicant.note',
+      'integrations[0]',
+      'password',
+    ]);
+    expect(report.patternsFound).toEqual(['email', 'saIdNumber', 'cardNumber', 'apiKey']);
+  });
+
+  test('leaves values alone unless pattern detection or custom patterns are set', async () => {
+    const payload = { email: 'thandi.nkosi@example.co.za', reference: 'REF-0042' };
+
+    expect(SanitizationConfig.sanitizeData(payload)).toEqual(payload);
+    expect(
+      SanitizationConfig.sanitizeData(payload, {
+        ...SanitizationConfig.getDefaultParams(),
+        customPatterns: [/REF-\d+/],
+      }),
+    ).toEqual({ email: 'thandi.nkosi@example.co.za', reference: '********' });
+  });
+
+  test('guards against circular references and excessive depth', async () => {
+    const node: Record<string, unknown> = { name: 'root', child: { level: 1 } };
+    node.self = node;
+    (node.child as Record<string, unknown>).deeper = { level: 2, deepest: { level: 3 } };
+
+    const { data, report } = SanitizationConfig.sanitizeDataWithReport(node, {
+      ...SanitizationConfig.getDefaultParams(),
+      maxDepth: 2,
+    });
+
+    expect(data).toEqual({
+      name: 'root',
+      self: '[Circular]',
+      child: { level: 1, deeper: { level: 2, deepest: '[Max depth exceeded]' } },
+    });
+    expect(report.circularReferences).toBe(1);
+  });
+
+  test('sanitizes large payloads in chunks', async () => {
+    const rows = Array.from({ length: 2_500 }, (_, index) => ({
+      id: index,
+      token: `token-${index}`,
+      contact: `user${index}@example.com`,
+    }));
+
+    const { data, report } = await SanitizationConfig.sanitizeDataInChunks(rows, {
+      ...detecting,
+      chunkSize: 1_000,
+    });
+
+    expect(data).toHaveLength(2_500);
+    expect(data[2_499]).toEqual({ id: 2_499, token: '********', contact: '********' });
+    expect(report.keysSanitized).toBe(5_000);
+    expect(rows[0].token).toBe('token-0');
+  });
+});
@@ -0,0 +1,157 @@
+import { test, expect } from '@playwright/test';
+import { DataTable } from '../../src/ui/components/dataTable';
+import { Dropdown } from '../../src/ui/components/dropdown';
+import { FormField } from '../../src/ui/components/formField';
+import { Modal } from '../../src/ui/components/modal';
+import { Paginator } from '../../src/ui/components/paginator';
+import { BRANCH_TABLE_COLUMNS } from '../../src/ui/components/configuratorTable.config';
+import { ROLE_FORM_FIELDS } from '../../src/ui/components/configuratorForm.config';
+import { Role } from '../../src/models/ui/configurator.interface';
+import BasePage from '../../src/ui/base/basePage';
+import { Tabs } from '../../src/ui/components/tabs';
+import ErrorHandler from '../../src/utils/errors/errorHandler';
+
+const COMPONENTS_HTML = `
+  <div role="tablist">
+    <button role="tab" aria-selected="true" onclick="selectTab(this)">Branches</button>
+    <button role="tab" aria-selected="false" onclick="selectTab(this)">Users</button>
+  </div>
+  <label id="search-field">Search <input name="search" /></label>
+  <select id="status"><option>Active</option><option>Inactive</option></select>
+  <table id="branches">
+    <thead><tr><th>Name</th><th>Status</th><th>Actions</th></tr></thead>
+    <tbody>
+      <tr><td>Cape Town</td><td>Active</td><td><button onclick="openDialog()">Delete</button></td></tr>
+      <tr><td>Durban</td><td>Inactive</td><td><button>Delete</button></td></tr>
+    </tbody>
+  </table>
+  <div role="dialog" hidden><h2>Delete branch</h2><button onclick="this.parentElement.hidden = true">Confirm</button></div>
+  <script>
+    function selectTab(tab) {
+      document.querySelectorAll('[role="tab"]').forEach((t) => t.setAttribute('aria-selected', String(t === tab)));
+    }
+    function openDialog() { document.querySelector('[role="dialog"]').hidden = false; }
+  </script>`;
+
+test.describe('UI components @components', () => {
+  test.use({ storageState: { cookies: [], origins: [] } });
+
+  test.beforeEach(async ({ page }) => {
+    await page.setContent(COMPONENTS_HTML);
+  });
+
+  test('reads table cells by column name and runs row actions', async ({ page }) => {
+    const table = new DataTable(page.locator('#branches'), 'Branches');
+    const dialog = new Modal(page.getByRole('dialog'), 'Delete Branch Dialog');
+
+    await table.waitForLoad();
+    expect(await table.getHeaders()).toEqual(['Name', 'Status', 'Actions']);
+    expect(await table.getRowCount()).toBe(2);
+    expect(await table.getCellText('Durban', 'Status')).toBe('Inactive');
+    await expect(table.getCellText('Durban', 'Region')).rejects.toThrow(/no column 'Region'/);
+
+    await table.clickRowAction('Cape Town', 'Delete');
+    await dialog.waitForOpen();
+    await dialog.verifyTitle('Delete branch');
+    await dialog.confirm();
+  });
+
+  test('fills fields, selects options and switches tabs', async ({ page }) => {
+    const searchField = new FormField(page.locator('#search-field'), 'Search Box');
+    const statusDropdown = new Dropdown(page.locator('#status'), 'Status Dropdown');
+    const tabs = new Tabs(page.getByRole('tablist'), 'Configurator Tabs');
+
+    await searchField.fill('Cape');
+    expect(await searchField.getValue()).toBe('Cape');
+
+    await statusDropdown.select('Inactive');
+    expect(await statusDropdown.getSelectedOption()).toBe('Inactive');
+    expect(await statusDropdown.getOptions()).toEqual(['Active', 'Inactive']);
+
+    await tabs.select('Users');
+    expect(await tabs.getActiveTab()).toBe('Users');
+  });
+
+  test('reads typed rows across pages', async ({ page }) => {
+    await page.setContent(`
+      <table id="paged-branches">
+        <thead><tr><th>Name</th><th>Region</th><th>Status</th></tr></thead>
+        <tbody></tbody>
+      </table>
+      <nav id="paginator">
+        <button aria-label="Previous page" onclick="render(0)">Previous</button>
+        <button aria-label="Next page" onclick="render(1)">Next</button>
+      </nav>
+      <script>
+        const pages = [
+          [['Branch 2', 'Gauteng', 'Active'], ['Branch 10', 'Gauteng', 'Active']],
+          [['Branch 11', 'Western Cape', 'Inactive']],
+        ];
+        function render(index) {
+          document.querySelector('tbody').innerHTML = pages[index]
+            .map((cells) => '<tr>' + cells.map((cell) => '<td>' + cell + '</td>').join('') + '</tr>')
+            .join('');
+          document.querySelector('[aria-label="Next page"]').disabled = index === pages.length - 1;
+        }
+        render(0);
+      </script>`);
+    const table = new DataTable(page.locator('#paged-branches'), 'Branches');
+    const paginator = new Paginator(page.locator('#paginator'), 'Branches Paginator');
+
+    await table.verifySortedBy('Name');
+    await table.verifyRow(BRANCH_TABLE_COLUMNS, { name: 'Branch 10' }, { status: 'Active' });
+
+    const rows = await table.readAllRows(BRANCH_TABLE_COLUMNS, paginator);
+    expect(rows.map((row) => row.name)).toEqual(['Branch 2', 'Branch 10', 'Branch 11']);
+    expect(rows[2]).toEqual({ name: 'Branch 11', region: 'Western Cape', status: 'Inactive' });
+  });
+
+  test('waits for a row without logging the attempts made while the table loads', async ({
+    page,
+  }) => {
+    await page.setContent(`
+      <table id="loading-branches">
+        <thead><tr><th>Name</th><th>Region</th><th>Status</th></tr></thead>
+        <tbody><tr><td colspan="3">No records found</td></tr></tbody>
+      </table>
+      <script>
+        setTimeout(() => {
+          document.querySelector('tbody').innerHTML =
+            '<tr><td>Branch 7</td><td>Gauteng</td><td>Pending</td></tr>';
+        }, 300);
+        setTimeout(() => {
+          document.querySelector('tbody td:last-child').textContent = 'Active';
+        }, 600);
+      </script>`);
+    const table = new DataTable(page.locator('#loading-branches'), 'Branches');
+    ErrorHandler.resetCapturedErrors();
+
+    expect(await table.getRowCount()).toBe(0);
+    await table.verifyRow(BRANCH_TABLE_COLUMNS, { name: 'Branch 7' }, { status: 'Active' });
+
+    expect(ErrorHandler.getCapturedErrors()).toEqual([]);
+  });
+
+  test('fills and reads a form from a model', async ({ page }) => {
+    await page.setContent(`
+      <form>
+        <input formcontrolname="description" />
+        <fieldset formcontrolname="permissions">
+          <label><input type="checkbox" /> View Branches</label>
+          <label><input type="checkbox" checked /> Edit Branches</label>
+          <label><input type="checkbox" /> Manage Users</label>
+        </fieldset>
+        <select formcontrolname="status"><option>Active</option><option>Inactive</option></select>
+      </form>`);
+    const basePage = new BasePage(page);
+    const role: Role = {
+      description: 'Branch Viewer',
+      permissions: ['View Branches', 'Manage Users'],
+      status: 'Inactive',
+    };
+
+    await basePage.fillForm(role, ROLE_FORM_FIELDS, 'Role Form', page.locator('form'));
+
+    expect(await basePage.readForm(ROLE_FORM_FIELDS, 'Role Form')).toEqual(role);
+  });
+});
@@ -24,7 +24,7 @@ test.describe(`Login - Login Flow @regression`, () => {
     logger.info('User logged in successfully with valid credentials');
   });
 
-  test('Verify login fail with invalid credentials @sanity @regression', async ({
+  test('Verify login fail with invalid credentials @sanity @regression @noauth', async ({
     loginPage,
     environmentResolver,
     browserSessionManager,
@@ -36,7 +36,7 @@ test.describe(`Login - Login Flow @regression`, () => {
     logger.info('Login appropriately failed with invalid password');
   });
 
-  test('Verify login fail with non-existing user @sanity @regression', async ({
+  test('Verify login fail with non-existing user @sanity @regression @noauth', async ({
     loginPage,
     browserSessionManager,
   }) => {
@@ -1,14 +1,19 @@
 import { test as authSession } from '../../fixtures/configurator.fixture';
+import UserRoleRegistry from '../../src/utils/auth/roles/userRoleRegistry';
 import logger from '../../src/utils/logging/loggerManager';
 
-authSession(
-  `Authenticate @sanity @regression`,
-  async ({ browserSessionManager, environmentResolver, examplePage }) => {
-    const { username, password } = await environmentResolver.getPortalCredentials();
+for (const role of UserRoleRegistry.getSetupRoles()) {
+  authSession.describe(`${role} session`, () => {
+    authSession.use({ role });
 
-    await browserSessionManager.performLogin(username, password, true);
-    await examplePage.isSearchBoxVisible();
+    authSession(
+      `Authenticate as ${role} @sanity @regression @noauth`,
+      async ({ browserSessionManager, examplePage }) => {
+        await browserSessionManager.loginAsRole(true);
+        await examplePage.isSearchBoxVisible();
 
-    logger.info('Authentication session state setup completed and saved successfully');
-  },
-);
+        logger.info(`Authentication session state for role '${role}' saved successfully`);
+      },
+    );
+  });
+}